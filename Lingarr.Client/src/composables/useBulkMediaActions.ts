@@ -0,0 +1,118 @@
+import { computed, reactive, ref } from 'vue'
+import {
+    BulkMediaAction,
+    IBulkMediaActionOptions,
+    IBulkMediaActionResponse,
+    IMediaFilter,
+    MediaType
+} from '@/ts'
+import services from '@/services'
+import { useI18n } from '@/plugins/i18n'
+
+// IDs sent per request, small enough for translate and integrity checks to report progress
+const BATCH_SIZE = 20
+
+/**
+ * Tracks a selection of media items of one type and applies bulk actions to it in batches,
+ * collecting progress and the per-item results. A batch whose request fails is reported as
+ * failed for every item in it and the run continues with the next batch.
+ */
+export function useBulkMediaActions(mediaType: MediaType) {
+    const { translate } = useI18n()
+    const selected = ref(new Set<number>())
+    // Set when the selection holds every item matching the filter, not only the visible page
+    const isAllMatching = ref(false)
+    const isRunning = ref(false)
+    const progress = reactive({ processed: 0, total: 0, failed: 0 })
+    const result = ref<IBulkMediaActionResponse | null>(null)
+
+    const selectedCount = computed(() => selected.value.size)
+
+    const isSelected = (id: number) => selected.value.has(id)
+
+    const toggle = (id: number) => {
+        if (!selected.value.delete(id)) {
+            selected.value.add(id)
+        }
+        isAllMatching.value = false
+    }
+
+    const setSelected = (ids: number[], value: boolean) => {
+        ids.forEach((id) => (value ? selected.value.add(id) : selected.value.delete(id)))
+        isAllMatching.value = false
+    }
+
+    const selectAllMatching = async (filter: IMediaFilter) => {
+        const ids = await services.media.ids<number[]>(mediaType, filter.searchQuery, filter)
+        selected.value = new Set(ids)
+        isAllMatching.value = true
+    }
+
+    const clear = () => {
+        selected.value = new Set()
+        isAllMatching.value = false
+    }
+
+    const run = async (action: BulkMediaAction, options: IBulkMediaActionOptions = {}) => {
+        const ids = [...selected.value]
+        if (isRunning.value || !ids.length) return null
+
+        isRunning.value = true
+        progress.processed = 0
+        progress.total = ids.length
+        progress.failed = 0
+        const summary: IBulkMediaActionResponse = { succeeded: 0, failed: 0, results: [] }
+        result.value = summary
+        try {
+            for (let index = 0; index < ids.length; index += BATCH_SIZE) {
+                const batch = ids.slice(index, index + BATCH_SIZE)
+                try {
+                    const response = await services.media.bulk<IBulkMediaActionResponse>(
+                        action,
+                        mediaType,
+                        batch,
+                        options.isPriority,
+                        options.hours
+                    )
+                    summary.succeeded += response.succeeded
+                    summary.failed += response.failed
+                    summary.results.push(...response.results)
+                    progress.failed += response.failed
+                } catch (error) {
+                    // eslint-disable-next-line no-console
+                    console.error('Failed to apply bulk media action', error)
+                    const message = translate('bulkMedia.batchFailed')
+                    summary.failed += batch.length
+                    summary.results.push(...batch.map((id) => ({ id, success: false, message })))
+                    progress.failed += batch.length
+                }
+                progress.processed += batch.length
+            }
+        } finally {
+            isRunning.value = false
+        }
+        return summary
+    }
+
+    const clearResult = () => {
+        result.value = null
+    }
+
+    return {
+        selected,
+        selectedCount,
+        isAllMatching,
+        isRunning,
+        progress,
+        result,
+        isSelected,
+        toggle,
+        setSelected,
+        selectAllMatching,
+        clear,
+        run,
+        clearResult
+    }
+}
+
+export default useBulkMediaActions
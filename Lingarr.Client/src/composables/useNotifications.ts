@@ -0,0 +1,74 @@
+import { INotification, NOTIFICATION_TYPE } from '@/ts'
+import { useNotificationStore } from '@/store/notification'
+import { useI18n } from '@/plugins/i18n'
+
+/**
+ * Turns stored notifications into readable text and shows them as browser desktop
+ * notifications for the event types the user opted into.
+ */
+export function useNotifications() {
+    const { translate } = useI18n()
+    const notificationStore = useNotificationStore()
+
+    const isDesktopSupported = typeof window !== 'undefined' && 'Notification' in window
+
+    const describe = (notification: INotification): { title: string; body: string } => {
+        const languages = {
+            source: notification.sourceLanguage?.toUpperCase() ?? '',
+            target: notification.targetLanguage?.toUpperCase() ?? ''
+        }
+        switch (notification.type) {
+            case NOTIFICATION_TYPE.COMPLETED:
+                return {
+                    title: notification.title,
+                    body: translate('notifications.completed', languages)
+                }
+            case NOTIFICATION_TYPE.FAILED:
+                return {
+                    title: notification.title,
+                    body: translate('notifications.failed', languages)
+                }
+            case NOTIFICATION_TYPE.QUEUE_FINISHED:
+                return {
+                    title: translate('notifications.queueFinished'),
+                    body: translate('notifications.queueFinishedBody')
+                }
+            default:
+                return {
+                    title: translate('notifications.integrity'),
+                    body: translate('notifications.integrityBody', {
+                        valid: notification.counts?.valid ?? 0,
+                        corrupt: notification.counts?.corrupt ?? 0,
+                        errors: notification.counts?.errors ?? 0
+                    })
+                }
+        }
+    }
+
+    const showDesktopNotification = (notification: INotification | null) => {
+        if (!notification || !isDesktopSupported) return
+        if (!notificationStore.getDesktopPreferences[notification.type]) return
+        if (Notification.permission !== 'granted') return
+
+        const { title, body } = describe(notification)
+        // Tabs share the tag, so the browser shows an event once however many tabs are open
+        const desktopNotification = new Notification(title, {
+            body,
+            tag: `lingarr-${notification.key}`,
+            icon: '/android-chrome-192x192.png'
+        })
+        desktopNotification.onclick = () => window.focus()
+    }
+
+    const requestDesktopPermission = async (): Promise<boolean> => {
+        if (!isDesktopSupported) return false
+        if (Notification.permission === 'default') {
+            await Notification.requestPermission()
+        }
+        return Notification.permission === 'granted'
+    }
+
+    return { describe, showDesktopNotification, requestDesktopPermission, isDesktopSupported }
+}
+
+export default useNotifications
@@ -0,0 +1,59 @@
+import { useRouter } from 'vue-router'
+import { IEpisodeDetail, ITranslationRequest, MEDIA_TYPE } from '@/ts'
+import { defaultMediaFilter, useMovieStore } from '@/store/movie'
+import { useShowStore } from '@/store/show'
+import services from '@/services'
+
+/**
+ * Navigates to the library page of the media a translation request belongs to,
+ * pre-filtered on its title. Other filters are cleared so they cannot hide the media.
+ */
+export function useOpenMedia() {
+    const router = useRouter()
+
+    const openMedia = async (request: Pick<ITranslationRequest, 'title' | 'mediaType'>) => {
+        if (request.mediaType === MEDIA_TYPE.MOVIE) {
+            const movieStore = useMovieStore()
+            await movieStore.setFilter({
+                ...defaultMediaFilter(),
+                sortBy: movieStore.filter.sortBy,
+                isAscending: movieStore.filter.isAscending,
+                searchQuery: request.title
+            })
+            await router.push({ name: 'movies' })
+        } else {
+            // Episode titles are formatted as "Show Title - S01E02 - Episode Title"
+            const showStore = useShowStore()
+            const showTitle = request.title.split(/ - S\d+E\d+/)[0]
+            await showStore.setFilter({
+                ...defaultMediaFilter(),
+                sortBy: showStore.filter.sortBy,
+                isAscending: showStore.filter.isAscending,
+                searchQuery: showTitle
+            })
+            await router.push({ name: 'shows' })
+        }
+    }
+
+    /**
+     * Navigates to the detail page of a movie or episode. Episode routes include the show,
+     * so the episode is looked up first.
+     */
+    const openDetails = async (request: Pick<ITranslationRequest, 'mediaId' | 'mediaType'>) => {
+        if (!request.mediaId) return
+
+        if (request.mediaType === MEDIA_TYPE.MOVIE) {
+            await router.push({ name: 'movie', params: { id: request.mediaId } })
+        } else if (request.mediaType === MEDIA_TYPE.EPISODE) {
+            const episode = await services.media.episode<IEpisodeDetail>(request.mediaId)
+            await router.push({
+                name: 'episode',
+                params: { id: episode.showId, episodeId: episode.id }
+            })
+        }
+    }
+
+    return { openMedia, openDetails }
+}
+
+export default useOpenMedia
@@ -0,0 +1,50 @@
+import { computed, onUnmounted, watch } from 'vue'
+import { useSignalR } from '@/composables/useSignalR'
+
+export const POLLING_INTERVAL_MS = 10000
+
+/**
+ * Periodically calls the given refresh function while a hub is reconnecting or down,
+ * so the page keeps updating until live updates are back.
+ */
+export function usePollingFallback(
+    hubName: string,
+    refresh: () => Promise<unknown> | unknown,
+    interval = POLLING_INTERVAL_MS
+) {
+    const signalR = useSignalR()
+    let timer: ReturnType<typeof setInterval> | null = null
+
+    const isDown = computed(() => {
+        const status = signalR.state.hubs[hubName]?.status
+        return status === 'reconnecting' || status === 'disconnected'
+    })
+
+    const stop = () => {
+        if (timer) clearInterval(timer)
+        timer = null
+    }
+
+    watch(
+        isDown,
+        (down) => {
+            stop()
+            if (down) {
+                timer = setInterval(async () => {
+                    try {
+                        await refresh()
+                    } catch (error) {
+                        console.debug(`Polling fallback for ${hubName} failed`, error)
+                    }
+                }, interval)
+            }
+        },
+        { immediate: true }
+    )
+
+    onUnmounted(stop)
+
+    return { isPolling: isDown }
+}
+
+export default usePollingFallback
@@ -0,0 +1,74 @@
+import { computed, reactive } from 'vue'
+import { ISettingValidationError, SettingKey, SettingValue } from '@/ts'
+import { useSettingStore } from '@/store/setting'
+import { useI18n } from '@/plugins/i18n'
+import {
+    getSettingDefinition,
+    parseSettingValue,
+    serializeSettingValue,
+    validateSettingValue
+} from '@/utils/settingSchema'
+
+/**
+ * Binds a single setting to a component. `value` is parsed into the type declared in the
+ * settings schema, `input` is the raw string for form inputs. Both validate against the schema
+ * before saving, an invalid value is kept locally but never sent to the server.
+ */
+export function useSetting<K extends SettingKey>(key: K, onSaved?: () => void) {
+    const { translate } = useI18n()
+    const settingsStore = useSettingStore()
+    const definition = getSettingDefinition(key)
+
+    const lookup = (other: SettingKey) => settingsStore.getSetting(other)
+
+    const raw = computed((): string => {
+        const value = settingsStore.getSetting(key)
+        if (value === undefined || value === null) return definition.default
+        return typeof value === 'string' ? value : JSON.stringify(value)
+    })
+
+    const describe = (error: ISettingValidationError | null) =>
+        error ? translate(`settings.schema.${error.code}`, error.params) : ''
+
+    // onSaved runs once the server has stored the value
+    const save = async (value: string) => {
+        const isValid = validateSettingValue(key, value, lookup) === null
+        await settingsStore.updateSetting(key, value, isValid)
+        if (isValid) {
+            onSaved?.()
+        }
+    }
+
+    // JSON settings are kept parsed in the store, it serializes them when saving
+    const saveJson = async (value: unknown) => {
+        await settingsStore.updateSetting(key, value as unknown[], true, true)
+        onSaved?.()
+    }
+
+    const validation = computed(() => validateSettingValue(key, raw.value, lookup))
+
+    return reactive({
+        definition,
+        value: computed({
+            get: (): SettingValue<K> => settingsStore.getSettingValue(key),
+            set: (value: SettingValue<K>) =>
+                definition.type === 'json'
+                    ? saveJson(value)
+                    : save(serializeSettingValue(key, value))
+        }),
+        input: computed({
+            get: () => raw.value,
+            set: save
+        }),
+        isValid: computed(() => validation.value === null),
+        error: computed(() => describe(validation.value)),
+        // False while the setting this one depends on is disabled
+        isActive: computed(
+            () =>
+                !definition.requires ||
+                parseSettingValue(definition.requires, lookup(definition.requires)) === true
+        ),
+        // Validation message for a value that has not been saved yet, empty when it is valid
+        validate: (value: string) => describe(validateSettingValue(key, value, lookup))
+    })
+}
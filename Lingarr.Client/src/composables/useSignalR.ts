@@ -1,112 +1,472 @@
-import { reactive } from 'vue'
-import { HubConnectionBuilder, LogLevel } from '@microsoft/signalr'
-import { EventCallbacks, Hub, SignalRState, SignalRStore } from '@/ts/composables/signalR'
+import { computed, reactive } from 'vue'
+import {
+    HubConnection,
+    HubConnectionBuilder,
+    HubConnectionState,
+    LogLevel
+} from '@microsoft/signalr'
+import {
+    EventCallbacks,
+    Hub,
+    HubStatus,
+    SignalRRelayMessage,
+    SignalRState,
+    SignalRStore
+} from '@/ts/composables/signalR'
+import { createTabElection } from '@/utils/tabElection'
+
+// Automatic reconnect gives up after a few attempts, after that the hub is restarted on this interval
+const RESTART_INTERVAL_MS = 15000
+const SEND_TIMEOUT_MS = 10000
+
+type GroupName = { group: string }
+type EventHandler = (...args: unknown[]) => void
 
 let signalRInstance: SignalRStore | null = null
 
+/**
+ * Only one tab, the elected leader, holds the real hub connections. Every other tab registers the
+ * hubs, groups and events it needs with the leader over a BroadcastChannel and receives events and
+ * connection state back. When the leader goes away another tab takes over and all tabs resync.
+ */
 export const createSignalRStore = (): SignalRStore => {
     const state = reactive<SignalRState>({
         hubs: {}
     })
 
+    const channel =
+        typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('lingarr-signalr') : null
+    const post = (message: SignalRRelayMessage) => channel?.postMessage(message)
+
+    // What this tab needs, registered again with every new leader
+    const hubUrls = new Map<string, string>()
+    const joinedGroups = new Map<string, Map<string, GroupName>>()
+    const handlers = new Map<string, Map<string, Set<EventHandler>>>()
+    const reconnectedCallbacks = new Map<string, Set<() => void>>()
+    const pendingSends = new Map<string, { resolve: () => void; reject: (error: Error) => void }>()
+    let sendCounter = 0
+    let hadLeader = false
+
+    // Leader only: the real connections and everything any tab asked for
+    const connections = new Map<string, HubConnection>()
     const connectionPromises = new Map<string, Promise<void>>()
+    const relayedEvents = new Map<string, Set<string>>()
+    // Group membership is tracked per tab so a group is only left once no tab needs it anymore
+    const groupMembers = new Map<string, Map<string, { groupName: GroupName; tabs: Set<string> }>>()
 
-    const connect = async (hubName: string, url: string): Promise<Hub> => {
-        if (!state.hubs[hubName]) {
-            if (!connectionPromises.has(hubName)) {
-                const startPromise = (async () => {
-                    const connection = new HubConnectionBuilder()
-                        .withUrl(url)
-                        .configureLogging(LogLevel.None)
-                        .withAutomaticReconnect()
-                        .build()
-
-                    state.hubs[hubName] = {
-                        connection,
-                        isConnected: false,
-                        lastError: null
-                    }
+    const isLeader = () => election.isLeader()
 
-                    connection.onreconnecting(() => {
-                        state.hubs[hubName].isConnected = false
-                    })
+    const status = computed<HubStatus>(() => {
+        const statuses = Object.values(state.hubs).map((hub) => hub.status)
+        if (statuses.includes('disconnected')) return 'disconnected'
+        if (statuses.includes('reconnecting')) return 'reconnecting'
+        if (!statuses.length || statuses.includes('connecting')) return 'connecting'
+        return 'connected'
+    })
+
+    const applyState = (hubName: string, hubStatus: HubStatus, error: Error | null = null) => {
+        const hub = state.hubs[hubName]
+        if (!hub) return
+        hub.status = hubStatus
+        hub.isConnected = hubStatus === 'connected'
+        hub.lastError = error
+    }
 
-                    connection.onreconnected(() => {
-                        state.hubs[hubName].isConnected = true
-                    })
+    const setHubState = (hubName: string, hubStatus: HubStatus, error: Error | null = null) => {
+        applyState(hubName, hubStatus, error)
+        if (isLeader()) {
+            post({ type: 'state', hubName, status: hubStatus, error: error?.message ?? null })
+        }
+    }
+
+    const dispatch = (hubName: string, event: string, args: unknown[]) => {
+        handlers
+            .get(hubName)
+            ?.get(event)
+            ?.forEach((handler) => handler(...args))
+    }
 
-                    connection.onclose(() => {
-                        state.hubs[hubName].isConnected = false
-                    })
+    const runReconnected = (hubName: string) => {
+        reconnectedCallbacks.get(hubName)?.forEach((callback) => callback())
+    }
+
+    const toStatus = (connection: HubConnection): HubStatus => {
+        switch (connection.state) {
+            case HubConnectionState.Connected:
+                return 'connected'
+            case HubConnectionState.Reconnecting:
+                return 'reconnecting'
+            case HubConnectionState.Disconnected:
+            case HubConnectionState.Disconnecting:
+                return 'disconnected'
+            default:
+                return 'connecting'
+        }
+    }
+
+    const invokeIfConnected = async (hubName: string, method: string, groupName: GroupName) => {
+        const connection = connections.get(hubName)
+        if (connection?.state === HubConnectionState.Connected) {
+            await connection.invoke(method, groupName)
+        }
+    }
+
+    const addGroupMember = async (hubName: string, groupName: GroupName, tabId: string) => {
+        if (!groupMembers.has(hubName)) groupMembers.set(hubName, new Map())
+        const members = groupMembers.get(hubName)!
+        const member = members.get(groupName.group) ?? { groupName, tabs: new Set<string>() }
+        members.set(groupName.group, member)
+
+        const isNewGroup = member.tabs.size === 0
+        member.tabs.add(tabId)
+        // While disconnected the group is joined as soon as the hub is back
+        if (isNewGroup) await invokeIfConnected(hubName, 'JoinGroup', groupName)
+    }
+
+    const removeGroupMember = async (hubName: string, groupName: GroupName, tabId: string) => {
+        const member = groupMembers.get(hubName)?.get(groupName.group)
+        if (!member) return
+
+        member.tabs.delete(tabId)
+        if (member.tabs.size) return
+        groupMembers.get(hubName)?.delete(groupName.group)
+        await invokeIfConnected(hubName, 'LeaveGroup', groupName)
+    }
+
+    const attachRelay = (connection: HubConnection, hubName: string, event: string) => {
+        connection.on(event, (...args: unknown[]) => {
+            dispatch(hubName, event, args)
+            post({ type: 'event', hubName, event, args })
+        })
+    }
+
+    const relayEvent = (hubName: string, event: string) => {
+        if (!relayedEvents.has(hubName)) relayedEvents.set(hubName, new Set())
+        const events = relayedEvents.get(hubName)!
+        if (events.has(event)) return
+
+        events.add(event)
+        const connection = connections.get(hubName)
+        if (connection) attachRelay(connection, hubName, event)
+    }
+
+    // Group membership is tied to the connection id, so it has to be restored after every reconnect
+    const restoreHub = async (hubName: string, resync: boolean) => {
+        setHubState(hubName, 'connected')
+
+        const connection = connections.get(hubName)
+        for (const { groupName } of groupMembers.get(hubName)?.values() ?? []) {
+            try {
+                await connection?.invoke('JoinGroup', groupName)
+            } catch (err) {
+                console.error(`Error rejoining group ${groupName.group} in hub ${hubName}:`, err)
+            }
+        }
+
+        if (resync) {
+            runReconnected(hubName)
+            post({ type: 'reconnected', hubName })
+        }
+    }
+
+    const scheduleRestart = (hubName: string, connection: HubConnection) => {
+        setTimeout(async () => {
+            if (connections.get(hubName) !== connection) return
+            if (connection.state !== HubConnectionState.Disconnected) return
+
+            try {
+                await connection.start()
+                await restoreHub(hubName, true)
+            } catch (error) {
+                setHubState(hubName, 'disconnected', error as Error)
+                scheduleRestart(hubName, connection)
+            }
+        }, RESTART_INTERVAL_MS)
+    }
+
+    const startHub = (hubName: string, url: string): Promise<void> => {
+        const existing = connections.get(hubName)
+        if (existing) {
+            // Lets a tab that just registered the hub know its current state
+            post({ type: 'state', hubName, status: toStatus(existing), error: null })
+            return connectionPromises.get(hubName) ?? Promise.resolve()
+        }
+
+        const connection = new HubConnectionBuilder()
+            .withUrl(url)
+            .configureLogging(LogLevel.None)
+            .withAutomaticReconnect()
+            .build()
+        connections.set(hubName, connection)
+        relayedEvents.get(hubName)?.forEach((event) => attachRelay(connection, hubName, event))
+
+        connection.onreconnecting((error) => {
+            setHubState(hubName, 'reconnecting', error ?? null)
+        })
+
+        connection.onreconnected(async () => {
+            await restoreHub(hubName, true)
+        })
+
+        connection.onclose((error) => {
+            // Connections are closed on purpose when this tab hands over leadership
+            if (connections.get(hubName) !== connection) return
+            setHubState(hubName, 'disconnected', error ?? null)
+            scheduleRestart(hubName, connection)
+        })
+
+        // When taking over from another leader, updates broadcast during the handover were missed
+        const resync = hadLeader
+        const startPromise = (async () => {
+            try {
+                await connection.start()
+                await restoreHub(hubName, resync)
+            } catch (error) {
+                setHubState(hubName, 'disconnected', error as Error)
+                console.error(`SignalR ${hubName} Connection Error:`, error)
+                scheduleRestart(hubName, connection)
+            } finally {
+                connectionPromises.delete(hubName)
+            }
+        })()
+
+        connectionPromises.set(hubName, startPromise)
+        return startPromise
+    }
 
+    const becomeLeader = () => {
+        for (const [hubName, groups] of joinedGroups) {
+            groups.forEach((groupName) => void addGroupMember(hubName, groupName, election.tabId))
+        }
+        for (const [hubName, events] of handlers) {
+            events.forEach((_, event) => relayEvent(hubName, event))
+        }
+        for (const [hubName, url] of hubUrls) {
+            void startHub(hubName, url)
+        }
+    }
+
+    const stopLeading = () => {
+        const closing = [...connections.values()]
+        connections.clear()
+        connectionPromises.clear()
+        relayedEvents.clear()
+        groupMembers.clear()
+        closing.forEach((connection) => connection.stop())
+    }
+
+    // Registers everything this tab needs with a newly elected leader
+    const registerWithLeader = () => {
+        for (const [hubName, url] of hubUrls) {
+            post({ type: 'connect', hubName, url })
+        }
+        for (const [hubName, groups] of joinedGroups) {
+            groups.forEach((group) => post({ type: 'join', tabId: election.tabId, hubName, group }))
+        }
+        for (const [hubName, events] of handlers) {
+            events.forEach((_, event) => post({ type: 'subscribe', hubName, event }))
+        }
+    }
+
+    const onLeaderChange = (leaderId: string | null) => {
+        if (leaderId === election.tabId) {
+            becomeLeader()
+            return
+        }
+
+        if (connections.size) stopLeading()
+        // Live updates are paused until the new leader reports the state of each hub
+        for (const hubName of hubUrls.keys()) {
+            if (state.hubs[hubName]?.status === 'connected') applyState(hubName, 'reconnecting')
+        }
+        if (leaderId) {
+            hadLeader = true
+            registerWithLeader()
+        }
+    }
+
+    const invoke = (hubName: string, method: string, args: unknown[]): Promise<void> => {
+        if (isLeader()) {
+            const connection = connections.get(hubName)
+            if (!connection) return Promise.reject(new Error(`Hub ${hubName} is not connected`))
+            return connection.invoke(method, ...args)
+        }
+
+        const id = `${election.tabId}-${++sendCounter}`
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                pendingSends.delete(id)
+                reject(new Error(`No response from the tab holding hub ${hubName}`))
+            }, SEND_TIMEOUT_MS)
+            pendingSends.set(id, {
+                resolve: () => {
+                    clearTimeout(timer)
+                    resolve()
+                },
+                reject: (error: Error) => {
+                    clearTimeout(timer)
+                    reject(error)
+                }
+            })
+            post({ type: 'send', id, hubName, method, args })
+        })
+    }
+
+    const handleMessage = async (message: SignalRRelayMessage) => {
+        if (isLeader()) {
+            switch (message.type) {
+                case 'connect':
+                    await startHub(message.hubName, message.url)
+                    break
+                case 'join':
+                    await addGroupMember(message.hubName, message.group, message.tabId)
+                    break
+                case 'leave':
+                    await removeGroupMember(message.hubName, message.group, message.tabId)
+                    break
+                case 'subscribe':
+                    relayEvent(message.hubName, message.event)
+                    break
+                case 'send':
                     try {
-                        await connection.start()
-                        state.hubs[hubName].isConnected = true
+                        await invoke(message.hubName, message.method, message.args)
+                        post({ type: 'sendResult', id: message.id, error: null })
                     } catch (error) {
-                        state.hubs[hubName].lastError = error as Error
-                        console.error(`SignalR ${hubName} Connection Error:`, error)
-                    } finally {
-                        connectionPromises.delete(hubName)
+                        post({ type: 'sendResult', id: message.id, error: String(error) })
                     }
-                })()
+                    break
+            }
+            return
+        }
 
-                connectionPromises.set(hubName, startPromise)
+        switch (message.type) {
+            case 'event':
+                dispatch(message.hubName, message.event, message.args)
+                break
+            case 'state':
+                if (hubUrls.has(message.hubName)) {
+                    applyState(
+                        message.hubName,
+                        message.status,
+                        message.error ? new Error(message.error) : null
+                    )
+                }
+                break
+            case 'reconnected':
+                if (hubUrls.has(message.hubName)) runReconnected(message.hubName)
+                break
+            case 'sendResult': {
+                const pending = pendingSends.get(message.id)
+                pendingSends.delete(message.id)
+                if (message.error) pending?.reject(new Error(message.error))
+                else pending?.resolve()
+                break
             }
+        }
+    }
 
-            await connectionPromises.get(hubName)
+    if (channel) {
+        channel.onmessage = ({ data }: MessageEvent<SignalRRelayMessage>) => {
+            handleMessage(data).catch((err) => console.error('SignalR relay error:', err))
+        }
+    }
+
+    const election = createTabElection('lingarr-signalr-leader', onLeaderChange)
+
+    // A closing follower hands its groups back, otherwise the leader would stay joined for its lifetime
+    window.addEventListener('pagehide', () => {
+        if (isLeader()) return
+        for (const [hubName, groups] of joinedGroups) {
+            groups.forEach((group) =>
+                post({ type: 'leave', tabId: election.tabId, hubName, group })
+            )
+        }
+    })
+    // Restored from the back/forward cache, the groups left on pagehide are needed again
+    window.addEventListener('pageshow', (event) => {
+        if (event.persisted && !isLeader()) registerWithLeader()
+    })
+
+    const connect = async (hubName: string, url: string): Promise<Hub> => {
+        hubUrls.set(hubName, url)
+        if (!state.hubs[hubName]) {
+            state.hubs[hubName] = {
+                isConnected: false,
+                status: 'connecting',
+                lastError: null
+            }
         }
+        if (!joinedGroups.has(hubName)) joinedGroups.set(hubName, new Map())
+        if (!handlers.has(hubName)) handlers.set(hubName, new Map())
+        if (!reconnectedCallbacks.has(hubName)) reconnectedCallbacks.set(hubName, new Set())
 
-        const hubConnection = state.hubs[hubName]
+        if (isLeader()) {
+            await startHub(hubName, url)
+        } else {
+            post({ type: 'connect', hubName, url })
+        }
 
         return {
-            joinGroup: async (groupName: { group: string }): Promise<void> => {
-                if (hubConnection.connection) {
-                    try {
-                        await hubConnection.connection.invoke('JoinGroup', groupName)
-                    } catch (err) {
-                        console.error(
-                            `Error joining group ${groupName.group} in hub ${hubName}:`,
-                            err
-                        )
-                    }
+            joinGroup: async (groupName: GroupName): Promise<void> => {
+                joinedGroups.get(hubName)?.set(groupName.group, groupName)
+                if (!isLeader()) {
+                    post({ type: 'join', tabId: election.tabId, hubName, group: groupName })
+                    return
+                }
+                try {
+                    await addGroupMember(hubName, groupName, election.tabId)
+                } catch (err) {
+                    console.error(`Error joining group ${groupName.group} in hub ${hubName}:`, err)
                 }
             },
-            leaveGroup: async (groupName: { group: string }): Promise<void> => {
-                if (hubConnection.connection) {
-                    try {
-                        await hubConnection.connection.invoke('LeaveGroup', groupName)
-                    } catch (err) {
-                        console.error(
-                            `Error leaving group ${groupName.group} in hub ${hubName}:`,
-                            err
-                        )
-                    }
+            leaveGroup: async (groupName: GroupName): Promise<void> => {
+                joinedGroups.get(hubName)?.delete(groupName.group)
+                if (!isLeader()) {
+                    post({ type: 'leave', tabId: election.tabId, hubName, group: groupName })
+                    return
+                }
+                try {
+                    await removeGroupMember(hubName, groupName, election.tabId)
+                } catch (err) {
+                    console.error(`Error leaving group ${groupName.group} in hub ${hubName}:`, err)
                 }
             },
             send: async (event: string, ...args: unknown[]): Promise<void> => {
-                if (hubConnection.connection) {
-                    try {
-                        await hubConnection.connection.invoke(event, ...args)
-                    } catch (err) {
-                        console.error(`Error sending ${event} to hub ${hubName}:`, err)
-                    }
+                try {
+                    await invoke(hubName, event, args)
+                } catch (err) {
+                    console.error(`Error sending ${event} to hub ${hubName}:`, err)
                 }
             },
             on: <K extends keyof EventCallbacks>(event: K, callback: EventCallbacks[K]): void => {
-                if (hubConnection.connection) {
-                    hubConnection.connection.on(event, callback)
+                const events = handlers.get(hubName)!
+                if (!events.has(event)) events.set(event, new Set())
+                events.get(event)!.add(callback as EventHandler)
+
+                if (isLeader()) {
+                    relayEvent(hubName, event)
+                } else {
+                    post({ type: 'subscribe', hubName, event })
                 }
             },
             off: <K extends keyof EventCallbacks>(event: K, callback: EventCallbacks[K]): void => {
-                if (hubConnection.connection) {
-                    hubConnection.connection.off(event, callback)
-                }
+                handlers
+                    .get(hubName)
+                    ?.get(event)
+                    ?.delete(callback as EventHandler)
+            },
+            onReconnected: (callback: () => void): void => {
+                reconnectedCallbacks.get(hubName)?.add(callback)
+            },
+            offReconnected: (callback: () => void): void => {
+                reconnectedCallbacks.get(hubName)?.delete(callback)
             }
         }
     }
 
     return {
         state,
+        status,
         connect
     }
 }
@@ -6,6 +6,8 @@ type ValidationProps = {
     minLength?: number
     maxLength?: number
     errorMessage?: string
+    // Additional check run after the type check, returns an error message or an empty string
+    validator?: (value: string) => string
 }
 
 export default function useValidation(props: ValidationProps) {
@@ -51,6 +53,11 @@ export default function useValidation(props: ValidationProps) {
                 isValid.value = true
                 error.value = ''
         }
+
+        if (isValid.value && props.validator) {
+            error.value = props.validator(value)
+            isValid.value = error.value === ''
+        }
     }
 
     return { isValid, isInvalid, error, validate }
@@ -11,16 +11,36 @@ const routes: RouteRecordRaw[] = [
         component: () => import('@/pages/ShowPage.vue'),
         name: 'shows'
     },
+    {
+        path: '/shows/:id/episodes/:episodeId',
+        component: () => import('@/pages/EpisodeDetailPage.vue'),
+        name: 'episode'
+    },
     {
         path: '/movies',
         component: () => import('@/pages/MoviePage.vue'),
         name: 'movies'
     },
+    {
+        path: '/movies/:id',
+        component: () => import('@/pages/MovieDetailPage.vue'),
+        name: 'movie'
+    },
     {
         name: 'translations',
         path: '/translations',
         component: () => import('@/pages/TranslationPage.vue')
     },
+    {
+        name: 'history',
+        path: '/history',
+        component: () => import('@/pages/HistoryPage.vue')
+    },
+    {
+        name: 'subtitle-review',
+        path: '/review',
+        component: () => import('@/pages/SubtitleReviewPage.vue')
+    },
     {
         name: 'translation-test',
         path: '/translation-test',
@@ -70,6 +90,16 @@ const routes: RouteRecordRaw[] = [
                 name: 'logs-settings',
                 path: 'logs',
                 component: () => import('@/pages/settings/LogsPage.vue')
+            },
+            {
+                name: 'backup-settings',
+                path: 'backup',
+                component: () => import('@/pages/settings/BackupPage.vue')
+            },
+            {
+                name: 'history-settings',
+                path: 'history',
+                component: () => import('@/pages/settings/HistoryPage.vue')
             }
         ]
     }
@@ -1,12 +1,31 @@
 ﻿import { AxiosError, AxiosResponse, AxiosStatic } from 'axios'
-import { IMediaService, MediaType } from '@/ts'
+import { BulkMediaAction, IMediaFilter, IMediaOverrides, IMediaService, MediaType } from '@/ts'
+
+const filterParams = (filter: Partial<IMediaFilter> = {}) => {
+    const params: Record<string, string | number | boolean> = {}
+    if (filter.translationState !== null && filter.translationState !== undefined) {
+        params.translationState = filter.translationState
+    }
+    if (filter.missingLanguage) params.missingLanguage = filter.missingLanguage
+    if (filter.isExcluded !== null && filter.isExcluded !== undefined) {
+        params.isExcluded = filter.isExcluded
+    }
+    if (filter.isPriority !== null && filter.isPriority !== undefined) {
+        params.isPriority = filter.isPriority
+    }
+    if (filter.addedFrom) params.addedFrom = filter.addedFrom
+    if (filter.addedTo) params.addedTo = filter.addedTo
+    return params
+}
 
 const service = (http: AxiosStatic, resource = '/api/media'): IMediaService => ({
     movies<T>(
         pageNumber: number,
         searchQuery: string,
         orderBy: string,
-        ascending: boolean
+        ascending: boolean,
+        filter?: Partial<IMediaFilter>,
+        pageSize: number = 20
     ): Promise<T> {
         return new Promise((resolve, reject) => {
             http.get(
@@ -14,7 +33,9 @@ const service = (http: AxiosStatic, resource = '/api/media'): IMediaService => (
                     pageNumber: pageNumber,
                     searchQuery: searchQuery,
                     orderBy: orderBy,
-                    ascending: ascending
+                    ascending: ascending,
+                    pageSize: pageSize,
+                    ...filterParams(filter)
                 })
             )
                 .then((response: AxiosResponse<T>) => {
@@ -36,11 +57,35 @@ const service = (http: AxiosStatic, resource = '/api/media'): IMediaService => (
                 })
         })
     },
+    movie<T>(id: number): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.get(`${resource}/movies/${id}`)
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+    episode<T>(id: number): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.get(`${resource}/episodes/${id}`)
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
     shows<T>(
         pageNumber: number,
         searchQuery: string,
         orderBy: string,
-        ascending: boolean
+        ascending: boolean,
+        filter?: Partial<IMediaFilter>,
+        pageSize: number = 20
     ): Promise<T> {
         return new Promise((resolve, reject) => {
             http.get(
@@ -48,7 +93,9 @@ const service = (http: AxiosStatic, resource = '/api/media'): IMediaService => (
                     pageNumber: pageNumber,
                     searchQuery: searchQuery,
                     orderBy: orderBy,
-                    ascending: ascending
+                    ascending: ascending,
+                    pageSize: pageSize,
+                    ...filterParams(filter)
                 })
             )
                 .then((response: AxiosResponse<T>) => {
@@ -115,6 +162,84 @@ const service = (http: AxiosStatic, resource = '/api/media'): IMediaService => (
                     reject(error.response)
                 })
         })
+    },
+    ids<T>(mediaType: MediaType, searchQuery: string, filter?: Partial<IMediaFilter>): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.get(
+                `${resource}/ids`.addParams({
+                    mediaType: mediaType,
+                    searchQuery: searchQuery,
+                    ...filterParams(filter)
+                })
+            )
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+    bulk<T>(
+        action: BulkMediaAction,
+        mediaType: MediaType,
+        ids: number[],
+        isPriority = false,
+        hours = 0
+    ): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.post(`${resource}/bulk`, { action, mediaType, ids, isPriority, hours })
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+    coverage<T>(showId: number): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.get(`${resource}/shows/${showId}/coverage`)
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+    translateCoverage<T>(mediaType: MediaType, id: number, language: string): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.post(`${resource}/coverage/translate`, { mediaType, id, language })
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+    overrides<T>(mediaType: MediaType, id: number): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.get(`${resource}/overrides`.addParams({ mediaType, id }))
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+    updateOverrides<T>(mediaType: MediaType, id: number, overrides: IMediaOverrides): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.post(`${resource}/overrides`, { mediaType, id, overrides })
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
     }
 })
 
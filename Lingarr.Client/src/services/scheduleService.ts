@@ -26,6 +26,43 @@ const service = (http: AxiosStatic, resource = '/api/schedule'): IScheduleServic
                 })
         })
     },
+    jobRuns<T>(jobId: string, limit: number = 20): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.get(`${resource}/job/${jobId}/runs`.addParams({ limit }))
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+    setEnabled<T>(jobId: string, enabled: boolean): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.put(`${resource}/job/${jobId}/enabled`, {
+                enabled
+            })
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+    updateSchedule<T>(jobId: string, cron: string): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.put(`${resource}/job/${jobId}/schedule`, {
+                cron
+            })
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
     remove<T>(jobId: string): Promise<T> {
         return new Promise((resolve, reject) => {
             http.delete(`${resource}/job/remove/${jobId}`)
@@ -38,7 +38,7 @@ const service = (http: AxiosStatic, resource = '/api/setting'): ISettingService
                 })
         })
     },
-    setSettings(settings: ISettings): Promise<void> {
+    setSettings(settings: Partial<ISettings>): Promise<void> {
         return new Promise<void>((resolve, reject) => {
             http.post(`${resource}/multiple/set`, settings)
                 .then(() => {
@@ -49,6 +49,33 @@ const service = (http: AxiosStatic, resource = '/api/setting'): ISettingService
                 })
         })
     },
+    history<T>(pageNumber: number, key?: string): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.get(`${resource}/history`, {
+                params: {
+                    pageNumber,
+                    key
+                }
+            })
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+    revertChange(id: number): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            http.post(`${resource}/history/${id}/revert`)
+                .then(() => {
+                    resolve()
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
     getSystemLimits<T>(): Promise<T> {
         return new Promise((resolve, reject) => {
             http.get(`${resource}/system/limits`)
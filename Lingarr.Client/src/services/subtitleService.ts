@@ -1,5 +1,5 @@
 import { AxiosError, AxiosResponse, AxiosStatic } from 'axios'
-import { ISubtitleService } from '@/ts'
+import { IBulkExtractionRequest, ISubtitleService } from '@/ts'
 
 interface ExtractSubtitleResponse {
     success: boolean
@@ -50,6 +50,18 @@ const service = (http: AxiosStatic, resource = '/api/subtitle'): ISubtitleServic
         })
     },
 
+    getEmbeddedSubtitlesBatch<T>(mediaType: 'movie' | 'episode', mediaIds: number[]): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.post(`${resource}/${mediaType}/embedded`, { ids: mediaIds })
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+
     extractSubtitle(
         mediaType: 'movie' | 'episode',
         mediaId: number,
@@ -76,6 +88,100 @@ const service = (http: AxiosStatic, resource = '/api/subtitle'): ISubtitleServic
                     reject(error.response)
                 })
         })
+    },
+
+    getEmbeddedTracks<T>(mediaType: 'show' | 'season', id: number): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.get(`${resource}/${mediaType}/${id}/embedded/tracks`)
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+
+    extractEmbeddedTracks<T>(request: IBulkExtractionRequest): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.post(`${resource}/embedded/extract`, request)
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+
+    getExtractionStatus<T>(): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.get(`${resource}/embedded/extract/status`)
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+
+    reviewRequest<T>(translationRequestId: number): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.get(`${resource}/review/${translationRequestId}`)
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+
+    review<T>(
+        sourcePath: string,
+        translatedPath: string,
+        sourceLanguage?: string,
+        targetLanguage?: string
+    ): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.post(`${resource}/review`, {
+                sourcePath,
+                translatedPath,
+                sourceLanguage,
+                targetLanguage
+            })
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+
+    updateCue<T>(translatedPath: string, position: number, text: string): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.put(`${resource}/review/cue`, { translatedPath, position, text })
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+
+    undoEdit<T>(translatedPath: string): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.post(`${resource}/review/undo`, { translatedPath })
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
     }
 })
 
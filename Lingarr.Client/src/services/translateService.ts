@@ -41,6 +41,27 @@ const service = (http: AxiosStatic, resource = '/api/translate'): ITranslateServ
                 })
         })
     },
+    retranslateCue<T>(
+        sourcePath: string,
+        sourcePosition: number,
+        sourceLanguage: string,
+        targetLanguage: string
+    ): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.post(`${resource}/cue`, {
+                sourcePath,
+                sourcePosition,
+                sourceLanguage,
+                targetLanguage
+            })
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
     getLanguages<T>(): Promise<T> {
         return new Promise((resolve, reject) => {
             http.get(`${resource}/languages`)
@@ -1,5 +1,31 @@
 import { AxiosError, AxiosResponse, AxiosStatic } from 'axios'
-import { ITranslationRequest, ITranslationRequestLog, ITranslationRequestService } from '@/ts'
+import {
+    BulkTranslationAction,
+    ITranslationRequest,
+    ITranslationRequestFilter,
+    ITranslationRequestLog,
+    ITranslationRequestService,
+    TRANSLATION_LANE,
+    TranslationExportFormat,
+    TranslationLane
+} from '@/ts'
+
+const filterParams = (filter: Partial<ITranslationRequestFilter> = {}) => {
+    const params: Record<string, string | boolean | string[]> = {}
+    if (filter.statuses?.length) params.statuses = filter.statuses
+    if (filter.sourceLanguage) params.sourceLanguage = filter.sourceLanguage
+    if (filter.targetLanguage) params.targetLanguage = filter.targetLanguage
+    if (filter.mediaType) params.mediaType = filter.mediaType
+    if (filter.mediaId) params.mediaId = String(filter.mediaId)
+    if (filter.isPriority !== null && filter.isPriority !== undefined) {
+        params.isPriority = filter.isPriority
+    }
+    if (filter.createdFrom) params.createdFrom = filter.createdFrom
+    if (filter.createdTo) params.createdTo = filter.createdTo
+    if (filter.completedFrom) params.completedFrom = filter.completedFrom
+    if (filter.completedTo) params.completedTo = filter.completedTo
+    return params
+}
 
 const service = (
     http: AxiosStatic,
@@ -16,6 +42,17 @@ const service = (
                 })
         })
     },
+    get<T>(translationRequestId: number): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.get(`${resource}/${translationRequestId}`)
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
     getFailedRequests<T>(): Promise<T> {
         return new Promise((resolve, reject) => {
             http.get(`${resource}/failed`)
@@ -38,11 +75,49 @@ const service = (
                 })
         })
     },
+    throughput<T>(): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.get(`${resource}/throughput`)
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+    pauseState<T>(): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.get(`${resource}/pause`)
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+    pause<T>(
+        paused: boolean,
+        serviceType: string | null = null,
+        interruptInProgress = false
+    ): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.post(`${resource}/pause`, { paused, serviceType, interruptInProgress })
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
     requests<T>(
         pageNumber: number,
         searchQuery: string,
         orderBy: string,
-        ascending: boolean
+        ascending: boolean,
+        filter?: Partial<ITranslationRequestFilter>
     ): Promise<T> {
         return new Promise((resolve, reject) => {
             http.get(
@@ -50,7 +125,8 @@ const service = (
                     pageNumber: pageNumber,
                     searchQuery: searchQuery,
                     orderBy: orderBy,
-                    ascending: ascending
+                    ascending: ascending,
+                    ...filterParams(filter)
                 })
             )
                 .then((response: AxiosResponse<T>) => {
@@ -61,6 +137,20 @@ const service = (
                 })
         })
     },
+    exportUrl(
+        format: TranslationExportFormat,
+        includeLogs: boolean,
+        filter: ITranslationRequestFilter
+    ): string {
+        return `${resource}/export`.addParams({
+            format: format,
+            includeLogs: includeLogs,
+            searchQuery: filter.searchQuery,
+            orderBy: filter.sortBy,
+            ascending: filter.isAscending,
+            ...filterParams(filter)
+        })
+    },
     cancel<T>(translationRequest: ITranslationRequest): Promise<T> {
         return new Promise((resolve, reject) => {
             http.post(`${resource}/cancel`, translationRequest)
@@ -94,6 +184,17 @@ const service = (
                 })
         })
     },
+    requeue<T>(translationRequest: ITranslationRequest): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.post(`${resource}/requeue`, translationRequest)
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
     retryAllFailed<T>(): Promise<T> {
         return new Promise((resolve, reject) => {
             http.post(`${resource}/retry-all-failed`)
@@ -105,6 +206,38 @@ const service = (
                 })
         })
     },
+    bulk<T>(
+        action: BulkTranslationAction,
+        ids: number[],
+        isPriority = false,
+        lane: TranslationLane = TRANSLATION_LANE.NORMAL
+    ): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.post(`${resource}/bulk`, { action, ids, isPriority, lane })
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
+    move<T>(
+        id: number,
+        lane: TranslationLane,
+        targetId: number | null = null,
+        placeAfter = false
+    ): Promise<T> {
+        return new Promise((resolve, reject) => {
+            http.post(`${resource}/move`, { id, lane, targetId, placeAfter })
+                .then((response: AxiosResponse<T>) => {
+                    resolve(response.data)
+                })
+                .catch((error: AxiosError) => {
+                    reject(error.response)
+                })
+        })
+    },
     reenqueueQueued<T>(includeInProgress = false): Promise<T> {
         return new Promise((resolve, reject) => {
             http.post(`${resource}/reenqueue`.addParams({ includeInProgress }), null)
@@ -0,0 +1,58 @@
+﻿import { acceptHMRUpdate, defineStore } from 'pinia'
+import { IEmbeddedSubtitle, IUseEmbeddedSubtitleStore } from '@/ts'
+import services from '@/services'
+
+// Embedded tracks only change when a file is probed or a track is extracted, so they are cached
+// per media id and only those actions invalidate an entry
+export const useEmbeddedSubtitleStore = defineStore('embeddedSubtitle', {
+    state: (): IUseEmbeddedSubtitleStore => ({
+        movie: {},
+        episode: {}
+    }),
+    getters: {
+        get:
+            (state: IUseEmbeddedSubtitleStore) =>
+            (mediaType: 'movie' | 'episode', mediaId: number): IEmbeddedSubtitle[] =>
+                state[mediaType][mediaId] ?? []
+    },
+    actions: {
+        async fetch(mediaType: 'movie' | 'episode', mediaIds: number[]) {
+            const missing = [...new Set(mediaIds)].filter((id) => !(id in this[mediaType]))
+            if (!missing.length) return
+
+            const result = await services.subtitle.getEmbeddedSubtitlesBatch<
+                Record<number, IEmbeddedSubtitle[]>
+            >(mediaType, missing)
+            Object.assign(this[mediaType], result)
+        },
+        async probe(mediaType: 'movie' | 'episode', mediaId: number) {
+            this.invalidate(mediaType, mediaId)
+            const tracks = await services.subtitle.probeEmbeddedSubtitles<IEmbeddedSubtitle[]>(
+                mediaType,
+                mediaId
+            )
+            this[mediaType][mediaId] = tracks
+            return tracks
+        },
+        async extract(mediaType: 'movie' | 'episode', mediaId: number, streamIndex: number) {
+            const result = await services.subtitle.extractSubtitle(mediaType, mediaId, streamIndex)
+            if (result.success) {
+                this.invalidate(mediaType, mediaId)
+                await this.fetch(mediaType, [mediaId])
+            }
+            return result
+        },
+        invalidate(mediaType: 'movie' | 'episode', mediaId: number) {
+            delete this[mediaType][mediaId]
+        },
+        // Used after a bulk extraction, which can change the tracks of many episodes at once
+        clear() {
+            this.movie = {}
+            this.episode = {}
+        }
+    }
+})
+
+if (import.meta.hot) {
+    import.meta.hot.accept(acceptHMRUpdate(useEmbeddedSubtitleStore, import.meta.hot))
+}
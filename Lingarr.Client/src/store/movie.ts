@@ -1,7 +1,49 @@
 import { acceptHMRUpdate, defineStore } from 'pinia'
-import { IFilter, IMovie, IPagedResult, IUseMovieStore, MediaType } from '@/ts'
+import {
+    IMediaFilter,
+    IMovie,
+    IPagedResult,
+    IUseMovieStore,
+    MEDIA_LAYOUT,
+    MediaLayout,
+    MediaType
+} from '@/ts'
+import { useLocalStorage } from '@/composables/useLocalStorage'
 import services from '@/services'
 
+// Titles requested per scroll step of the poster grid
+const GRID_PAGE_SIZE = 60
+const localStorage = useLocalStorage()
+// Identifies the latest grid request, responses for an outdated filter are dropped
+let gridRequest = 0
+
+export const defaultMediaFilter = (): IMediaFilter => ({
+    searchQuery: '',
+    sortBy: 'Title',
+    isAscending: true,
+    pageNumber: 1,
+    translationState: null,
+    missingLanguage: '',
+    isExcluded: null,
+    isPriority: null,
+    addedFrom: '',
+    addedTo: ''
+})
+
+const criteriaKeys: (keyof IMediaFilter)[] = [
+    'searchQuery',
+    'translationState',
+    'missingLanguage',
+    'isExcluded',
+    'isPriority',
+    'addedFrom',
+    'addedTo'
+]
+
+// Everything except paging and sorting narrows the result set, so a change resets to page one
+export const mediaCriteriaChanged = (current: IMediaFilter, next: IMediaFilter) =>
+    criteriaKeys.some((key) => current[key] !== next[key])
+
 export const useMovieStore = defineStore('movie', {
     state: (): IUseMovieStore => ({
         movies: {
@@ -10,15 +52,27 @@ export const useMovieStore = defineStore('movie', {
             pageNumber: 0,
             items: []
         },
-        filter: {
-            searchQuery: '',
-            sortBy: 'Title',
-            isAscending: true,
-            pageNumber: 1
-        }
+        filter: defaultMediaFilter(),
+        layout: localStorage.getItem<MediaLayout>('movie_layout') ?? MEDIA_LAYOUT.TABLE,
+        grid: {
+            totalCount: 0,
+            pageSize: 0,
+            pageNumber: 0,
+            items: []
+        },
+        isLoadingGrid: false
     }),
     getters: {
-        getFilter: (state: IUseMovieStore): IFilter => state.filter,
+        getFilter: (state: IUseMovieStore): IMediaFilter => state.filter,
+        hasActiveFilter: (state: IUseMovieStore): boolean =>
+            mediaCriteriaChanged(
+                { ...defaultMediaFilter(), searchQuery: state.filter.searchQuery },
+                state.filter
+            ),
+        getLayout: (state: IUseMovieStore): MediaLayout => state.layout,
+        getGrid: (state: IUseMovieStore): IPagedResult<IMovie> => state.grid,
+        hasMoreGridItems: (state: IUseMovieStore): boolean =>
+            state.grid.pageNumber === 0 || state.grid.items.length < state.grid.totalCount,
         get(): IPagedResult<IMovie> {
             this.movies.items = this.movies.items?.map((item) => {
                 return {
@@ -32,18 +86,63 @@ export const useMovieStore = defineStore('movie', {
         }
     },
     actions: {
-        async setFilter(filterVal: IFilter) {
-            this.filter = filterVal.searchQuery ? { ...filterVal, pageNumber: 1 } : filterVal
+        async setFilter(filterVal: IMediaFilter) {
+            this.filter = mediaCriteriaChanged(this.filter, filterVal)
+                ? { ...filterVal, pageNumber: 1 }
+                : filterVal
+            await this.fetch()
+        },
+        async resetFilter() {
+            await this.setFilter({
+                ...defaultMediaFilter(),
+                searchQuery: this.filter.searchQuery,
+                sortBy: this.filter.sortBy,
+                isAscending: this.filter.isAscending
+            })
+        },
+        async setLayout(layout: MediaLayout) {
+            this.layout = layout
+            localStorage.setItem('movie_layout', layout)
             await this.fetch()
         },
         async fetch() {
+            if (this.layout === MEDIA_LAYOUT.GRID) {
+                await this.fetchGrid(true)
+                return
+            }
             this.movies = await services.media.movies(
                 this.filter.pageNumber,
                 this.filter.searchQuery,
                 this.filter.sortBy,
-                this.filter.isAscending
+                this.filter.isAscending,
+                this.filter
             )
         },
+        async fetchGrid(reset = false) {
+            if (reset) {
+                gridRequest++
+                this.grid = { totalCount: 0, pageSize: 0, pageNumber: 0, items: [] }
+            } else if (this.isLoadingGrid || !this.hasMoreGridItems) {
+                return
+            }
+
+            const request = gridRequest
+            this.isLoadingGrid = true
+            try {
+                const page = await services.media.movies<IPagedResult<IMovie>>(
+                    this.grid.pageNumber + 1,
+                    this.filter.searchQuery,
+                    this.filter.sortBy,
+                    this.filter.isAscending,
+                    this.filter,
+                    GRID_PAGE_SIZE
+                )
+                if (request !== gridRequest) return
+                this.grid = { ...page, items: [...this.grid.items, ...page.items] }
+            } finally {
+                this.isLoadingGrid = false
+            }
+        },
         async exclude(type: MediaType, id: number) {
             await services.media.exclude(type, id)
         },
@@ -0,0 +1,168 @@
+import { acceptHMRUpdate, defineStore } from 'pinia'
+import {
+    IBulkIntegrityProgress,
+    INotification,
+    INotificationGroup,
+    INotificationPreferences,
+    IRequestProgress,
+    IUseNotificationStore,
+    NOTIFICATION_TYPE,
+    NotificationType,
+    TRANSLATION_STATUS
+} from '@/ts'
+import { useLocalStorage } from '@/composables/useLocalStorage'
+
+const localStorage = useLocalStorage()
+
+const MAX_NOTIFICATIONS = 200
+// Every tab receives the same hub events, an event already stored by another tab is skipped
+const DUPLICATE_WINDOW_MS = 60000
+
+// Not persisted: used to detect the queue running empty and to key that event across tabs
+let lastActiveCount: number | null = null
+let lastFinishedRequestId: number | null = null
+
+const defaultPreferences = (): INotificationPreferences => ({
+    [NOTIFICATION_TYPE.COMPLETED]: false,
+    [NOTIFICATION_TYPE.FAILED]: false,
+    [NOTIFICATION_TYPE.QUEUE_FINISHED]: false,
+    [NOTIFICATION_TYPE.INTEGRITY]: false
+})
+
+export const useNotificationStore = defineStore('notification', {
+    state: (): IUseNotificationStore => ({
+        notifications: localStorage.getItem<INotification[]>('notifications') ?? [],
+        desktop: {
+            ...defaultPreferences(),
+            ...(localStorage.getItem<INotificationPreferences>('notification_desktop') ?? {})
+        }
+    }),
+    getters: {
+        getNotifications: (state: IUseNotificationStore): INotification[] => state.notifications,
+        getUnreadCount: (state: IUseNotificationStore): number =>
+            state.notifications.filter((notification) => !notification.read).length,
+        getDesktopPreferences: (state: IUseNotificationStore): INotificationPreferences =>
+            state.desktop,
+        // Groups by media title, newest group first, other events are grouped by their type
+        getGroups: (state: IUseNotificationStore): INotificationGroup[] => {
+            const groups = new Map<string, INotificationGroup>()
+            for (const notification of state.notifications) {
+                const key = notification.title ? `title:${notification.title}` : notification.type
+                const group = groups.get(key) ?? {
+                    key,
+                    title: notification.title,
+                    type: notification.type,
+                    unread: 0,
+                    notifications: []
+                }
+                group.notifications.push(notification)
+                if (!notification.read) group.unread++
+                groups.set(key, group)
+            }
+            return [...groups.values()]
+        }
+    },
+    actions: {
+        add(notification: Omit<INotification, 'id' | 'createdAt' | 'read'>): INotification | null {
+            const now = Date.now()
+            const isDuplicate = this.notifications.some(
+                (existing) =>
+                    existing.key === notification.key &&
+                    now - new Date(existing.createdAt).getTime() < DUPLICATE_WINDOW_MS
+            )
+            if (isDuplicate) return null
+
+            const entry: INotification = {
+                ...notification,
+                id: `${now.toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+                createdAt: new Date(now).toISOString(),
+                read: false
+            }
+            this.notifications = [entry, ...this.notifications].slice(0, MAX_NOTIFICATIONS)
+            this.persist()
+            return entry
+        },
+        handleRequestProgress(requestProgress: IRequestProgress): INotification | null {
+            const type =
+                requestProgress.status === TRANSLATION_STATUS.COMPLETED
+                    ? NOTIFICATION_TYPE.COMPLETED
+                    : requestProgress.status === TRANSLATION_STATUS.FAILED
+                      ? NOTIFICATION_TYPE.FAILED
+                      : null
+            if (!type) return null
+
+            lastFinishedRequestId = requestProgress.id
+            return this.add({
+                key: `${type}:${requestProgress.id}`,
+                type,
+                title: requestProgress.title ?? '',
+                requestId: requestProgress.id,
+                mediaId: requestProgress.mediaId ?? null,
+                mediaType: requestProgress.mediaType ?? null,
+                sourceLanguage: requestProgress.sourceLanguage ?? null,
+                targetLanguage: requestProgress.targetLanguage ?? null
+            })
+        },
+        handleRequestActive(request: { count: number }): INotification | null {
+            const wasActive = !!lastActiveCount
+            lastActiveCount = request.count
+            if (!wasActive || request.count > 0) return null
+
+            return this.add({
+                key: `${NOTIFICATION_TYPE.QUEUE_FINISHED}:${lastFinishedRequestId ?? Date.now()}`,
+                type: NOTIFICATION_TYPE.QUEUE_FINISHED,
+                title: ''
+            })
+        },
+        handleIntegrityProgress(stats: IBulkIntegrityProgress): INotification | null {
+            if (!stats.isComplete) return null
+
+            return this.add({
+                key: NOTIFICATION_TYPE.INTEGRITY,
+                type: NOTIFICATION_TYPE.INTEGRITY,
+                title: '',
+                counts: {
+                    valid: stats.validCount,
+                    corrupt: stats.corruptCount,
+                    errors: stats.errorCount
+                }
+            })
+        },
+        markRead(ids: string[]) {
+            this.notifications = this.notifications.map((notification) =>
+                ids.includes(notification.id) ? { ...notification, read: true } : notification
+            )
+            this.persist()
+        },
+        markAllRead() {
+            this.markRead(this.notifications.map((notification) => notification.id))
+        },
+        clear() {
+            this.notifications = []
+            this.persist()
+        },
+        setDesktopPreference(type: NotificationType, enabled: boolean) {
+            this.desktop = { ...this.desktop, [type]: enabled }
+            localStorage.setItem('notification_desktop', this.desktop)
+        },
+        persist() {
+            localStorage.setItem('notifications', this.notifications)
+        },
+        // Picks up notifications added or read in another tab
+        syncFromStorage(event: StorageEvent) {
+            if (event.key === localStorage.getKey('notifications')) {
+                this.notifications = localStorage.getItem<INotification[]>('notifications') ?? []
+            } else if (event.key === localStorage.getKey('notification_desktop')) {
+                this.desktop = {
+                    ...defaultPreferences(),
+                    ...(localStorage.getItem<INotificationPreferences>('notification_desktop') ??
+                        {})
+                }
+            }
+        }
+    }
+})
+
+if (import.meta.hot) {
+    import.meta.hot.accept(acceptHMRUpdate(useNotificationStore, import.meta.hot))
+}
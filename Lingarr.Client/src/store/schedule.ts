@@ -1,21 +1,54 @@
 ﻿import { acceptHMRUpdate, defineStore } from 'pinia'
-import { IUseScheduleStore, IRecurringJob } from '@/ts'
+import { IUseScheduleStore, IRecurringJob, IJobProgress, IJobRun } from '@/ts'
 import services from '@/services'
 
+const FINISHED_STATES = ['Succeeded', 'Failed', 'Cancelled']
+
 export const useScheduleStore = defineStore('schedule', {
     state: (): IUseScheduleStore => ({
-        recurringJobs: []
+        recurringJobs: [],
+        jobRuns: {}
     }),
     getters: {
-        getRecurringJobs: (state: IUseScheduleStore): IRecurringJob[] => state.recurringJobs
+        getRecurringJobs: (state: IUseScheduleStore): IRecurringJob[] => state.recurringJobs,
+        getJobRuns: (state: IUseScheduleStore) => (jobId: string) => state.jobRuns[jobId] ?? []
     },
     actions: {
         async fetchRecurringJobs(): Promise<void> {
             this.recurringJobs = await services.schedule.recurringJobs()
         },
+        async fetchJobRuns(jobId: string): Promise<void> {
+            this.jobRuns[jobId] = await services.schedule.jobRuns<IJobRun[]>(jobId)
+        },
         async startJob(jobName: string): Promise<void> {
             await services.schedule.startJob(jobName)
         },
+        async setJobEnabled(jobId: string, enabled: boolean): Promise<void> {
+            await services.schedule.setEnabled(jobId, enabled)
+            await this.fetchRecurringJobs()
+        },
+        async updateJobSchedule(jobId: string, cron: string): Promise<void> {
+            await services.schedule.updateSchedule(jobId, cron)
+            await this.fetchRecurringJobs()
+        },
+        updateJobProgress(progress: IJobProgress): void {
+            const job = this.recurringJobs.find((job) => job.id === progress.jobId)
+            if (job) {
+                job.progress = progress
+            }
+        },
+        async updateJobState(jobId: string, state: string): Promise<void> {
+            const job = this.recurringJobs.find((job) => job.id === jobId)
+            if (job) {
+                job.currentState = state
+                job.isCurrentlyRunning = state === 'Processing'
+                job.progress = job.isCurrentlyRunning ? job.progress : null
+            }
+            // A finished run shows up in the history, refresh it when it is being viewed
+            if (FINISHED_STATES.includes(state) && jobId in this.jobRuns) {
+                await this.fetchJobRuns(jobId)
+            }
+        },
         async indexShows(): Promise<void> {
             await services.schedule.indexShows()
         },
@@ -5,9 +5,17 @@ import {
     SETTINGS,
     ILanguage,
     SERVICE_TYPE,
-    ICustomAiParams
+    ICustomAiParams,
+    SettingKey,
+    SettingValue
 } from '@/ts'
 import services from '@/services'
+import {
+    getDependentSettings,
+    getSettingDefinition,
+    parseSettingValue,
+    validateSettingValue
+} from '@/utils/settingSchema'
 import { useTranslateStore } from '@/store/translate'
 import { useInstanceStore } from '@/store/instance'
 
@@ -24,7 +32,12 @@ export const useSettingStore = defineStore('setting', {
                 custom_ai_parameters: JSON.parse(state.settings.custom_ai_parameters as string)
             }
         },
-        getSetting: (state: IUseSettingStore) => (key: keyof ISettings) => state.settings[key]
+        getSetting: (state: IUseSettingStore) => (key: keyof ISettings) => state.settings[key],
+        // Value parsed into the type declared in the settings schema
+        getSettingValue:
+            (state: IUseSettingStore) =>
+            <K extends SettingKey>(key: K): SettingValue<K> =>
+                parseSettingValue(key, state.settings[key])
     },
     actions: {
         async updateSetting(
@@ -37,6 +50,16 @@ export const useSettingStore = defineStore('setting', {
                 value = value.replace(/\/+$/, '')
             }
 
+            // Values that do not match the settings schema are kept locally but never saved
+            if (isValid && typeof value === 'string') {
+                isValid =
+                    validateSettingValue(
+                        key as SettingKey,
+                        value,
+                        (other) => this.settings[other]
+                    ) === null
+            }
+
             this.storeSetting(key, value)
             if (isValid) {
                 if (isJson) {
@@ -44,6 +67,9 @@ export const useSettingStore = defineStore('setting', {
                     await this.saveSetting(key, JSON.stringify(value))
                 } else {
                     await this.saveSetting(key, value as string)
+                    if (value === 'false') {
+                        await this.disableDependents(key as SettingKey)
+                    }
                 }
                 // When Anthropic is selected the max_tokens parameter is required
                 if (key === SETTINGS.SERVICE_TYPE && value === SERVICE_TYPE.ANTHROPIC) {
@@ -116,6 +142,18 @@ export const useSettingStore = defineStore('setting', {
         async saveSetting(key: keyof ISettings, value: string) {
             await services.setting.setSetting(key, value)
         },
+        // Switches off the boolean settings that require a setting which was just disabled
+        async disableDependents(key: SettingKey) {
+            for (const dependent of getDependentSettings(key)) {
+                if (
+                    getSettingDefinition(dependent).type === 'boolean' &&
+                    this.settings[dependent] === 'true'
+                ) {
+                    this.storeSetting(dependent, 'false')
+                    await this.saveSetting(dependent, 'false')
+                }
+            }
+        },
 
         async applySettingsOnLoad(): Promise<void> {
             const instanceStore = useInstanceStore()
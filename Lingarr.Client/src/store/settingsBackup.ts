@@ -0,0 +1,114 @@
+import { acceptHMRUpdate, defineStore } from 'pinia'
+import {
+    IPathMapping,
+    ISettings,
+    ISettingsBackup,
+    ISettingsBackupPreview,
+    ISettingsSnapshot,
+    IUseSettingsBackupStore,
+    SETTINGS,
+    SettingKey
+} from '@/ts'
+import { useLocalStorage } from '@/composables/useLocalStorage'
+import { useInstanceStore } from '@/store/instance'
+import { useMappingStore } from '@/store/mapping'
+import { useSettingStore } from '@/store/setting'
+import { createSettingsBackup, diffSettings, mappingsEqual } from '@/utils/settingsBackup'
+import services from '@/services'
+
+const localStorage = useLocalStorage()
+
+const fetchCurrent = async (): Promise<{
+    settings: Partial<Record<SettingKey, string>>
+    mappings: IPathMapping[]
+}> => {
+    const [settings, mappings] = await Promise.all([
+        services.setting.getSettings<Partial<Record<SettingKey, string>>>(Object.values(SETTINGS)),
+        services.mapping.getMappings()
+    ])
+    return { settings, mappings }
+}
+
+export const useSettingsBackupStore = defineStore('settingsBackup', {
+    state: (): IUseSettingsBackupStore => ({
+        snapshot: localStorage.getItem<ISettingsSnapshot>('settings_snapshot')
+    }),
+    getters: {
+        getSnapshot: (state: IUseSettingsBackupStore): ISettingsSnapshot | null => state.snapshot
+    },
+    actions: {
+        async exportBackup(includeSecrets: boolean): Promise<ISettingsBackup> {
+            const instanceStore = useInstanceStore()
+            const { settings, mappings } = await fetchCurrent()
+            return createSettingsBackup(
+                settings,
+                mappings,
+                includeSecrets,
+                instanceStore.getVersion.currentVersion
+            )
+        },
+        async previewBackup(
+            backup: ISettingsBackup,
+            unknownKeys: string[]
+        ): Promise<ISettingsBackupPreview> {
+            const { settings, mappings } = await fetchCurrent()
+            return {
+                backup,
+                unknownKeys,
+                changes: diffSettings(settings, backup.settings),
+                mappingsChanged: !mappingsEqual(mappings, backup.mappings),
+                currentMappings: mappings
+            }
+        },
+        // Keeps the values about to be overwritten so the import can be undone. API keys are left
+        // out as the snapshot lives in localStorage, so they are only imported when asked for
+        async importBackup(preview: ISettingsBackupPreview, applySecrets: boolean): Promise<void> {
+            const changes = preview.changes.filter((change) => applySecrets || !change.isSecret)
+            const previous = Object.fromEntries(
+                changes
+                    .filter((change) => change.current !== null && !change.isSecret)
+                    .map((change) => [change.key, change.current])
+            )
+            this.storeSnapshot({
+                createdAt: new Date().toISOString(),
+                settings: previous,
+                mappings: preview.currentMappings
+            })
+
+            await this.applyValues(
+                Object.fromEntries(changes.map((change) => [change.key, change.incoming])),
+                preview.mappingsChanged ? preview.backup.mappings : null
+            )
+        },
+        async restoreSnapshot(): Promise<void> {
+            if (!this.snapshot) return
+
+            await this.applyValues(this.snapshot.settings, this.snapshot.mappings)
+            this.storeSnapshot(null)
+        },
+        async applyValues(
+            settings: Partial<Record<SettingKey, string>>,
+            mappings: IPathMapping[] | null
+        ): Promise<void> {
+            const settingStore = useSettingStore()
+            const mappingStore = useMappingStore()
+
+            if (Object.keys(settings).length) {
+                await services.setting.setSettings(settings as Partial<ISettings>)
+            }
+            if (mappings) {
+                await services.mapping.setMappings(mappings)
+            }
+
+            await Promise.all([settingStore.applySettingsOnLoad(), mappingStore.fetchMappings()])
+        },
+        storeSnapshot(snapshot: ISettingsSnapshot | null): void {
+            this.snapshot = snapshot
+            localStorage.setItem('settings_snapshot', snapshot)
+        }
+    }
+})
+
+if (import.meta.hot) {
+    import.meta.hot.accept(acceptHMRUpdate(useSettingsBackupStore, import.meta.hot))
+}
@@ -1,6 +1,22 @@
 import { acceptHMRUpdate, defineStore } from 'pinia'
 import services from '@/services'
-import { IFilter, IUseShowStore, IPagedResult, IShow, MediaType } from '@/ts'
+import { useLocalStorage } from '@/composables/useLocalStorage'
+import { defaultMediaFilter, mediaCriteriaChanged } from '@/store/movie'
+import {
+    IMediaFilter,
+    IUseShowStore,
+    IPagedResult,
+    IShow,
+    MEDIA_LAYOUT,
+    MediaLayout,
+    MediaType
+} from '@/ts'
+
+// Titles requested per scroll step of the poster grid
+const GRID_PAGE_SIZE = 60
+const localStorage = useLocalStorage()
+// Identifies the latest grid request, responses for an outdated filter are dropped
+let gridRequest = 0
 
 export const useShowStore = defineStore('show', {
     state: (): IUseShowStore => ({
@@ -10,30 +26,87 @@ export const useShowStore = defineStore('show', {
             pageNumber: 0,
             items: []
         },
-        filter: {
-            searchQuery: '',
-            sortBy: 'Title',
-            isAscending: true,
-            pageNumber: 1
-        }
+        filter: defaultMediaFilter(),
+        layout: localStorage.getItem<MediaLayout>('show_layout') ?? MEDIA_LAYOUT.TABLE,
+        grid: {
+            totalCount: 0,
+            pageSize: 0,
+            pageNumber: 0,
+            items: []
+        },
+        isLoadingGrid: false
     }),
     getters: {
-        getFilter: (state: IUseShowStore): IFilter => state.filter,
+        getFilter: (state: IUseShowStore): IMediaFilter => state.filter,
+        hasActiveFilter: (state: IUseShowStore): boolean =>
+            mediaCriteriaChanged(
+                { ...defaultMediaFilter(), searchQuery: state.filter.searchQuery },
+                state.filter
+            ),
+        getLayout: (state: IUseShowStore): MediaLayout => state.layout,
+        getGrid: (state: IUseShowStore): IPagedResult<IShow> => state.grid,
+        hasMoreGridItems: (state: IUseShowStore): boolean =>
+            state.grid.pageNumber === 0 || state.grid.items.length < state.grid.totalCount,
         get: (state: IUseShowStore): IPagedResult<IShow> => state.shows
     },
     actions: {
-        async setFilter(filterVal: IFilter) {
-            this.filter = filterVal.searchQuery ? { ...filterVal, pageNumber: 1 } : filterVal
+        async setFilter(filterVal: IMediaFilter) {
+            this.filter = mediaCriteriaChanged(this.filter, filterVal)
+                ? { ...filterVal, pageNumber: 1 }
+                : filterVal
+            await this.fetch()
+        },
+        async resetFilter() {
+            await this.setFilter({
+                ...defaultMediaFilter(),
+                searchQuery: this.filter.searchQuery,
+                sortBy: this.filter.sortBy,
+                isAscending: this.filter.isAscending
+            })
+        },
+        async setLayout(layout: MediaLayout) {
+            this.layout = layout
+            localStorage.setItem('show_layout', layout)
             await this.fetch()
         },
         async fetch() {
+            if (this.layout === MEDIA_LAYOUT.GRID) {
+                await this.fetchGrid(true)
+                return
+            }
             this.shows = await services.media.shows(
                 this.filter.pageNumber,
                 this.filter.searchQuery,
                 this.filter.sortBy,
-                this.filter.isAscending
+                this.filter.isAscending,
+                this.filter
             )
         },
+        async fetchGrid(reset = false) {
+            if (reset) {
+                gridRequest++
+                this.grid = { totalCount: 0, pageSize: 0, pageNumber: 0, items: [] }
+            } else if (this.isLoadingGrid || !this.hasMoreGridItems) {
+                return
+            }
+
+            const request = gridRequest
+            this.isLoadingGrid = true
+            try {
+                const page = await services.media.shows<IPagedResult<IShow>>(
+                    this.grid.pageNumber + 1,
+                    this.filter.searchQuery,
+                    this.filter.sortBy,
+                    this.filter.isAscending,
+                    this.filter,
+                    GRID_PAGE_SIZE
+                )
+                if (request !== gridRequest) return
+                this.grid = { ...page, items: [...this.grid.items, ...page.items] }
+            } finally {
+                this.isLoadingGrid = false
+            }
+        },
         async fetchShow(id: number) {
             const show = await services.media.show<IShow>(id)
             if (show) {
@@ -0,0 +1,70 @@
+import { acceptHMRUpdate, defineStore } from 'pinia'
+import {
+    IPagedResult,
+    ITranslationRequest,
+    ITranslationRequestFilter,
+    IUseTranslationHistoryStore,
+    TRANSLATION_STATUS,
+    TranslationStatus
+} from '@/ts'
+import services from '@/services'
+import { defaultRequestFilter } from '@/store/translationRequest'
+
+export const HISTORY_STATUSES: TranslationStatus[] = [
+    TRANSLATION_STATUS.COMPLETED,
+    TRANSLATION_STATUS.CANCELLED,
+    TRANSLATION_STATUS.FAILED
+]
+
+export const useTranslationHistoryStore = defineStore('translationHistory', {
+    state: (): IUseTranslationHistoryStore => ({
+        history: {
+            totalCount: 0,
+            pageSize: 0,
+            pageNumber: 0,
+            items: []
+        },
+        filter: {
+            ...defaultRequestFilter(),
+            sortBy: 'CompletedAt',
+            statuses: [...HISTORY_STATUSES]
+        }
+    }),
+    getters: {
+        getHistory: (state: IUseTranslationHistoryStore): IPagedResult<ITranslationRequest> =>
+            state.history,
+        getFilter: (state: IUseTranslationHistoryStore): ITranslationRequestFilter => state.filter
+    },
+    actions: {
+        async setFilter(filterVal: ITranslationRequestFilter) {
+            const criteriaChanged =
+                filterVal.searchQuery !== this.filter.searchQuery ||
+                filterVal.statuses.join() !== this.filter.statuses.join()
+            this.filter = criteriaChanged ? { ...filterVal, pageNumber: 1 } : filterVal
+            await this.fetch()
+        },
+        async fetch() {
+            // An empty status list means "everything in history", never the pending queue
+            const statuses = this.filter.statuses.length ? this.filter.statuses : HISTORY_STATUSES
+            this.history = await services.translationRequest.requests<
+                IPagedResult<ITranslationRequest>
+            >(
+                this.filter.pageNumber,
+                this.filter.searchQuery,
+                this.filter.sortBy,
+                this.filter.isAscending,
+                { statuses }
+            )
+        },
+        async fetchRequest(translationRequestId: number) {
+            return await services.translationRequest.get<ITranslationRequest>(translationRequestId)
+        },
+        async requeue(translationRequest: ITranslationRequest) {
+            return await services.translationRequest.requeue<string>(translationRequest)
+        }
+    }
+})
+
+if (import.meta.hot) {
+    import.meta.hot.accept(acceptHMRUpdate(useTranslationHistoryStore, import.meta.hot))
+}
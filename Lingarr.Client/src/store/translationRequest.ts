@@ -1,14 +1,58 @@
 ﻿import { acceptHMRUpdate, defineStore } from 'pinia'
 import {
-    IFilter,
+    BulkTranslationAction,
+    IBulkTranslationActionResponse,
     IPagedResult,
     IRequestProgress,
     ITranslationRequest,
+    ITranslationRequestFilter,
     ITranslationRequestLog,
-    IUseTranslationRequestStore
+    ITranslationQueuePause,
+    ITranslationThroughput,
+    IUseTranslationRequestStore,
+    TRANSLATION_LANE,
+    TRANSLATION_STATUS,
+    TranslationLane,
+    TranslationStatus
 } from '@/ts'
 import services from '@/services'
 
+export const defaultRequestFilter = (): ITranslationRequestFilter => ({
+    searchQuery: '',
+    sortBy: 'Queue',
+    isAscending: true,
+    pageNumber: 1,
+    statuses: [],
+    sourceLanguage: '',
+    targetLanguage: '',
+    mediaType: '',
+    isPriority: null,
+    createdFrom: '',
+    createdTo: '',
+    completedFrom: '',
+    completedTo: ''
+})
+
+const criteriaKeys: (keyof ITranslationRequestFilter)[] = [
+    'searchQuery',
+    'statuses',
+    'sourceLanguage',
+    'targetLanguage',
+    'mediaType',
+    'isPriority',
+    'createdFrom',
+    'createdTo',
+    'completedFrom',
+    'completedTo'
+]
+
+// Everything except paging and sorting narrows the result set, so a change resets to page one
+const criteriaChanged = (current: ITranslationRequestFilter, next: ITranslationRequestFilter) =>
+    criteriaKeys.some((key) => JSON.stringify(current[key]) !== JSON.stringify(next[key]))
+
+// Lists are refetched on every queue change, only the most recent response may replace the items
+let latestFetch = 0
+
 export const useTranslationRequestStore = defineStore('translateRequest', {
     state: (): IUseTranslationRequestStore => ({
         activeTranslationRequests: 0,
@@ -20,14 +64,12 @@ export const useTranslationRequestStore = defineStore('translateRequest', {
         },
         failedRequests: [] as ITranslationRequest[],
         inProgressRequests: [] as ITranslationRequest[],
-        filter: {
-            searchQuery: '',
-            sortBy: 'CreatedAt',
-            isAscending: true,
-            pageNumber: 1
-        },
+        throughput: null,
+        queuePause: null,
+        filter: defaultRequestFilter(),
         selectedRequests: [] as ITranslationRequest[],
-        selectAll: false
+        selectAll: false,
+        bulkResult: null
     }),
     getters: {
         getActiveTranslationRequests: (state: IUseTranslationRequestStore): number =>
@@ -35,28 +77,52 @@ export const useTranslationRequestStore = defineStore('translateRequest', {
         getTranslationRequests(): IPagedResult<ITranslationRequest> {
             return this.translationRequests
         },
-        getFilter: (state: IUseTranslationRequestStore): IFilter => state.filter,
+        getFilter: (state: IUseTranslationRequestStore): ITranslationRequestFilter => state.filter,
+        getFilteredStatuses: (state: IUseTranslationRequestStore): TranslationStatus[] =>
+            state.filter.statuses.length ? state.filter.statuses : [TRANSLATION_STATUS.PENDING],
+        hasActiveFilter: (state: IUseTranslationRequestStore): boolean =>
+            criteriaChanged(
+                { ...defaultRequestFilter(), searchQuery: state.filter.searchQuery },
+                state.filter
+            ),
         getSelectedRequests: (state: IUseTranslationRequestStore): ITranslationRequest[] =>
             state.selectedRequests,
         getFailedRequests: (state: IUseTranslationRequestStore): ITranslationRequest[] =>
             state.failedRequests,
         getInProgressRequests: (state: IUseTranslationRequestStore): ITranslationRequest[] =>
-            state.inProgressRequests
+            state.inProgressRequests,
+        getQueuePause: (state: IUseTranslationRequestStore): ITranslationQueuePause | null =>
+            state.queuePause
     },
     actions: {
-        async setFilter(filterVal: IFilter) {
-            this.filter = filterVal.searchQuery ? { ...filterVal, pageNumber: 1 } : filterVal
+        async setFilter(filterVal: ITranslationRequestFilter) {
+            this.filter = criteriaChanged(this.filter, filterVal)
+                ? { ...filterVal, pageNumber: 1 }
+                : filterVal
             await this.fetch()
         },
+        async resetFilter() {
+            await this.setFilter({
+                ...defaultRequestFilter(),
+                sortBy: this.filter.sortBy,
+                isAscending: this.filter.isAscending
+            })
+        },
         async fetch() {
-            this.translationRequests = await services.translationRequest.requests<
+            const fetchId = ++latestFetch
+            const translationRequests = await services.translationRequest.requests<
                 IPagedResult<ITranslationRequest>
             >(
                 this.filter.pageNumber,
                 this.filter.searchQuery,
                 this.filter.sortBy,
-                this.filter.isAscending
+                this.filter.isAscending,
+                this.filter
             )
+            if (fetchId !== latestFetch) return
+
+            this.translationRequests = translationRequests
+            this.syncSelectAll()
         },
         async fetchFailedRequests() {
             this.failedRequests =
@@ -66,13 +132,59 @@ export const useTranslationRequestStore = defineStore('translateRequest', {
             this.inProgressRequests =
                 await services.translationRequest.getInProgressRequests<ITranslationRequest[]>()
         },
+        async fetchThroughput() {
+            this.throughput = await services.translationRequest.throughput<ITranslationThroughput>()
+        },
+        async fetchQueuePause() {
+            this.queuePause = await services.translationRequest.pauseState<ITranslationQueuePause>()
+        },
+        async setQueuePaused(
+            paused: boolean,
+            serviceType: string | null = null,
+            interruptInProgress = false
+        ) {
+            this.queuePause = await services.translationRequest.pause<ITranslationQueuePause>(
+                paused,
+                serviceType,
+                interruptInProgress
+            )
+        },
+        setQueuePause(queuePause: ITranslationQueuePause) {
+            this.queuePause = queuePause
+        },
         async fetchAllSections() {
             await Promise.all([
                 this.fetch(),
                 this.fetchFailedRequests(),
-                this.fetchInProgressRequests()
+                this.fetchInProgressRequests(),
+                this.fetchThroughput(),
+                this.fetchQueuePause()
             ])
         },
+        async move(
+            translationRequest: ITranslationRequest,
+            target: ITranslationRequest,
+            placeAfter: boolean
+        ) {
+            // Reorder locally first so the row does not jump back while the queue is refetched
+            const items = this.translationRequests.items.filter(
+                (request) => request.id !== translationRequest.id
+            )
+            const index = items.findIndex((request) => request.id === target.id)
+            items.splice(placeAfter ? index + 1 : index, 0, {
+                ...translationRequest,
+                lane: target.lane
+            })
+            this.translationRequests.items = items
+
+            await services.translationRequest.move<string>(
+                translationRequest.id,
+                target.lane ?? TRANSLATION_LANE.NORMAL,
+                target.id,
+                placeAfter
+            )
+            await this.fetch()
+        },
         async setActiveCount(activeTranslationRequests: number) {
             this.activeTranslationRequests = activeTranslationRequests
         },
@@ -146,12 +258,20 @@ export const useTranslationRequestStore = defineStore('translateRequest', {
             )
 
             // Handle status transitions for inProgressRequests
+            let completedRequest = false
             const inProgressIndex = this.inProgressRequests.findIndex(
                 (r) => r.id === requestProgress.id
             )
             if (requestProgress.status === 'InProgress') {
                 // Should be in inProgressRequests
                 if (inProgressIndex === -1) {
+                    // A request that just started has left the pending queue
+                    if (this.throughput) {
+                        this.throughput.pendingRequests = Math.max(
+                            0,
+                            this.throughput.pendingRequests - 1
+                        )
+                    }
                     // Find the full request data from main list or create minimal entry
                     const existingRequest = this.translationRequests.items.find(
                         (r) => r.id === requestProgress.id
@@ -169,6 +289,7 @@ export const useTranslationRequestStore = defineStore('translateRequest', {
             } else if (inProgressIndex !== -1) {
                 // Status changed from InProgress to something else - remove from inProgressRequests
                 this.inProgressRequests.splice(inProgressIndex, 1)
+                completedRequest = requestProgress.status === TRANSLATION_STATUS.COMPLETED
             }
 
             // Handle status transitions for failedRequests
@@ -194,8 +315,12 @@ export const useTranslationRequestStore = defineStore('translateRequest', {
                 this.failedRequests.splice(failedIndex, 1)
             }
 
-            // Remove completed/cancelled items from main queue (they shouldn't show in pending)
-            if (requestProgress.status === 'Completed' || requestProgress.status === 'Cancelled') {
+            // Remove items that no longer match the status filter (completed/cancelled items
+            // shouldn't show in the default pending view)
+            if (
+                requestProgress.status !== TRANSLATION_STATUS.INPROGRESS &&
+                !this.getFilteredStatuses.includes(requestProgress.status)
+            ) {
                 const initialLength = this.translationRequests.items.length
                 this.translationRequests.items = this.translationRequests.items.filter(
                     (r) => r.id !== requestProgress.id
@@ -207,18 +332,36 @@ export const useTranslationRequestStore = defineStore('translateRequest', {
                     )
                 }
             }
+
+            // A finished request adds a sample to the rolling throughput
+            if (completedRequest) {
+                await this.fetchThroughput()
+            }
         },
         clearSelection() {
             this.selectedRequests = []
             this.selectAll = false
         },
+        // Selection is kept across pages, so "select all" only reflects the current page
+        syncSelectAll() {
+            const items = this.translationRequests.items
+            this.selectAll =
+                items.length > 0 &&
+                items.every((item) => this.selectedRequests.some((r) => r.id === item.id))
+        },
         toggleSelectAll() {
-            this.selectAll = !this.selectAll
+            const pageIds = this.translationRequests.items.map((item) => item.id)
             if (this.selectAll) {
-                this.selectedRequests = [...this.translationRequests.items]
+                this.selectedRequests = this.selectedRequests.filter(
+                    (request) => !pageIds.includes(request.id)
+                )
             } else {
-                this.selectedRequests = []
+                const missing = this.translationRequests.items.filter(
+                    (item) => !this.selectedRequests.some((r) => r.id === item.id)
+                )
+                this.selectedRequests = [...this.selectedRequests, ...missing]
             }
+            this.syncSelectAll()
         },
 
         toggleSelect(request: ITranslationRequest) {
@@ -228,12 +371,46 @@ export const useTranslationRequestStore = defineStore('translateRequest', {
             } else {
                 this.selectedRequests.splice(index, 1)
             }
-            this.selectAll = this.selectedRequests.length === this.translationRequests.items.length
+            this.syncSelectAll()
+        },
+        async bulkAction(
+            action: BulkTranslationAction,
+            isPriority = false,
+            lane: TranslationLane = TRANSLATION_LANE.NORMAL
+        ) {
+            const ids = this.selectedRequests.map((request) => request.id)
+            if (!ids.length) return null
+
+            this.bulkResult =
+                await services.translationRequest.bulk<IBulkTranslationActionResponse>(
+                    action,
+                    ids,
+                    isPriority,
+                    lane
+                )
+
+            // Keep failed items selected so they can be acted on again
+            const failedIds = this.bulkResult.results
+                .filter((result) => !result.success)
+                .map((result) => result.id)
+            this.selectedRequests = this.selectedRequests.filter((request) =>
+                failedIds.includes(request.id)
+            )
+            await this.fetchAllSections()
+            return this.bulkResult
+        },
+        clearBulkResult() {
+            this.bulkResult = null
         },
         async handleRequestActive({ count }: { count: number }) {
             this.activeTranslationRequests = count
-            // Refresh lists to ensure UI reflects the new state (e.g. queue movement)
-            await this.fetchAllSections()
+            // Only the request sections move with the queue, throughput is refreshed once a request
+            // completes and the pause state arrives through its own event
+            await Promise.all([
+                this.fetch(),
+                this.fetchInProgressRequests(),
+                this.fetchFailedRequests()
+            ])
         }
     }
 })
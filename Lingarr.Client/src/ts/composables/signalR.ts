@@ -1,47 +1,85 @@
-import { IRequestProgress, ISettings } from '@/ts'
-import type { HubConnection as SignalRHubConnection } from '@microsoft/signalr'
+import { IJobProgress, IRequestProgress, ISettings, ITranslationQueuePause, MediaType } from '@/ts'
+import type { ComputedRef } from 'vue'
 
 export interface SignalRStore {
     state: SignalRState
+    // Combined status of every hub, the least healthy hub wins
+    status: ComputedRef<HubStatus>
     connect: (hubName: string, url: string) => Promise<Hub>
 }
 
+export type HubStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected'
+
 export interface SignalRState {
     hubs: Record<string, HubConnection>
 }
 
 interface HubConnection {
-    connection: SignalRHubConnection
     isConnected: boolean
+    status: HubStatus
     lastError: Error | null
 }
 
+export interface IBulkIntegrityProgress {
+    total: number
+    totalMovies: number
+    totalEpisodes: number
+    processedCount: number
+    validCount: number
+    corruptCount: number
+    queuedCount: number
+    errorCount: number
+    isComplete: boolean
+    error: string | null
+    progressPercent: number
+}
+
+export interface IBulkExtractionProgress {
+    mediaType: MediaType
+    id: number
+    total: number
+    processedCount: number
+    extractedCount: number
+    skippedCount: number
+    queuedCount: number
+    errorCount: number
+    isComplete: boolean
+    isRunning: boolean
+    error: string | null
+    progressPercent: number
+}
+
 export type EventCallbacks = {
     GroupCompleted: (group: string) => void
     SettingUpdate: (setting: { key: keyof ISettings; value: string }) => void
     RequestProgress: (requestProgress: IRequestProgress) => void
     RequestActive: (request: { count: number }) => void
-    JobProgressUpdated: (jobId: string, progress: number) => void
+    QueuePaused: (queuePause: ITranslationQueuePause) => void
+    JobProgressUpdated: (progress: IJobProgress) => void
     JobStateUpdated: (jobId: string, state: string) => void
-    BulkIntegrityProgress: (stats: {
-        total: number
-        totalMovies: number
-        totalEpisodes: number
-        processedCount: number
-        validCount: number
-        corruptCount: number
-        queuedCount: number
-        errorCount: number
-        isComplete: boolean
-        error: string | null
-        progressPercent: number
-    }) => void
+    BulkIntegrityProgress: (stats: IBulkIntegrityProgress) => void
+    BulkExtractionProgress: (stats: IBulkExtractionProgress) => void
 }
 
+// Messages exchanged between tabs, the leader holds the hub connections for all of them
+export type SignalRRelayMessage =
+    | { type: 'connect'; hubName: string; url: string }
+    | { type: 'join'; tabId: string; hubName: string; group: { group: string } }
+    | { type: 'leave'; tabId: string; hubName: string; group: { group: string } }
+    | { type: 'subscribe'; hubName: string; event: string }
+    | { type: 'send'; id: string; hubName: string; method: string; args: unknown[] }
+    | { type: 'sendResult'; id: string; error: string | null }
+    | { type: 'event'; hubName: string; event: string; args: unknown[] }
+    | { type: 'state'; hubName: string; status: HubStatus; error: string | null }
+    | { type: 'reconnected'; hubName: string }
+
 export interface Hub {
     joinGroup: (groupName: { group: string }) => Promise<void>
     leaveGroup: (groupName: { group: string }) => Promise<void>
     send: (event: string, ...args: unknown[]) => Promise<void>
     on<K extends keyof EventCallbacks>(event: K, callback: EventCallbacks[K]): void
     off<K extends keyof EventCallbacks>(event: K, callback: EventCallbacks[K]): void
+    // Called after the hub reconnected and its groups were rejoined, to refetch missed updates
+    onReconnected(callback: () => void): void
+    offReconnected(callback: () => void): void
 }
@@ -3,6 +3,7 @@ export * from './language'
 export * from './services'
 export * from './subtitle'
 export * from './setting'
+export * from './settingSchema'
 export * from './version'
 export * from './media'
 export * from './navigation'
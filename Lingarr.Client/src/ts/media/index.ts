@@ -1,4 +1,4 @@
-﻿import { ISubtitle } from '@/ts'
+﻿import { IFilter, ILanguage, ISubtitle } from '@/ts'
 
 interface IBaseEntity {
     id: number
@@ -17,6 +17,7 @@ export interface IShow extends IBaseEntity {
     translationAgeThreshold: string
     isPriority: boolean
     priorityDate?: Date | null
+    translationState?: TranslationStateType | null
 }
 
 export interface IEmbeddedSubtitle {
@@ -32,6 +33,38 @@ export interface IEmbeddedSubtitle {
     extractedPath: string | null
 }
 
+// Embedded tracks sharing a language, codec and flags across the episodes of a show or season
+export interface IEmbeddedTrackGroup {
+    language: string | null
+    codecName: string
+    isTextBased: boolean
+    isForced: boolean
+    isDefault: boolean
+    episodeCount: number
+    extractedCount: number
+}
+
+export interface IEmbeddedTrackSummary {
+    episodeCount: number
+    unprobedCount: number
+    groups: IEmbeddedTrackGroup[]
+}
+
+// A property left empty matches any value
+export interface IEmbeddedTrackRule {
+    language?: string | null
+    codecName?: string | null
+    isForced?: boolean | null
+    isDefault?: boolean | null
+}
+
+export interface IBulkExtractionRequest {
+    mediaType: MediaType
+    id: number
+    rules: IEmbeddedTrackRule[]
+    translate: boolean
+}
+
 export interface IMovie extends IBaseEntity {
     radarrId: number
     title: string
@@ -40,7 +73,6 @@ export interface IMovie extends IBaseEntity {
     dateAdded?: Date | null
     images: IImage[]
     subtitles?: ISubtitle[]
-    embeddedSubtitles?: IEmbeddedSubtitle[]
     excludeFromTranslation: string
     translationAgeThreshold: string
     isPriority: boolean
@@ -60,9 +92,16 @@ export interface ITranslationRequest {
     mediaId?: number | null
     status: TranslationStatus
     progress: number
+    lineCount?: number | null
+    createdAt?: string
+    startedAt?: string | null
     completedAt?: string | null
+    serviceType?: string | null
+    model?: string | null
     isPriority?: boolean
     isActive?: boolean
+    lane?: TranslationLane
+    queuePosition?: number | null
 }
 
 export interface ITranslationRequestLog {
@@ -73,6 +112,50 @@ export interface ITranslationRequestLog {
     createdAt: string
 }
 
+export const BULK_TRANSLATION_ACTION = {
+    RETRY: 'Retry',
+    CANCEL: 'Cancel',
+    REMOVE: 'Remove',
+    SET_PRIORITY: 'SetPriority',
+    SET_LANE: 'SetLane'
+} as const
+
+export type BulkTranslationAction =
+    (typeof BULK_TRANSLATION_ACTION)[keyof typeof BULK_TRANSLATION_ACTION]
+
+export interface IBulkTranslationActionResult {
+    id: number
+    title?: string | null
+    success: boolean
+    message: string
+}
+
+export interface IBulkTranslationActionResponse {
+    succeeded: number
+    failed: number
+    results: IBulkTranslationActionResult[]
+}
+
+export const BULK_MEDIA_ACTION = {
+    TRANSLATE: 'Translate',
+    EXCLUDE: 'Exclude',
+    INCLUDE: 'Include',
+    SET_PRIORITY: 'SetPriority',
+    SET_THRESHOLD: 'SetThreshold',
+    INTEGRITY_CHECK: 'IntegrityCheck'
+} as const
+
+export type BulkMediaAction = (typeof BULK_MEDIA_ACTION)[keyof typeof BULK_MEDIA_ACTION]
+
+export type IBulkMediaActionResult = IBulkTranslationActionResult
+
+export type IBulkMediaActionResponse = IBulkTranslationActionResponse
+
+export interface IBulkMediaActionOptions {
+    isPriority?: boolean
+    hours?: number
+}
+
 export interface IRequestProgress {
     id: number
     jobId: string
@@ -80,6 +163,36 @@ export interface IRequestProgress {
     progress: number
     completed: boolean
     completedAt?: string | null
+    title?: string
+    mediaId?: number | null
+    mediaType?: MediaType
+    sourceLanguage?: string
+    targetLanguage?: string
+}
+
+export interface IServiceThroughput {
+    serviceType: string
+    linesPerMinute: number
+    averageDurationSeconds: number
+    completedRequests: number
+}
+
+export interface ITranslationThroughput {
+    serviceType: string | null
+    maxParallelTranslations: number
+    pendingRequests: number
+    requestsPerHour: number
+    averageDurationSeconds: number
+    sampleSize: number
+    services: IServiceThroughput[]
+}
+
+export interface ITranslationQueuePause {
+    isPaused: boolean
+    pausedServices: string[]
+    serviceType: string | null
+    isProcessingPaused: boolean
+    interruptedRequests: number
 }
 
 export interface IImage {
@@ -110,10 +223,76 @@ export interface IEpisode extends IBaseEntity {
     seasonId: number
     season: ISeason
     excludeFromTranslation: string
-    embeddedSubtitles?: IEmbeddedSubtitle[]
     translationState?: TranslationStateType
 }
 
+// A single episode with the show it belongs to, threshold and priority are configured on the show
+export interface IEpisodeDetail {
+    id: number
+    sonarrId: number
+    episodeNumber: number
+    title: string
+    fileName: string
+    path: string
+    dateAdded?: string | null
+    subtitles: ISubtitle[]
+    excludeFromTranslation: boolean
+    translationState: TranslationStateType
+    seasonId: number
+    seasonNumber: number
+    seasonExcludeFromTranslation: boolean
+    showId: number
+    showTitle: string
+    images: IImage[]
+    showExcludeFromTranslation: boolean
+    translationAgeThreshold?: number | null
+    isPriority: boolean
+}
+
+export interface ILanguageCoverage {
+    language: string
+    translated: number
+    total: number
+    translationState: TranslationStateType
+}
+
+export interface IEpisodeCoverage {
+    id: number
+    episodeNumber: number
+    title: string
+    excludeFromTranslation: boolean
+    languages: ILanguageCoverage[]
+}
+
+export interface ISeasonCoverage {
+    id: number
+    seasonNumber: number
+    excludeFromTranslation: boolean
+    languages: ILanguageCoverage[]
+    episodes: IEpisodeCoverage[]
+}
+
+export interface IShowCoverage {
+    showId: number
+    languages: string[]
+    seasons: ISeasonCoverage[]
+}
+
+// Translation settings of a movie or show, a null value inherits the global setting
+export interface IMediaOverrides {
+    sourceLanguages: ILanguage[] | null
+    targetLanguages: ILanguage[] | null
+    serviceType: string | null
+    model: string | null
+    aiPrompt: string | null
+}
+
+export interface IMediaOverrideResponse {
+    overrides: IMediaOverrides
+    // The model is the one configured for the effective service
+    inherited: IMediaOverrides
+}
+
 export interface IPagedResult<T> {
     items: T[]
     totalCount: number
@@ -141,6 +320,17 @@ export const TRANSLATION_STATUS = {
 
 export type TranslationStatus = (typeof TRANSLATION_STATUS)[keyof typeof TRANSLATION_STATUS]
 
+// Lanes are drained in this order
+export const TRANSLATION_LANE = {
+    URGENT: 'Urgent',
+    NORMAL: 'Normal',
+    BACKGROUND: 'Background'
+} as const
+
+export type TranslationLane = (typeof TRANSLATION_LANE)[keyof typeof TRANSLATION_LANE]
+
+export type TranslationExportFormat = 'csv' | 'json'
+
 export enum TRANSLATION_ACTIONS {
     CANCEL,
     REMOVE,
@@ -158,3 +348,20 @@ export const TRANSLATION_STATE = {
 } as const
 
 export type TranslationStateType = (typeof TRANSLATION_STATE)[keyof typeof TRANSLATION_STATE]
+
+export const MEDIA_LAYOUT = {
+    TABLE: 'table',
+    GRID: 'grid'
+} as const
+
+export type MediaLayout = (typeof MEDIA_LAYOUT)[keyof typeof MEDIA_LAYOUT]
+
+export type IMediaFilter = IFilter & {
+    translationState: TranslationStateType | null
+    // Target language code without an external subtitle
+    missingLanguage: string
+    isExcluded: boolean | null
+    isPriority: boolean | null
+    addedFrom: string
+    addedTo: string
+}
@@ -1,11 +1,19 @@
 import {
+    BulkMediaAction,
+    BulkTranslationAction,
     DirectoryItem,
+    IBulkExtractionRequest,
     ILanguage,
+    IMediaFilter,
+    IMediaOverrides,
     ISettings,
     ISubtitle,
     ITranslationRequestLog,
     ITranslationRequest,
-    MediaType
+    ITranslationRequestFilter,
+    MediaType,
+    TranslationExportFormat,
+    TranslationLane
 } from '@/ts'
 import { IPathMapping } from '@/ts/index'
 
@@ -29,26 +37,46 @@ export interface IMediaService {
         pageNumber: number,
         searchQuery: string,
         orderBy: string,
-        ascending: boolean
+        ascending: boolean,
+        filter?: Partial<IMediaFilter>,
+        pageSize?: number
     ): Promise<T>
     shows<T>(
         pageNumber: number,
         searchQuery: string,
         orderBy: string,
-        ascending: boolean
+        ascending: boolean,
+        filter?: Partial<IMediaFilter>,
+        pageSize?: number
     ): Promise<T>
     show<T>(id: number): Promise<T>
+    movie<T>(id: number): Promise<T>
+    episode<T>(id: number): Promise<T>
     exclude<T>(mediaType: MediaType, id: number): Promise<T>
     threshold<T>(mediaType: MediaType, id: number, hours: string): Promise<T>
     priority<T>(mediaType: MediaType, id: number): Promise<T>
     integrityCheck<T>(mediaType: MediaType, id: number): Promise<T>
+    ids<T>(mediaType: MediaType, searchQuery: string, filter?: Partial<IMediaFilter>): Promise<T>
+    bulk<T>(
+        action: BulkMediaAction,
+        mediaType: MediaType,
+        ids: number[],
+        isPriority?: boolean,
+        hours?: number
+    ): Promise<T>
+    coverage<T>(showId: number): Promise<T>
+    translateCoverage<T>(mediaType: MediaType, id: number, language: string): Promise<T>
+    overrides<T>(mediaType: MediaType, id: number): Promise<T>
+    updateOverrides<T>(mediaType: MediaType, id: number, overrides: IMediaOverrides): Promise<T>
 }
 
 export interface ISettingService {
     getSetting<T>(key: string): Promise<T>
     getSettings<T>(keys: string[]): Promise<T>
     setSetting(key: string, value: string): Promise<void>
-    setSettings(keys: ISettings): Promise<void>
+    setSettings(keys: Partial<ISettings>): Promise<void>
+    history<T>(pageNumber: number, key?: string): Promise<T>
+    revertChange(id: number): Promise<void>
     getSystemLimits<T>(): Promise<T>
     testRadarrConnection<T>(): Promise<T>
     testSonarrConnection<T>(): Promise<T>
@@ -57,12 +85,25 @@ export interface ISettingService {
 export interface ISubtitleService {
     collect<T>(path: string): Promise<T>
     getEmbeddedSubtitles<T>(mediaType: 'movie' | 'episode', mediaId: number): Promise<T>
+    getEmbeddedSubtitlesBatch<T>(mediaType: 'movie' | 'episode', mediaIds: number[]): Promise<T>
     extractSubtitle(
         mediaType: 'movie' | 'episode',
         mediaId: number,
         streamIndex: number
     ): Promise<{ success: boolean; extractedPath: string | null; error: string | null }>
     probeEmbeddedSubtitles<T>(mediaType: 'movie' | 'episode', mediaId: number): Promise<T>
+    getEmbeddedTracks<T>(mediaType: 'show' | 'season', id: number): Promise<T>
+    extractEmbeddedTracks<T>(request: IBulkExtractionRequest): Promise<T>
+    getExtractionStatus<T>(): Promise<T>
+    reviewRequest<T>(translationRequestId: number): Promise<T>
+    review<T>(
+        sourcePath: string,
+        translatedPath: string,
+        sourceLanguage?: string,
+        targetLanguage?: string
+    ): Promise<T>
+    updateCue<T>(translatedPath: string, position: number, text: string): Promise<T>
+    undoEdit<T>(translatedPath: string): Promise<T>
 }
 
 export interface IVersionService {
@@ -78,6 +119,12 @@ export interface ITranslateService {
         mediaType: MediaType
     ): Promise<T>
     translateMedia<T>(mediaId: number, mediaType: MediaType): Promise<T>
+    retranslateCue<T>(
+        sourcePath: string,
+        sourcePosition: number,
+        sourceLanguage: string,
+        targetLanguage: string
+    ): Promise<T>
     getLanguages<T>(): Promise<T>
     getModels<T>(): Promise<T>
 }
@@ -88,18 +135,45 @@ export interface IChutesService {
 
 export interface ITranslationRequestService {
     getActiveCount<T>(): Promise<T>
+    get<T>(translationRequestId: number): Promise<T>
     getFailedRequests<T>(): Promise<T>
     getInProgressRequests<T>(): Promise<T>
+    throughput<T>(): Promise<T>
+    pauseState<T>(): Promise<T>
+    pause<T>(
+        paused: boolean,
+        serviceType?: string | null,
+        interruptInProgress?: boolean
+    ): Promise<T>
     requests<T>(
         pageNumber: number,
         searchQuery: string,
         sortBy: string,
-        ascending: boolean
+        ascending: boolean,
+        filter?: Partial<ITranslationRequestFilter>
     ): Promise<T>
+    exportUrl(
+        format: TranslationExportFormat,
+        includeLogs: boolean,
+        filter: ITranslationRequestFilter
+    ): string
     cancel<T>(translationRequest: ITranslationRequest): Promise<T>
     remove<T>(translationRequest: ITranslationRequest): Promise<T>
     retry<T>(translationRequest: ITranslationRequest): Promise<T>
+    requeue<T>(translationRequest: ITranslationRequest): Promise<T>
     retryAllFailed<T>(): Promise<T>
+    bulk<T>(
+        action: BulkTranslationAction,
+        ids: number[],
+        isPriority?: boolean,
+        lane?: TranslationLane
+    ): Promise<T>
+    move<T>(
+        id: number,
+        lane: TranslationLane,
+        targetId?: number | null,
+        placeAfter?: boolean
+    ): Promise<T>
     reenqueueQueued<T>(includeInProgress?: boolean): Promise<T>
     cancelAll<T>(includeInProgress?: boolean): Promise<T>
     logs<T extends ITranslationRequestLog[]>(translationRequestId: number): Promise<T>
@@ -108,6 +182,9 @@ export interface ITranslationRequestService {
 export interface IScheduleService {
     startJob<T>(jobName: string): Promise<T>
     recurringJobs<T>(): Promise<T>
+    jobRuns<T>(jobId: string, limit?: number): Promise<T>
+    setEnabled<T>(jobId: string, enabled: boolean): Promise<T>
+    updateSchedule<T>(jobId: string, cron: string): Promise<T>
     remove<T>(jobId: string): Promise<T>
     indexShows<T>(): Promise<T>
     indexMovies<T>(): Promise<T>
@@ -1,5 +1,5 @@
 import { ILanguage } from '@/ts/language'
-import { ILocale, ITheme } from '@/ts/store'
+import { ILocale, IPathMapping, ITheme } from '@/ts/store'
 
 export const SETTINGS = {
     RADARR_API_KEY: 'radarr_api_key',
@@ -157,6 +157,8 @@ export interface ISettings {
     batch_context_after: string
 }
 
+export type SettingKey = (typeof SETTINGS)[keyof typeof SETTINGS]
+
 export interface ICustomAiParams {
     key: string
     value: string
@@ -179,6 +181,31 @@ export const SERVICE_TYPE = {
 
 export type ServiceType = (typeof SERVICE_TYPE)[keyof typeof SERVICE_TYPE]
 
+export const SERVICE_OPTIONS = [
+    { value: SERVICE_TYPE.ANTHROPIC, label: 'Anthropic' },
+    { value: SERVICE_TYPE.BING, label: 'Bing' },
+    { value: SERVICE_TYPE.DEEPL, label: 'DeepL' },
+    { value: SERVICE_TYPE.DEEPSEEK, label: 'DeepSeek' },
+    { value: SERVICE_TYPE.GEMINI, label: 'Gemini' },
+    { value: SERVICE_TYPE.GOOGLE, label: 'Google' },
+    { value: SERVICE_TYPE.LIBRETRANSLATE, label: 'LibreTranslate' },
+    { value: SERVICE_TYPE.LOCALAI, label: 'Local AI (Custom)' },
+    { value: SERVICE_TYPE.MICROSOFT, label: 'Microsoft' },
+    { value: SERVICE_TYPE.OPENAI, label: 'OpenAI' },
+    { value: SERVICE_TYPE.CHUTES, label: 'Chutes.ai' },
+    { value: SERVICE_TYPE.YANDEX, label: 'Yandex' }
+]
+
+// Services that translate with a configurable model and AI prompt
+export const AI_SERVICE_TYPES: string[] = [
+    SERVICE_TYPE.OPENAI,
+    SERVICE_TYPE.ANTHROPIC,
+    SERVICE_TYPE.LOCALAI,
+    SERVICE_TYPE.GEMINI,
+    SERVICE_TYPE.DEEPSEEK,
+    SERVICE_TYPE.CHUTES
+]
+
 export interface IFilterOptions {
     logLevel: string
 }
@@ -192,3 +219,58 @@ export interface ILogEntry {
     category: string
     stackTrace?: string
 }
+
+export const SETTINGS_BACKUP_FORMAT = 'lingarr-settings'
+export const SETTINGS_BACKUP_VERSION = 1
+
+export interface ISettingsBackup {
+    format: typeof SETTINGS_BACKUP_FORMAT
+    version: number
+    appVersion: string
+    exportedAt: string
+    includesSecrets: boolean
+    settings: Partial<Record<SettingKey, string>>
+    mappings: IPathMapping[]
+}
+
+export type SettingsBackupError =
+    | 'invalidFile'
+    | 'invalidFormat'
+    | 'unsupportedVersion'
+    | 'invalidValue'
+    | 'invalidMappings'
+
+export type SettingsBackupParseResult =
+    | { valid: true; backup: ISettingsBackup; unknownKeys: string[] }
+    | { valid: false; error: SettingsBackupError; key?: string }
+
+export interface ISettingChange {
+    key: SettingKey
+    current: string | null
+    incoming: string
+    isSecret: boolean
+}
+
+export interface ISettingsBackupPreview {
+    backup: ISettingsBackup
+    changes: ISettingChange[]
+    unknownKeys: string[]
+    mappingsChanged: boolean
+    currentMappings: IPathMapping[]
+}
+
+export interface ISettingsSnapshot {
+    createdAt: string
+    settings: Partial<Record<SettingKey, string>>
+    mappings: IPathMapping[]
+}
+
+// Values of API keys are redacted by the server and returned as null
+export interface ISettingHistoryEntry {
+    id: number
+    key: string
+    oldValue: string | null
+    newValue: string | null
+    changedAt: string
+    isSecret: boolean
+}
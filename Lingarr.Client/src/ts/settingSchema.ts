@@ -0,0 +1,209 @@
+import { ISettings, SERVICE_TYPE, SETTINGS, SettingKey } from '@/ts/setting'
+import { LOCALE, THEMES } from '@/ts/store/instance'
+
+export type SettingType =
+    | 'boolean'
+    | 'integer'
+    | 'number'
+    | 'string'
+    | 'url'
+    | 'cron'
+    | 'enum'
+    | 'json'
+
+export interface ISettingDefinition {
+    type: SettingType
+    // Raw value used when the server has no value stored
+    default: string
+    min?: number
+    max?: number
+    minLength?: number
+    maxLength?: number
+    options?: readonly string[]
+    // Allows an empty value, for settings that only apply to one service
+    optional?: boolean
+    secret?: boolean
+    // Boolean setting that has to be enabled for this setting to apply
+    requires?: SettingKey
+}
+
+export type SettingValidationCode =
+    | 'required'
+    | 'boolean'
+    | 'integer'
+    | 'number'
+    | 'min'
+    | 'max'
+    | 'minLength'
+    | 'maxLength'
+    | 'url'
+    | 'cron'
+    | 'option'
+    | 'json'
+    | 'requires'
+
+export interface ISettingValidationError {
+    code: SettingValidationCode
+    params?: Record<string, string | number>
+}
+
+const bool = (value: boolean, requires?: SettingKey) =>
+    ({ type: 'boolean', default: String(value), requires }) as const
+const integer = (value: number, min = 0, requires?: SettingKey) =>
+    ({ type: 'integer', default: String(value), min, requires }) as const
+const text = (value = '', requires?: SettingKey) =>
+    ({ type: 'string', default: value, optional: true, requires }) as const
+// Length of a fixed size key, the key can still be cleared
+const secret = (length?: number) =>
+    ({
+        type: 'string',
+        default: '',
+        optional: true,
+        secret: true,
+        minLength: length,
+        maxLength: length
+    }) as const
+const url = () => ({ type: 'url', default: '', optional: true }) as const
+const cron = (value: string) => ({ type: 'cron', default: value }) as const
+const json = (value: string) => ({ type: 'json', default: value }) as const
+
+export const SETTINGS_SCHEMA = {
+    [SETTINGS.RADARR_API_KEY]: secret(32),
+    [SETTINGS.RADARR_URL]: url(),
+    [SETTINGS.SONARR_API_KEY]: secret(32),
+    [SETTINGS.SONARR_URL]: url(),
+    [SETTINGS.SOURCE_LANGUAGES]: json('[]'),
+    [SETTINGS.TARGET_LANGUAGES]: json('[]'),
+    [SETTINGS.SONARR_SETTINGS_COMPLETED]: bool(false),
+    [SETTINGS.RADARR_SETTINGS_COMPLETED]: bool(false),
+    [SETTINGS.SERVICE_TYPE]: {
+        type: 'enum',
+        default: SERVICE_TYPE.LOCALAI,
+        options: Object.values(SERVICE_TYPE)
+    },
+    [SETTINGS.LIBRETRANSLATE_URL]: url(),
+    [SETTINGS.LIBRETRANSLATE_API_KEY]: secret(),
+    [SETTINGS.DEEPL_API_KEY]: secret(),
+    [SETTINGS.SHOW_SCHEDULE]: cron('0 4 * * *'),
+    [SETTINGS.MOVIE_SCHEDULE]: cron('0 4 * * *'),
+    [SETTINGS.MAX_TRANSLATIONS_PER_RUN]: integer(100, 1),
+    [SETTINGS.AUTOMATION_ENABLED]: bool(false),
+    [SETTINGS.TRANSLATION_SCHEDULE]: cron('0 * * * *'),
+    [SETTINGS.OPENAI_MODEL]: text(),
+    [SETTINGS.OPENAI_API_KEY]: secret(),
+    [SETTINGS.ANTHROPIC_MODEL]: text(),
+    [SETTINGS.ANTHROPIC_API_KEY]: secret(),
+    [SETTINGS.ANTHROPIC_VERSION]: text('2023-06-01'),
+    [SETTINGS.LOCAL_AI_ENDPOINT]: url(),
+    [SETTINGS.LOCAL_AI_MODEL]: text(),
+    [SETTINGS.LOCAL_AI_API_KEY]: secret(),
+    [SETTINGS.GEMINI_MODEL]: text(),
+    [SETTINGS.GEMINI_API_KEY]: secret(),
+    [SETTINGS.DEEPSEEK_MODEL]: text(),
+    [SETTINGS.DEEPSEEK_API_KEY]: secret(),
+    [SETTINGS.CHUTES_MODEL]: text(),
+    [SETTINGS.CHUTES_API_KEY]: secret(),
+    [SETTINGS.CHUTES_USAGE_LIMIT_OVERRIDE]: {
+        type: 'integer',
+        default: '',
+        min: 1,
+        optional: true
+    },
+    [SETTINGS.AI_PROMPT]: text(),
+    [SETTINGS.THEME]: { type: 'enum', default: THEMES.LINGARR, options: Object.values(THEMES) },
+    [SETTINGS.LOCALE]: { type: 'enum', default: LOCALE.ENGLISH, options: Object.values(LOCALE) },
+    [SETTINGS.MOVIE_AGE_THRESHOLD]: integer(0),
+    [SETTINGS.SHOW_AGE_THRESHOLD]: integer(0),
+    [SETTINGS.FIX_OVERLAPPING_SUBTITLES]: bool(false),
+    [SETTINGS.STRIP_SUBTITLE_FORMATTING]: bool(false),
+    [SETTINGS.ADD_TRANSLATOR_INFO]: bool(false),
+    [SETTINGS.CUSTOM_AI_PARAMETERS]: json('[]'),
+    [SETTINGS.SUBTITLE_VALIDATION_ENABLED]: bool(false),
+    [SETTINGS.SUBTITLE_VALIDATION_MAXDURATIONSECS]: integer(
+        10,
+        0,
+        SETTINGS.SUBTITLE_VALIDATION_ENABLED
+    ),
+    [SETTINGS.SUBTITLE_VALIDATION_MINDURATIONMS]: integer(
+        500,
+        0,
+        SETTINGS.SUBTITLE_VALIDATION_ENABLED
+    ),
+    [SETTINGS.SUBTITLE_VALIDATION_MINSUBTITLELENGTH]: integer(
+        2,
+        0,
+        SETTINGS.SUBTITLE_VALIDATION_ENABLED
+    ),
+    [SETTINGS.SUBTITLE_VALIDATION_MAXSUBTITLELENGTH]: integer(
+        500,
+        1,
+        SETTINGS.SUBTITLE_VALIDATION_ENABLED
+    ),
+    [SETTINGS.SUBTITLE_VALIDATION_MAXFILESIZEBYTES]: integer(
+        1048576,
+        1,
+        SETTINGS.SUBTITLE_VALIDATION_ENABLED
+    ),
+    [SETTINGS.SUBTITLE_INTEGRITY_VALIDATION_ENABLED]: bool(false),
+    [SETTINGS.AI_CONTEXT_PROMPT_ENABLED]: bool(false),
+    [SETTINGS.AI_CONTEXT_PROMPT]: text('', SETTINGS.AI_CONTEXT_PROMPT_ENABLED),
+    [SETTINGS.AI_CONTEXT_BEFORE]: integer(2, 0, SETTINGS.AI_CONTEXT_PROMPT_ENABLED),
+    [SETTINGS.AI_CONTEXT_AFTER]: integer(2, 0, SETTINGS.AI_CONTEXT_PROMPT_ENABLED),
+    [SETTINGS.USE_BATCH_TRANSLATION]: bool(true),
+    // 0 sends the whole file as a single batch
+    [SETTINGS.MAX_BATCH_SIZE]: integer(120, 0, SETTINGS.USE_BATCH_TRANSLATION),
+    [SETTINGS.USE_SUBTITLE_TAGGING]: bool(false),
+    [SETTINGS.REMOVE_LANGUAGE_TAG]: bool(false),
+    [SETTINGS.SUBTITLE_TAG]: {
+        type: 'string',
+        default: '[Lingarr]',
+        minLength: 1,
+        requires: SETTINGS.USE_SUBTITLE_TAGGING
+    },
+    [SETTINGS.SUBTITLE_TAG_SHORT]: {
+        type: 'string',
+        default: '-ai-',
+        minLength: 1,
+        requires: SETTINGS.USE_SUBTITLE_TAGGING
+    },
+    [SETTINGS.CLEANUP_ORPHANED_SUBTITLES]: bool(false),
+    [SETTINGS.IGNORE_CAPTIONS]: bool(false),
+    [SETTINGS.MAX_RETRIES]: integer(20),
+    [SETTINGS.RETRY_DELAY]: integer(5),
+    [SETTINGS.RETRY_DELAY_MULTIPLIER]: { type: 'number', default: '2', min: 1 },
+    [SETTINGS.MAX_PARALLEL_TRANSLATIONS]: integer(1, 1),
+    [SETTINGS.CHUTES_REQUEST_BUFFER]: integer(50),
+    [SETTINGS.ENABLE_BATCH_FALLBACK]: bool(true),
+    [SETTINGS.MAX_BATCH_SPLIT_ATTEMPTS]: integer(3, 0, SETTINGS.USE_BATCH_TRANSLATION),
+    [SETTINGS.BATCH_RETRY_MODE]: {
+        type: 'enum',
+        default: 'deferred',
+        options: ['deferred', 'immediate'],
+        requires: SETTINGS.USE_BATCH_TRANSLATION
+    },
+    [SETTINGS.REPAIR_CONTEXT_RADIUS]: integer(10, 0, SETTINGS.USE_BATCH_TRANSLATION),
+    [SETTINGS.REPAIR_MAX_RETRIES]: integer(1, 0, SETTINGS.USE_BATCH_TRANSLATION),
+    [SETTINGS.STRIP_ASS_DRAWING_COMMANDS]: bool(false),
+    [SETTINGS.CLEAN_SOURCE_ASS_DRAWINGS]: bool(false, SETTINGS.STRIP_ASS_DRAWING_COMMANDS),
+    [SETTINGS.BATCH_CONTEXT_ENABLED]: bool(false),
+    [SETTINGS.BATCH_CONTEXT_BEFORE]: integer(3, 0, SETTINGS.BATCH_CONTEXT_ENABLED),
+    [SETTINGS.BATCH_CONTEXT_AFTER]: integer(3, 0, SETTINGS.BATCH_CONTEXT_ENABLED)
+} as const satisfies Record<SettingKey, ISettingDefinition>
+
+type SettingTypeValue<T extends SettingType> = T extends 'boolean'
+    ? boolean
+    : T extends 'integer' | 'number'
+      ? number
+      : string
+
+// Shape of a parsed JSON setting as declared in ISettings
+type JsonSettingValue<K extends SettingKey> = K extends keyof ISettings
+    ? Exclude<ISettings[K], string>
+    : unknown
+
+// Parsed value of a setting, optional numbers are null while unset
+export type SettingValue<K extends SettingKey> =
+    | ((typeof SETTINGS_SCHEMA)[K]['type'] extends 'json'
+          ? JsonSettingValue<K>
+          : SettingTypeValue<(typeof SETTINGS_SCHEMA)[K]['type']>)
+    | ((typeof SETTINGS_SCHEMA)[K] extends { optional: true; type: 'integer' } ? null : never)
@@ -0,0 +1,6 @@
+﻿import { IEmbeddedSubtitle } from '@/ts'
+
+export interface IUseEmbeddedSubtitleStore {
+    movie: Record<number, IEmbeddedSubtitle[]>
+    episode: Record<number, IEmbeddedSubtitle[]>
+}
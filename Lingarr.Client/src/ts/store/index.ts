@@ -6,3 +6,6 @@ export * from './schedule'
 export * from './mapping'
 export * from './translate'
 export * from './translationRequest'
+export * from './translationHistory'
+export * from './notification'
+export * from './embeddedSubtitle'
@@ -1,6 +1,10 @@
-﻿import { IFilter, IMovie, IPagedResult } from '@/ts'
+﻿import { IMediaFilter, IMovie, IPagedResult, MediaLayout } from '@/ts'
 
 export interface IUseMovieStore {
     movies: IPagedResult<IMovie>
-    filter: IFilter
+    filter: IMediaFilter
+    layout: MediaLayout
+    // Pages loaded so far in the poster grid, appended while scrolling
+    grid: IPagedResult<IMovie>
+    isLoadingGrid: boolean
 }
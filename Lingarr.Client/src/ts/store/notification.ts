@@ -0,0 +1,41 @@
+import { MediaType } from '@/ts'
+
+export const NOTIFICATION_TYPE = {
+    COMPLETED: 'completed',
+    FAILED: 'failed',
+    QUEUE_FINISHED: 'queueFinished',
+    INTEGRITY: 'integrity'
+} as const
+
+export type NotificationType = (typeof NOTIFICATION_TYPE)[keyof typeof NOTIFICATION_TYPE]
+
+export interface INotification {
+    id: string
+    // Identifies the event itself, the same event arriving in several tabs shares a key
+    key: string
+    type: NotificationType
+    title: string
+    requestId?: number | null
+    mediaId?: number | null
+    mediaType?: MediaType | null
+    sourceLanguage?: string | null
+    targetLanguage?: string | null
+    counts?: Record<string, number>
+    createdAt: string
+    read: boolean
+}
+
+export interface INotificationGroup {
+    key: string
+    title: string
+    type: NotificationType
+    unread: number
+    notifications: INotification[]
+}
+
+export type INotificationPreferences = Record<NotificationType, boolean>
+
+export interface IUseNotificationStore {
+    notifications: INotification[]
+    desktop: INotificationPreferences
+}
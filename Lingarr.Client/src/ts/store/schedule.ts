@@ -1,5 +1,6 @@
 ﻿export interface IUseScheduleStore {
     recurringJobs: IRecurringJob[]
+    jobRuns: Record<string, IJobRun[]>
 }
 
 export interface IRunningJob {
@@ -23,4 +24,24 @@ export interface IRecurringJob {
     currentState: string
     isCurrentlyRunning: boolean
     currentJobId: string | null
+    isEnabled: boolean
+    progress: IJobProgress | null
+}
+
+export interface IJobProgress {
+    jobId: string
+    progress: number
+    itemsProcessed: number
+    totalItems: number
+}
+
+export interface IJobRun {
+    id: number
+    jobName: string
+    jobId: string | null
+    status: string
+    itemsProcessed: number
+    message: string | null
+    startedAt: Date
+    completedAt: Date | null
 }
@@ -1,5 +1,9 @@
-import { ISettings } from '@/ts'
+import { ISettings, ISettingsSnapshot } from '@/ts'
 
 export interface IUseSettingStore {
     settings: ISettings
 }
+
+export interface IUseSettingsBackupStore {
+    snapshot: ISettingsSnapshot | null
+}
@@ -1,6 +1,10 @@
-﻿import { IFilter, IPagedResult, IShow } from '@/ts'
+﻿import { IMediaFilter, IPagedResult, IShow, MediaLayout } from '@/ts'
 
 export interface IUseShowStore {
     shows: IPagedResult<IShow>
-    filter: IFilter
+    filter: IMediaFilter
+    layout: MediaLayout
+    // Pages loaded so far in the poster grid, appended while scrolling
+    grid: IPagedResult<IShow>
+    isLoadingGrid: boolean
 }
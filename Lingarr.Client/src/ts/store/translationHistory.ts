@@ -0,0 +1,6 @@
+import { IPagedResult, ITranslationRequest, ITranslationRequestFilter } from '@/ts'
+
+export interface IUseTranslationHistoryStore {
+    history: IPagedResult<ITranslationRequest>
+    filter: ITranslationRequestFilter
+}
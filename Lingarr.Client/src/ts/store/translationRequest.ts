@@ -1,11 +1,37 @@
-﻿import { IFilter, IPagedResult, ITranslationRequest } from '@/ts'
+﻿import {
+    IBulkTranslationActionResponse,
+    IFilter,
+    IPagedResult,
+    ITranslationQueuePause,
+    ITranslationRequest,
+    ITranslationThroughput,
+    MediaType,
+    TranslationStatus
+} from '@/ts'
+
+export type ITranslationRequestFilter = IFilter & {
+    statuses: TranslationStatus[]
+    sourceLanguage: string
+    targetLanguage: string
+    mediaType: MediaType | ''
+    isPriority: boolean | null
+    createdFrom: string
+    createdTo: string
+    completedFrom: string
+    completedTo: string
+    // Limits the requests to one movie or episode, used together with mediaType
+    mediaId?: number
+}
 
 export interface IUseTranslationRequestStore {
     activeTranslationRequests: number
     translationRequests: IPagedResult<ITranslationRequest>
     failedRequests: ITranslationRequest[]
     inProgressRequests: ITranslationRequest[]
-    filter: IFilter
+    throughput: ITranslationThroughput | null
+    queuePause: ITranslationQueuePause | null
+    filter: ITranslationRequestFilter
     selectedRequests: ITranslationRequest[]
     selectAll: boolean
+    bulkResult: IBulkTranslationActionResponse | null
 }
@@ -5,3 +5,36 @@
     format: string
     caption: string
 }
+
+export interface ISubtitleReviewCue {
+    sourcePosition: number | null
+    translatedPosition: number | null
+    startTime: number
+    endTime: number
+    sourceText: string | null
+    translatedText: string | null
+    isEmpty: boolean
+    isIdentical: boolean
+    isTooLong: boolean
+}
+
+export interface ISubtitleCueTranslation {
+    translatedText: string
+}
+
+export interface ISubtitleEdit {
+    id: number
+    position: number
+    previousText: string
+    newText: string
+    editedAt: string
+}
+
+export interface ISubtitleReview {
+    sourcePath: string
+    translatedPath: string
+    sourceLanguage: string | null
+    targetLanguage: string | null
+    cues: ISubtitleReviewCue[]
+    edits: ISubtitleEdit[]
+}
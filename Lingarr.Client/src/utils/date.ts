@@ -31,3 +31,41 @@ export const formatDateTime = (dateString: string | Date) => {
     const locale = navigator.language || 'en-US'
     return new Date(dateString).toLocaleDateString(locale, options)
 }
+
+/**
+ * Formats the time between two dates as a compact duration.
+ * @example
+ * formatDuration("2025-01-01T10:00:00Z", "2025-01-01T11:02:05Z") // "1h 2m"
+ */
+export const formatDuration = (start: string | Date, end: string | Date) => {
+    return formatSeconds((new Date(end).getTime() - new Date(start).getTime()) / 1000)
+}
+
+/**
+ * Formats a number of seconds as a compact duration.
+ * @example
+ * formatSeconds(3725) // "1h 2m"
+ */
+export const formatSeconds = (totalSeconds: number) => {
+    const seconds = Math.max(0, Math.round(totalSeconds))
+    const hours = Math.floor(seconds / 3600)
+    const minutes = Math.floor((seconds % 3600) / 60)
+
+    if (hours) return `${hours}h ${minutes}m`
+    if (minutes) return `${minutes}m ${seconds % 60}s`
+    return `${seconds}s`
+}
+
+/**
+ * Formats a subtitle offset in milliseconds as a cue timestamp.
+ * @example
+ * formatTimestamp(3723004) // "01:02:03.004"
+ */
+export const formatTimestamp = (milliseconds: number) => {
+    const hours = Math.floor(milliseconds / 3600000)
+    const minutes = Math.floor((milliseconds % 3600000) / 60000)
+    const seconds = Math.floor((milliseconds % 60000) / 1000)
+    const pad = (value: number, length = 2) => value.toString().padStart(length, '0')
+
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(milliseconds % 1000, 3)}`
+}
@@ -0,0 +1,54 @@
+﻿import { IServiceThroughput, ITranslationRequest, ITranslationThroughput } from '@/ts'
+
+const findService = (
+    throughput: ITranslationThroughput,
+    serviceType?: string | null
+): IServiceThroughput | undefined =>
+    throughput.services.find((service) => service.serviceType === serviceType)
+
+/**
+ * Estimates the seconds left for an in-progress request. Uses the lines per minute of the
+ * service it runs on when the line count is known, otherwise the average request duration.
+ * Returns null when there is no throughput data to estimate from.
+ */
+export const estimateRequestSeconds = (
+    request: ITranslationRequest,
+    throughput: ITranslationThroughput | null
+): number | null => {
+    if (!throughput) return null
+
+    const remaining = 1 - Math.min(100, Math.max(0, request.progress ?? 0)) / 100
+    const service = findService(throughput, request.serviceType ?? throughput.serviceType)
+
+    if (service?.linesPerMinute && request.lineCount) {
+        return ((request.lineCount * remaining) / service.linesPerMinute) * 60
+    }
+
+    const averageDuration = service?.averageDurationSeconds || throughput.averageDurationSeconds
+    return averageDuration ? averageDuration * remaining : null
+}
+
+/**
+ * Estimates the seconds until both the in-progress requests and the pending queue are done.
+ * Pending requests run on the currently configured service and are spread over
+ * max_parallel_translations workers. Returns null when there is no throughput data.
+ */
+export const estimateQueueSeconds = (
+    inProgress: ITranslationRequest[],
+    throughput: ITranslationThroughput | null
+): number | null => {
+    if (!throughput) return null
+
+    const service = findService(throughput, throughput.serviceType)
+    const averageDuration = service?.averageDurationSeconds || throughput.averageDurationSeconds
+    const running = inProgress.map((request) => estimateRequestSeconds(request, throughput) ?? 0)
+    if (!averageDuration && !running.some((seconds) => seconds > 0)) return null
+
+    const workers = Math.max(1, throughput.maxParallelTranslations)
+    const totalWork =
+        running.reduce((sum, seconds) => sum + seconds, 0) +
+        throughput.pendingRequests * averageDuration
+
+    // The queue can never finish before the longest running request does
+    return Math.max(totalWork / workers, ...running)
+}
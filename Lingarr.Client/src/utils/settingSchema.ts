@@ -0,0 +1,131 @@
+import { isValidCron } from 'cron-validator'
+import {
+    ISettingDefinition,
+    ISettingValidationError,
+    SETTINGS_SCHEMA,
+    SettingKey,
+    SettingValue
+} from '@/ts'
+
+const URL_PATTERN = /^(http:\/\/|https:\/\/)[\w-]+(\.[\w-]+)*(:\d+)?(\/.*)?$/
+
+export const getSettingDefinition = (key: SettingKey): ISettingDefinition => SETTINGS_SCHEMA[key]
+
+export const isSecretSetting = (key: string) =>
+    key in SETTINGS_SCHEMA && getSettingDefinition(key as SettingKey).secret === true
+
+/**
+ * Lists the settings that only apply while the given boolean setting is enabled.
+ */
+export const getDependentSettings = (key: SettingKey): SettingKey[] =>
+    (Object.keys(SETTINGS_SCHEMA) as SettingKey[]).filter(
+        (dependent) => getSettingDefinition(dependent).requires === key
+    )
+
+/**
+ * Converts a stored value into the type declared by the schema, unset or unparsable values
+ * fall back to the default.
+ */
+export const parseSettingValue = <K extends SettingKey>(key: K, raw: unknown): SettingValue<K> => {
+    const definition = getSettingDefinition(key)
+    const value = raw === undefined || raw === null ? definition.default : raw
+
+    switch (definition.type) {
+        case 'boolean':
+            return (String(value) === 'true') as SettingValue<K>
+        case 'integer':
+        case 'number': {
+            if (value === '') {
+                return (definition.optional ? null : Number(definition.default)) as SettingValue<K>
+            }
+            const number = Number(value)
+            return (isNaN(number) ? Number(definition.default) : number) as SettingValue<K>
+        }
+        case 'json':
+            if (typeof value !== 'string') return value as SettingValue<K>
+            try {
+                return JSON.parse(value) as SettingValue<K>
+            } catch {
+                return JSON.parse(definition.default) as SettingValue<K>
+            }
+        default:
+            return String(value) as SettingValue<K>
+    }
+}
+
+export const serializeSettingValue = <K extends SettingKey>(
+    key: K,
+    value: SettingValue<K>
+): string => {
+    if (value === null || value === undefined) return ''
+    return getSettingDefinition(key).type === 'json' ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Checks a raw value against the schema of its setting. Dependencies are only checked when a
+ * lookup for the other settings is passed, an enabled boolean setting requires its parent to
+ * be enabled as well.
+ */
+export const validateSettingValue = (
+    key: SettingKey,
+    raw: string,
+    lookup?: (key: SettingKey) => unknown
+): ISettingValidationError | null => {
+    const definition = getSettingDefinition(key)
+
+    if (raw === '') {
+        return definition.optional || (definition.type === 'string' && !definition.minLength)
+            ? null
+            : { code: 'required' }
+    }
+
+    switch (definition.type) {
+        case 'boolean':
+            if (raw !== 'true' && raw !== 'false') return { code: 'boolean' }
+            if (raw === 'true' && definition.requires && lookup) {
+                const parent = lookup(definition.requires)
+                if (parent !== undefined && String(parent) !== 'true') {
+                    return { code: 'requires', params: { key: definition.requires } }
+                }
+            }
+            return null
+        case 'integer':
+        case 'number': {
+            const number = Number(raw.trim())
+            if (raw.trim() === '' || isNaN(number)) return { code: 'number' }
+            if (definition.type === 'integer' && !Number.isInteger(number)) {
+                return { code: 'integer' }
+            }
+            if (definition.min !== undefined && number < definition.min) {
+                return { code: 'min', params: { min: definition.min } }
+            }
+            if (definition.max !== undefined && number > definition.max) {
+                return { code: 'max', params: { max: definition.max } }
+            }
+            return null
+        }
+        case 'url':
+            return URL_PATTERN.test(raw) ? null : { code: 'url' }
+        case 'cron':
+            return isValidCron(raw.trim(), { seconds: false, alias: true, allowBlankDay: true })
+                ? null
+                : { code: 'cron' }
+        case 'enum':
+            return definition.options?.includes(raw) ? null : { code: 'option' }
+        case 'json':
+            try {
+                JSON.parse(raw)
+                return null
+            } catch {
+                return { code: 'json' }
+            }
+        default:
+            if (definition.minLength !== undefined && raw.length < definition.minLength) {
+                return { code: 'minLength', params: { minLength: definition.minLength } }
+            }
+            if (definition.maxLength !== undefined && raw.length > definition.maxLength) {
+                return { code: 'maxLength', params: { maxLength: definition.maxLength } }
+            }
+            return null
+    }
+}
@@ -0,0 +1,132 @@
+import {
+    IPathMapping,
+    ISettingChange,
+    ISettingsBackup,
+    SETTINGS,
+    SETTINGS_BACKUP_FORMAT,
+    SETTINGS_BACKUP_VERSION,
+    SettingKey,
+    SettingsBackupParseResult
+} from '@/ts'
+import { isSecretSetting, validateSettingValue } from '@/utils/settingSchema'
+
+const KNOWN_KEYS = new Set<string>(Object.values(SETTINGS))
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value)
+
+/**
+ * Builds a backup from the raw setting values and path mappings.
+ * API keys are left out unless includeSecrets is set.
+ */
+export const createSettingsBackup = (
+    settings: Partial<Record<SettingKey, string>>,
+    mappings: IPathMapping[],
+    includeSecrets: boolean,
+    appVersion: string
+): ISettingsBackup => ({
+    format: SETTINGS_BACKUP_FORMAT,
+    version: SETTINGS_BACKUP_VERSION,
+    appVersion,
+    exportedAt: new Date().toISOString(),
+    includesSecrets: includeSecrets,
+    settings: Object.fromEntries(
+        Object.entries(settings).filter(
+            ([key, value]) => typeof value === 'string' && (includeSecrets || !isSecretSetting(key))
+        )
+    ),
+    mappings
+})
+
+/**
+ * Parses and validates the content of a backup file against the settings schema. Keys that are
+ * not part of SETTINGS are dropped and reported as unknown, any invalid value rejects the file.
+ */
+export const parseSettingsBackup = (content: string): SettingsBackupParseResult => {
+    let data: unknown
+    try {
+        data = JSON.parse(content)
+    } catch {
+        return { valid: false, error: 'invalidFile' }
+    }
+
+    if (!isObject(data) || data.format !== SETTINGS_BACKUP_FORMAT) {
+        return { valid: false, error: 'invalidFormat' }
+    }
+    if (
+        typeof data.version !== 'number' ||
+        !Number.isInteger(data.version) ||
+        data.version < 1 ||
+        data.version > SETTINGS_BACKUP_VERSION
+    ) {
+        return { valid: false, error: 'unsupportedVersion' }
+    }
+    if (!isObject(data.settings)) {
+        return { valid: false, error: 'invalidFile' }
+    }
+
+    const settings: Partial<Record<SettingKey, string>> = {}
+    const unknownKeys: string[] = []
+    for (const [key, value] of Object.entries(data.settings)) {
+        if (!KNOWN_KEYS.has(key)) {
+            unknownKeys.push(key)
+            continue
+        }
+        if (typeof value !== 'string' || validateSettingValue(key as SettingKey, value) !== null) {
+            return { valid: false, error: 'invalidValue', key }
+        }
+        settings[key as SettingKey] = value
+    }
+
+    const mappings = data.mappings ?? []
+    if (
+        !Array.isArray(mappings) ||
+        !mappings.every(
+            (mapping) =>
+                isObject(mapping) &&
+                typeof mapping.sourcePath === 'string' &&
+                typeof mapping.destinationPath === 'string'
+        )
+    ) {
+        return { valid: false, error: 'invalidMappings' }
+    }
+
+    return {
+        valid: true,
+        backup: {
+            format: SETTINGS_BACKUP_FORMAT,
+            version: data.version,
+            appVersion: typeof data.appVersion === 'string' ? data.appVersion : '',
+            exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+            includesSecrets: data.includesSecrets === true,
+            settings,
+            mappings: mappings as IPathMapping[]
+        },
+        unknownKeys
+    }
+}
+
+/**
+ * Lists the settings of a backup that differ from the current values.
+ */
+export const diffSettings = (
+    current: Partial<Record<SettingKey, string>>,
+    incoming: Partial<Record<SettingKey, string>>
+): ISettingChange[] =>
+    (Object.entries(incoming) as [SettingKey, string][])
+        .filter(([key, value]) => current[key] !== value)
+        .map(([key, value]) => ({
+            key,
+            current: current[key] ?? null,
+            incoming: value,
+            isSecret: isSecretSetting(key)
+        }))
+
+export const mappingsEqual = (left: IPathMapping[], right: IPathMapping[]) =>
+    left.length === right.length &&
+    left.every(
+        (mapping, index) =>
+            mapping.sourcePath === right[index].sourcePath &&
+            mapping.destinationPath === right[index].destinationPath &&
+            mapping.mediaType === right[index].mediaType
+    )
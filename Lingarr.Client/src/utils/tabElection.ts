@@ -0,0 +1,85 @@
+type ElectionMessage =
+    | { type: 'leader'; tabId: string }
+    | { type: 'query' }
+    | { type: 'resign'; tabId: string }
+
+export interface TabElection {
+    tabId: string
+    isLeader: () => boolean
+}
+
+/**
+ * Elects one leader among all open tabs. Leadership is an exclusive Web Lock, the browser hands it
+ * to the next waiting tab once the leader is closed or crashes, so no timers are involved that get
+ * throttled in background tabs. The leader announces itself over a BroadcastChannel.
+ * The callback receives the id of the new leader, or null while there is none.
+ */
+export const createTabElection = (
+    name: string,
+    onLeaderChange: (leaderId: string | null) => void
+): TabElection => {
+    const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`
+    let leaderId: string | null = null
+
+    const setLeader = (id: string | null) => {
+        if (id === leaderId) return
+        leaderId = id
+        onLeaderChange(id)
+    }
+
+    if (typeof BroadcastChannel === 'undefined' || typeof navigator.locks === 'undefined') {
+        // Nothing to coordinate with, this tab always holds its own connections
+        queueMicrotask(() => setLeader(tabId))
+        return { tabId, isLeader: () => true }
+    }
+
+    const channel = new BroadcastChannel(name)
+    const post = (message: ElectionMessage) => channel.postMessage(message)
+    let releaseLock: (() => void) | null = null
+    let pendingRequest: AbortController | null = null
+
+    const requestLeadership = () => {
+        pendingRequest = new AbortController()
+        navigator.locks
+            .request(name, { signal: pendingRequest.signal }, () => {
+                setLeader(tabId)
+                post({ type: 'leader', tabId })
+                // The lock is held until this promise resolves
+                return new Promise<void>((resolve) => {
+                    releaseLock = resolve
+                })
+            })
+            .catch(() => {
+                // The request was aborted as the page was hidden while waiting for the lock
+            })
+        // A tab that is already leading answers with its id
+        post({ type: 'query' })
+    }
+
+    channel.onmessage = ({ data }: MessageEvent<ElectionMessage>) => {
+        if (data.type === 'leader') {
+            setLeader(data.tabId)
+        } else if (data.type === 'query' && leaderId === tabId) {
+            post({ type: 'leader', tabId })
+        } else if (data.type === 'resign' && data.tabId === leaderId) {
+            setLeader(null)
+        }
+    }
+
+    window.addEventListener('pagehide', () => {
+        pendingRequest?.abort()
+        if (leaderId !== tabId) return
+        post({ type: 'resign', tabId })
+        setLeader(null)
+        releaseLock?.()
+        releaseLock = null
+    })
+    // When the page is restored from the back/forward cache it queues up for the lock again
+    window.addEventListener('pageshow', (event) => {
+        if (event.persisted) requestLeadership()
+    })
+
+    requestLeadership()
+
+    return { tabId, isLeader: () => leaderId === tabId }
+}
@@ -16,6 +16,8 @@ public static class SettingKeys
     {
         public const string ServiceType = "service_type";
         public const string MaxParallelTranslations = "max_parallel_translations";
+        public const string QueuePaused = "translation_queue_paused";
+        public const string PausedServiceTypes = "paused_service_types";
 
         public static class OpenAi
         {
@@ -143,6 +145,9 @@ public static class SettingKeys
         public const string ShowSchedule = "show_schedule";
         public const string MovieAgeThreshold = "movie_age_threshold";
         public const string ShowAgeThreshold = "show_age_threshold";
+        public const string CleanupSchedule = "cleanup_schedule";
+        public const string StatisticsSchedule = "statistics_schedule";
+        public const string DisabledJobs = "disabled_jobs";
     }
 
     public static class SubtitleValidation
@@ -167,4 +172,37 @@ public static class SettingKeys
         /// </summary>
         public const string ExtractionMode = "subtitle_extraction_mode";
     }
+
+    /// <summary>
+    /// Settings holding credentials, their values are kept out of the settings history.
+    /// </summary>
+    public static readonly IReadOnlySet<string> Secrets = new HashSet<string>
+    {
+        Integration.RadarrApiKey,
+        Integration.SonarrApiKey,
+        Translation.OpenAi.ApiKey,
+        Translation.Anthropic.ApiKey,
+        Translation.LocalAi.ApiKey,
+        Translation.DeepL.DeeplApiKey,
+        Translation.Gemini.ApiKey,
+        Translation.DeepSeek.ApiKey,
+        Translation.Chutes.ApiKey,
+        Translation.LibreTranslate.ApiKey
+    };
+
+    /// <summary>
+    /// Settings maintained by Lingarr itself rather than changed by the user, these are not recorded in the
+    /// settings history.
+    /// </summary>
+    public static readonly IReadOnlySet<string> Internal = new HashSet<string>
+    {
+        Integration.RadarrSettingsCompleted,
+        Integration.SonarrSettingsCompleted,
+        Translation.QueuePaused,
+        Translation.PausedServiceTypes,
+        Translation.LanguageSettingsVersion,
+        Automation.DisabledJobs,
+        SubtitleValidation.LastIntegrityCheckResult,
+        SubtitleValidation.LastAssVerificationResult
+    };
 }
@@ -20,6 +20,9 @@ public class LingarrDbContext : DbContext
     public DbSet<DailyStatistics> DailyStatistics { get; set; }
     public DbSet<EmbeddedSubtitle> EmbeddedSubtitles { get; set; }
     public DbSet<SubtitleCleanupLog> SubtitleCleanupLogs { get; set; }
+    public DbSet<SubtitleEdit> SubtitleEdits { get; set; }
+    public DbSet<JobRun> JobRuns { get; set; }
+    public DbSet<SettingChange> SettingChanges { get; set; }
 
     public LingarrDbContext(DbContextOptions options) : base(options)
     {
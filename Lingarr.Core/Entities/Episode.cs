@@ -25,6 +25,12 @@ public class Episode : BaseEntity, IMedia
     /// </summary>
     public TranslationState TranslationState { get; set; } = TranslationState.Unknown;
     
+    /// <summary>
+    /// Languages of the external subtitles found when the state was last computed, stored as "|en|nl|".
+    /// Null means the media has not been scanned yet.
+    /// </summary>
+    public string? SubtitleLanguages { get; set; }
+    
     /// <summary>
     /// When embedded subtitles were last indexed via ffprobe.
     /// </summary>
@@ -0,0 +1,39 @@
+using Lingarr.Core.Enum;
+
+namespace Lingarr.Core.Entities;
+
+/// <summary>
+/// Records a single execution of a scheduled job for the run history.
+/// </summary>
+public class JobRun
+{
+    public int Id { get; set; }
+
+    /// <summary>
+    /// Name of the job, matches the recurring job id (e.g. "SyncMovieJob").
+    /// </summary>
+    public required string JobName { get; set; }
+
+    /// <summary>
+    /// Hangfire id of the background job that performed this run.
+    /// </summary>
+    public string? JobId { get; set; }
+
+    /// <summary>
+    /// Processing while running, otherwise the final state of the run.
+    /// </summary>
+    public JobStatus Status { get; set; } = JobStatus.Processing;
+
+    /// <summary>
+    /// Number of items handled by the run, such as synced movies or queued translations.
+    /// </summary>
+    public int ItemsProcessed { get; set; }
+
+    /// <summary>
+    /// Error message when the run failed.
+    /// </summary>
+    public string? Message { get; set; }
+
+    public DateTime StartedAt { get; set; } = DateTime.UtcNow;
+    public DateTime? CompletedAt { get; set; }
+}
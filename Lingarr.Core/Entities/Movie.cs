@@ -3,7 +3,7 @@ using Lingarr.Core.Interfaces;
 
 namespace Lingarr.Core.Entities;
 
-public class Movie : BaseEntity, IMedia
+public class Movie : BaseEntity, IMedia, ITranslationOverrides
 {
     public required int RadarrId { get; set; }
     public required string Title { get; set; }
@@ -17,6 +17,12 @@ public class Movie : BaseEntity, IMedia
     public bool IsPriority { get; set; }
     public DateTime? PriorityDate { get; set; }
     public List<EmbeddedSubtitle> EmbeddedSubtitles { get; set; } = new();
+
+    public string? SourceLanguagesOverride { get; set; }
+    public string? TargetLanguagesOverride { get; set; }
+    public string? ServiceTypeOverride { get; set; }
+    public string? ModelOverride { get; set; }
+    public string? AiPromptOverride { get; set; }
     
     /// <summary>
     /// Current translation state for efficient querying.
@@ -24,6 +30,12 @@ public class Movie : BaseEntity, IMedia
     /// </summary>
     public TranslationState TranslationState { get; set; } = TranslationState.Unknown;
     
+    /// <summary>
+    /// Languages of the external subtitles found when the state was last computed, stored as "|en|nl|".
+    /// Null means the media has not been scanned yet.
+    /// </summary>
+    public string? SubtitleLanguages { get; set; }
+    
     /// <summary>
     /// When embedded subtitles were last indexed via ffprobe.
     /// Null means never indexed - will be indexed during next sync.
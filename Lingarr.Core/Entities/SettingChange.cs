@@ -0,0 +1,23 @@
+namespace Lingarr.Core.Entities;
+
+/// <summary>
+/// Records a single change of a setting value for the settings history.
+/// </summary>
+public class SettingChange
+{
+    public int Id { get; set; }
+
+    /// <summary>
+    /// Key of the changed setting.
+    /// </summary>
+    public required string Key { get; set; }
+
+    /// <summary>
+    /// Value before the change, null when the setting did not exist yet.
+    /// </summary>
+    public string? OldValue { get; set; }
+
+    public required string NewValue { get; set; }
+
+    public DateTime ChangedAt { get; set; } = DateTime.UtcNow;
+}
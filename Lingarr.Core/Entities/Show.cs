@@ -1,6 +1,9 @@
-﻿namespace Lingarr.Core.Entities;
+﻿using System.ComponentModel.DataAnnotations.Schema;
+using Lingarr.Core.Interfaces;
 
-public class Show : BaseEntity
+namespace Lingarr.Core.Entities;
+
+public class Show : BaseEntity, ITranslationOverrides
 {
     public required int SonarrId { get; set; }
     public required string Title { get; set; }
@@ -12,4 +15,16 @@ public class Show : BaseEntity
     public int? TranslationAgeThreshold { get; set; }
     public bool IsPriority { get; set; }
     public DateTime? PriorityDate { get; set; }
+
+    public string? SourceLanguagesOverride { get; set; }
+    public string? TargetLanguagesOverride { get; set; }
+    public string? ServiceTypeOverride { get; set; }
+    public string? ModelOverride { get; set; }
+    public string? AiPromptOverride { get; set; }
+
+    /// <summary>
+    /// Combined translation state of the show's episodes, only filled in for show listings.
+    /// </summary>
+    [NotMapped]
+    public int? TranslationState { get; set; }
 }
\ No newline at end of file
@@ -0,0 +1,34 @@
+namespace Lingarr.Core.Entities;
+
+/// <summary>
+/// Records a manual change to a single cue of a subtitle file so the change can be undone.
+/// </summary>
+public class SubtitleEdit
+{
+    public int Id { get; set; }
+
+    /// <summary>
+    /// Full path of the edited subtitle file.
+    /// </summary>
+    public required string FilePath { get; set; }
+
+    /// <summary>
+    /// Position of the edited cue within the subtitle file.
+    /// </summary>
+    public int Position { get; set; }
+
+    /// <summary>
+    /// Cue text before the edit, lines separated by a newline.
+    /// </summary>
+    public required string PreviousText { get; set; }
+
+    /// <summary>
+    /// Cue text after the edit, lines separated by a newline.
+    /// </summary>
+    public required string NewText { get; set; }
+
+    /// <summary>
+    /// Timestamp when the edit was saved.
+    /// </summary>
+    public DateTime EditedAt { get; set; } = DateTime.UtcNow;
+}
@@ -14,8 +14,21 @@ public class TranslationRequest : BaseEntity
     public required MediaType MediaType { get; set; }
     public required TranslationStatus Status { get; set; }
     public bool? IsActive { get; set; }
+    public DateTime? StartedAt { get; set; }
     public DateTime? CompletedAt { get; set; }
     public int Progress { get; set; }
+
+    /// <summary>
+    /// Number of subtitle lines to translate, recorded when the job loads the subtitle.
+    /// Used to estimate throughput and remaining time.
+    /// </summary>
+    public int? LineCount { get; set; }
+
+    /// <summary>
+    /// Translation service and model the request was processed with, recorded when the job starts.
+    /// </summary>
+    public string? ServiceType { get; set; }
+    public string? Model { get; set; }
     
     /// <summary>
     /// Persisted priority flag for queue ordering.
@@ -23,4 +36,15 @@ public class TranslationRequest : BaseEntity
     /// Updated when Media priority changes via MediaService.TogglePriority().
     /// </summary>
     public bool IsPriority { get; set; }
+
+    /// <summary>
+    /// Lane the request is queued in. Lanes are drained before priority and age are considered.
+    /// </summary>
+    public TranslationLane Lane { get; set; } = TranslationLane.Normal;
+
+    /// <summary>
+    /// Explicit position within the lane, set when the queue is reordered manually.
+    /// Requests without a position follow the ordered ones.
+    /// </summary>
+    public int? QueuePosition { get; set; }
 }
@@ -0,0 +1,12 @@
+﻿namespace Lingarr.Core.Enum;
+
+/// <summary>
+/// Queue lanes of pending translation requests. Lanes are drained in ascending order,
+/// so a background request only starts once no urgent or normal request is waiting.
+/// </summary>
+public enum TranslationLane
+{
+    Urgent = -1,
+    Normal = 0,
+    Background = 1
+}
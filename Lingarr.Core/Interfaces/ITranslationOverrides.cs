@@ -0,0 +1,14 @@
+﻿namespace Lingarr.Core.Interfaces;
+
+/// <summary>
+/// Translation settings that replace the global settings for a movie or show, null inherits the global value.
+/// Languages use the same JSON format as the source_languages and target_languages settings.
+/// </summary>
+public interface ITranslationOverrides
+{
+    string? SourceLanguagesOverride { get; set; }
+    string? TargetLanguagesOverride { get; set; }
+    string? ServiceTypeOverride { get; set; }
+    string? ModelOverride { get; set; }
+    string? AiPromptOverride { get; set; }
+}
\ No newline at end of file
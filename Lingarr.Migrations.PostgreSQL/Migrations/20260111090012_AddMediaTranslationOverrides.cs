@@ -0,0 +1,118 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Lingarr.Migrations.PostgreSQL.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddMediaTranslationOverrides : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "ai_prompt_override",
+                table: "movies",
+                type: "text",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "model_override",
+                table: "movies",
+                type: "text",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "service_type_override",
+                table: "movies",
+                type: "text",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "source_languages_override",
+                table: "movies",
+                type: "text",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "target_languages_override",
+                table: "movies",
+                type: "text",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "ai_prompt_override",
+                table: "shows",
+                type: "text",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "model_override",
+                table: "shows",
+                type: "text",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "service_type_override",
+                table: "shows",
+                type: "text",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "source_languages_override",
+                table: "shows",
+                type: "text",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "target_languages_override",
+                table: "shows",
+                type: "text",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "target_languages_override",
+                table: "shows");
+
+            migrationBuilder.DropColumn(
+                name: "source_languages_override",
+                table: "shows");
+
+            migrationBuilder.DropColumn(
+                name: "service_type_override",
+                table: "shows");
+
+            migrationBuilder.DropColumn(
+                name: "model_override",
+                table: "shows");
+
+            migrationBuilder.DropColumn(
+                name: "ai_prompt_override",
+                table: "shows");
+
+            migrationBuilder.DropColumn(
+                name: "target_languages_override",
+                table: "movies");
+
+            migrationBuilder.DropColumn(
+                name: "source_languages_override",
+                table: "movies");
+
+            migrationBuilder.DropColumn(
+                name: "service_type_override",
+                table: "movies");
+
+            migrationBuilder.DropColumn(
+                name: "model_override",
+                table: "movies");
+
+            migrationBuilder.DropColumn(
+                name: "ai_prompt_override",
+                table: "movies");
+        }
+    }
+}
@@ -180,6 +180,10 @@ namespace Lingarr.Migrations.PostgreSQL.Migrations
                         .HasColumnType("integer")
                         .HasColumnName("state_settings_version");
 
+                    b.Property<string>("SubtitleLanguages")
+                        .HasColumnType("text")
+                        .HasColumnName("subtitle_languages");
+
                     b.Property<string>("Title")
                         .IsRequired()
                         .HasColumnType("text")
@@ -244,6 +248,50 @@ namespace Lingarr.Migrations.PostgreSQL.Migrations
                     b.ToTable("images", (string)null);
                 });
 
+            modelBuilder.Entity("Lingarr.Core.Entities.JobRun", b =>
+                {
+                    b.Property<int>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("integer")
+                        .HasColumnName("id");
+
+                    NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<int>("Id"));
+
+                    b.Property<DateTime?>("CompletedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("completed_at");
+
+                    b.Property<int>("ItemsProcessed")
+                        .HasColumnType("integer")
+                        .HasColumnName("items_processed");
+
+                    b.Property<string>("JobId")
+                        .HasColumnType("text")
+                        .HasColumnName("job_id");
+
+                    b.Property<string>("JobName")
+                        .IsRequired()
+                        .HasColumnType("text")
+                        .HasColumnName("job_name");
+
+                    b.Property<string>("Message")
+                        .HasColumnType("text")
+                        .HasColumnName("message");
+
+                    b.Property<DateTime>("StartedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("started_at");
+
+                    b.Property<int>("Status")
+                        .HasColumnType("integer")
+                        .HasColumnName("status");
+
+                    b.HasKey("Id")
+                        .HasName("pk_job_runs");
+
+                    b.ToTable("job_runs", (string)null);
+                });
+
             modelBuilder.Entity("Lingarr.Core.Entities.Movie", b =>
                 {
                     b.Property<int>("Id")
@@ -253,6 +301,10 @@ namespace Lingarr.Migrations.PostgreSQL.Migrations
 
                     NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<int>("Id"));
 
+                    b.Property<string>("AiPromptOverride")
+                        .HasColumnType("text")
+                        .HasColumnName("ai_prompt_override");
+
                     b.Property<DateTime>("CreatedAt")
                         .HasColumnType("timestamp with time zone")
                         .HasColumnName("created_at");
@@ -281,6 +333,10 @@ namespace Lingarr.Migrations.PostgreSQL.Migrations
                         .HasColumnType("text")
                         .HasColumnName("media_hash");
 
+                    b.Property<string>("ModelOverride")
+                        .HasColumnType("text")
+                        .HasColumnName("model_override");
+
                     b.Property<string>("Path")
                         .HasColumnType("text")
                         .HasColumnName("path");
@@ -293,10 +349,26 @@ namespace Lingarr.Migrations.PostgreSQL.Migrations
                         .HasColumnType("integer")
                         .HasColumnName("radarr_id");
 
+                    b.Property<string>("ServiceTypeOverride")
+                        .HasColumnType("text")
+                        .HasColumnName("service_type_override");
+
+                    b.Property<string>("SourceLanguagesOverride")
+                        .HasColumnType("text")
+                        .HasColumnName("source_languages_override");
+
                     b.Property<int>("StateSettingsVersion")
                         .HasColumnType("integer")
                         .HasColumnName("state_settings_version");
 
+                    b.Property<string>("SubtitleLanguages")
+                        .HasColumnType("text")
+                        .HasColumnName("subtitle_languages");
+
+                    b.Property<string>("TargetLanguagesOverride")
+                        .HasColumnType("text")
+                        .HasColumnName("target_languages_override");
+
                     b.Property<string>("Title")
                         .IsRequired()
                         .HasColumnType("text")
@@ -420,6 +492,39 @@ namespace Lingarr.Migrations.PostgreSQL.Migrations
                     b.ToTable("settings", (string)null);
                 });
 
+            modelBuilder.Entity("Lingarr.Core.Entities.SettingChange", b =>
+                {
+                    b.Property<int>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("integer")
+                        .HasColumnName("id");
+
+                    NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<int>("Id"));
+
+                    b.Property<DateTime>("ChangedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("changed_at");
+
+                    b.Property<string>("Key")
+                        .IsRequired()
+                        .HasColumnType("text")
+                        .HasColumnName("key");
+
+                    b.Property<string>("NewValue")
+                        .IsRequired()
+                        .HasColumnType("text")
+                        .HasColumnName("new_value");
+
+                    b.Property<string>("OldValue")
+                        .HasColumnType("text")
+                        .HasColumnName("old_value");
+
+                    b.HasKey("Id")
+                        .HasName("pk_setting_changes");
+
+                    b.ToTable("setting_changes", (string)null);
+                });
+
             modelBuilder.Entity("Lingarr.Core.Entities.Show", b =>
                 {
                     b.Property<int>("Id")
@@ -429,6 +534,10 @@ namespace Lingarr.Migrations.PostgreSQL.Migrations
 
                     NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<int>("Id"));
 
+                    b.Property<string>("AiPromptOverride")
+                        .HasColumnType("text")
+                        .HasColumnName("ai_prompt_override");
+
                     b.Property<DateTime>("CreatedAt")
                         .HasColumnType("timestamp with time zone")
                         .HasColumnName("created_at");
@@ -445,6 +554,10 @@ namespace Lingarr.Migrations.PostgreSQL.Migrations
                         .HasColumnType("boolean")
                         .HasColumnName("is_priority");
 
+                    b.Property<string>("ModelOverride")
+                        .HasColumnType("text")
+                        .HasColumnName("model_override");
+
                     b.Property<string>("Path")
                         .IsRequired()
                         .HasColumnType("text")
@@ -454,10 +567,22 @@ namespace Lingarr.Migrations.PostgreSQL.Migrations
                         .HasColumnType("timestamp with time zone")
                         .HasColumnName("priority_date");
 
+                    b.Property<string>("ServiceTypeOverride")
+                        .HasColumnType("text")
+                        .HasColumnName("service_type_override");
+
                     b.Property<int>("SonarrId")
                         .HasColumnType("integer")
                         .HasColumnName("sonarr_id");
 
+                    b.Property<string>("SourceLanguagesOverride")
+                        .HasColumnType("text")
+                        .HasColumnName("source_languages_override");
+
+                    b.Property<string>("TargetLanguagesOverride")
+                        .HasColumnType("text")
+                        .HasColumnName("target_languages_override");
+
                     b.Property<string>("Title")
                         .IsRequired()
                         .HasColumnType("text")
@@ -578,6 +703,44 @@ namespace Lingarr.Migrations.PostgreSQL.Migrations
                     b.ToTable("subtitle_cleanup_logs", (string)null);
                 });
 
+            modelBuilder.Entity("Lingarr.Core.Entities.SubtitleEdit", b =>
+                {
+                    b.Property<int>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("integer")
+                        .HasColumnName("id");
+
+                    NpgsqlPropertyBuilderExtensions.UseIdentityByDefaultColumn(b.Property<int>("Id"));
+
+                    b.Property<DateTime>("EditedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("edited_at");
+
+                    b.Property<string>("FilePath")
+                        .IsRequired()
+                        .HasColumnType("text")
+                        .HasColumnName("file_path");
+
+                    b.Property<string>("NewText")
+                        .IsRequired()
+                        .HasColumnType("text")
+                        .HasColumnName("new_text");
+
+                    b.Property<int>("Position")
+                        .HasColumnType("integer")
+                        .HasColumnName("position");
+
+                    b.Property<string>("PreviousText")
+                        .IsRequired()
+                        .HasColumnType("text")
+                        .HasColumnName("previous_text");
+
+                    b.HasKey("Id")
+                        .HasName("pk_subtitle_edits");
+
+                    b.ToTable("subtitle_edits", (string)null);
+                });
+
             modelBuilder.Entity("Lingarr.Core.Entities.TranslationRequest", b =>
                 {
                     b.Property<int>("Id")
@@ -607,6 +770,14 @@ namespace Lingarr.Migrations.PostgreSQL.Migrations
                         .HasColumnType("text")
                         .HasColumnName("job_id");
 
+                    b.Property<int>("Lane")
+                        .HasColumnType("integer")
+                        .HasColumnName("lane");
+
+                    b.Property<int?>("LineCount")
+                        .HasColumnType("integer")
+                        .HasColumnName("line_count");
+
                     b.Property<int?>("MediaId")
                         .HasColumnType("integer")
                         .HasColumnName("media_id");
@@ -615,15 +786,31 @@ namespace Lingarr.Migrations.PostgreSQL.Migrations
                         .HasColumnType("integer")
                         .HasColumnName("media_type");
 
+                    b.Property<string>("Model")
+                        .HasColumnType("text")
+                        .HasColumnName("model");
+
                     b.Property<int>("Progress")
                         .HasColumnType("integer")
                         .HasColumnName("progress");
 
+                    b.Property<int?>("QueuePosition")
+                        .HasColumnType("integer")
+                        .HasColumnName("queue_position");
+
+                    b.Property<string>("ServiceType")
+                        .HasColumnType("text")
+                        .HasColumnName("service_type");
+
                     b.Property<string>("SourceLanguage")
                         .IsRequired()
                         .HasColumnType("text")
                         .HasColumnName("source_language");
 
+                    b.Property<DateTime?>("StartedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("started_at");
+
                     b.Property<int>("Status")
                         .HasColumnType("integer")
                         .HasColumnName("status");
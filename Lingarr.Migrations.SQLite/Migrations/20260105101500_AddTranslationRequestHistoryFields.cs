@@ -0,0 +1,49 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Lingarr.Migrations.SQLite.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddTranslationRequestHistoryFields : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "model",
+                table: "translation_requests",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "service_type",
+                table: "translation_requests",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "started_at",
+                table: "translation_requests",
+                type: "TEXT",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "started_at",
+                table: "translation_requests");
+
+            migrationBuilder.DropColumn(
+                name: "service_type",
+                table: "translation_requests");
+
+            migrationBuilder.DropColumn(
+                name: "model",
+                table: "translation_requests");
+        }
+    }
+}
@@ -0,0 +1,39 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Lingarr.Migrations.SQLite.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddTranslationRequestQueueOrder : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "lane",
+                table: "translation_requests",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<int>(
+                name: "queue_position",
+                table: "translation_requests",
+                type: "INTEGER",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "queue_position",
+                table: "translation_requests");
+
+            migrationBuilder.DropColumn(
+                name: "lane",
+                table: "translation_requests");
+        }
+    }
+}
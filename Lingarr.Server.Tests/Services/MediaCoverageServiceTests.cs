@@ -0,0 +1,162 @@
+using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Threading.Tasks;
+using Lingarr.Core.Configuration;
+using Lingarr.Core.Data;
+using Lingarr.Core.Entities;
+using Lingarr.Core.Enum;
+using Lingarr.Core.Interfaces;
+using Lingarr.Server.Interfaces.Services;
+using Lingarr.Server.Models;
+using Lingarr.Server.Services;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging.Abstractions;
+using Moq;
+using Xunit;
+
+namespace Lingarr.Server.Tests.Services;
+
+public class MediaCoverageServiceTests
+{
+    private readonly Mock<ISettingService> _settingServiceMock = new();
+    private readonly Mock<IMediaSubtitleProcessor> _processorMock = new();
+    private readonly Mock<IMediaOverrideService> _mediaOverrideServiceMock = new();
+
+    public MediaCoverageServiceTests()
+    {
+        _settingServiceMock
+            .Setup(s => s.GetSettingAsJson<TargetLanguage>(SettingKeys.Translation.TargetLanguages))
+            .ReturnsAsync(new List<TargetLanguage>
+            {
+                new() { Code = "nl", Name = "Dutch" },
+                new() { Code = "ro", Name = "Romanian" }
+            });
+    }
+
+    [Fact]
+    public async Task GetShowCoverage_CountsTranslatedEpisodesPerSeasonAndLanguage()
+    {
+        // Arrange
+        await using var context = CreateContext();
+        var show = CreateShow(
+            (TranslationState.Complete, "|en|nl|ro|", false),
+            (TranslationState.Pending, "|en|nl|", false),
+            (TranslationState.Pending, "|en|", true));
+        context.Shows.Add(show);
+        context.TranslationRequests.Add(new TranslationRequest
+        {
+            MediaId = 2,
+            MediaType = MediaType.Episode,
+            Title = "Alpha - S01E02",
+            SourceLanguage = "en",
+            TargetLanguage = "ro",
+            Status = TranslationStatus.InProgress
+        });
+        await context.SaveChangesAsync();
+
+        var service = CreateService(context);
+
+        // Act
+        var coverage = await service.GetShowCoverage(show.Id);
+
+        // Assert
+        Assert.NotNull(coverage);
+        Assert.Equal(new[] { "nl", "ro" }, coverage.Languages);
+
+        var season = Assert.Single(coverage.Seasons);
+        var dutch = season.Languages[0];
+        var romanian = season.Languages[1];
+        Assert.Equal((2, 2, (int)TranslationState.Complete), (dutch.Translated, dutch.Total, dutch.TranslationState));
+        Assert.Equal((1, 2, (int)TranslationState.InProgress), (romanian.Translated, romanian.Total, romanian.TranslationState));
+
+        var excluded = season.Episodes[2];
+        Assert.All(excluded.Languages, l => Assert.Equal((int)TranslationState.NotApplicable, l.TranslationState));
+    }
+
+    [Fact]
+    public async Task TranslateMissing_SkipsTranslatedAndExcludedEpisodes()
+    {
+        // Arrange
+        await using var context = CreateContext();
+        var show = CreateShow(
+            (TranslationState.Complete, "|en|nl|", false),
+            (TranslationState.Pending, "|en|", false),
+            (TranslationState.Pending, null, false),
+            (TranslationState.Pending, "|en|", true));
+        context.Shows.Add(show);
+        await context.SaveChangesAsync();
+
+        _processorMock
+            .Setup(p => p.ProcessMediaForLanguageAsync(It.IsAny<IMedia>(), MediaType.Episode, "nl", true))
+            .ReturnsAsync(1);
+
+        var service = CreateService(context);
+
+        // Act
+        var queued = await service.TranslateMissing(MediaType.Season, show.Seasons[0].Id, "nl");
+        var missing = await service.TranslateMissing(MediaType.Season, 999, "nl");
+
+        // Assert
+        Assert.Equal(2, queued);
+        Assert.Null(missing);
+        _processorMock.Verify(
+            p => p.ProcessMediaForLanguageAsync(
+                It.Is<IMedia>(m => m.Id == 2 || m.Id == 3), MediaType.Episode, "nl", true),
+            Times.Exactly(2));
+    }
+
+    private static LingarrDbContext CreateContext()
+    {
+        var options = new DbContextOptionsBuilder<LingarrDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+        return new LingarrDbContext(options);
+    }
+
+    private MediaCoverageService CreateService(LingarrDbContext context)
+    {
+        return new MediaCoverageService(
+            context,
+            _settingServiceMock.Object,
+            _processorMock.Object,
+            _mediaOverrideServiceMock.Object,
+            NullLogger<MediaCoverageService>.Instance);
+    }
+
+    private static Show CreateShow(params (TranslationState State, string? Languages, bool Excluded)[] episodes)
+    {
+        var show = new Show
+        {
+            Id = 1,
+            Title = "Alpha",
+            SonarrId = 1,
+            Path = "/tmp/Alpha",
+            DateAdded = DateTime.UtcNow
+        };
+        var season = new Season
+        {
+            Id = 1,
+            SeasonNumber = 1,
+            Show = show
+        };
+        show.Seasons.Add(season);
+
+        foreach (var (episode, index) in episodes.Select((episode, index) => (episode, index)))
+        {
+            season.Episodes.Add(new Episode
+            {
+                Id = index + 1,
+                EpisodeNumber = index + 1,
+                Title = $"Ep {index + 1}",
+                SonarrId = index + 1,
+                Season = season,
+                TranslationState = episode.State,
+                SubtitleLanguages = episode.Languages,
+                ExcludeFromTranslation = episode.Excluded
+            });
+        }
+
+        return show;
+    }
+}
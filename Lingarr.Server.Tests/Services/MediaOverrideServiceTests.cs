@@ -0,0 +1,143 @@
+using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Threading.Tasks;
+using Lingarr.Core.Configuration;
+using Lingarr.Core.Data;
+using Lingarr.Core.Entities;
+using Lingarr.Core.Enum;
+using Lingarr.Server.Interfaces.Services;
+using Lingarr.Server.Models;
+using Lingarr.Server.Models.Api;
+using Lingarr.Server.Services;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging.Abstractions;
+using Moq;
+using Xunit;
+
+namespace Lingarr.Server.Tests.Services;
+
+public class MediaOverrideServiceTests
+{
+    private readonly Mock<ISettingService> _settingServiceMock = new();
+
+    public MediaOverrideServiceTests()
+    {
+        _settingServiceMock
+            .Setup(s => s.GetSetting(SettingKeys.Translation.ServiceType))
+            .ReturnsAsync("deepl");
+        _settingServiceMock
+            .Setup(s => s.GetSettingAsJson<TargetLanguage>(SettingKeys.Translation.TargetLanguages))
+            .ReturnsAsync(new List<TargetLanguage> { new() { Code = "nl", Name = "Dutch" } });
+    }
+
+    [Fact]
+    public async Task ApplyOverrides_EpisodeUsesOverridesOfItsShow()
+    {
+        // Arrange
+        await using var context = CreateContext();
+        var show = CreateShow();
+        show.SourceLanguagesOverride = "[{\"name\":\"Japanese\",\"code\":\"ja\"}]";
+        show.ServiceTypeOverride = "openai";
+        show.ModelOverride = "gpt-4o";
+        context.Shows.Add(show);
+        await context.SaveChangesAsync();
+
+        IReadOnlyDictionary<string, string>? applied = null;
+        _settingServiceMock
+            .Setup(s => s.UseOverrides(It.IsAny<IReadOnlyDictionary<string, string>>()))
+            .Callback<IReadOnlyDictionary<string, string>>(overrides => applied = overrides)
+            .Returns(Mock.Of<IDisposable>());
+
+        var service = CreateService(context);
+
+        // Act
+        await service.ApplyOverrides(MediaType.Episode, 1);
+
+        // Assert
+        Assert.NotNull(applied);
+        Assert.Equal(3, applied.Count);
+        Assert.Equal(show.SourceLanguagesOverride, applied[SettingKeys.Translation.SourceLanguages]);
+        Assert.Equal("openai", applied[SettingKeys.Translation.ServiceType]);
+        Assert.Equal("gpt-4o", applied[SettingKeys.Translation.OpenAi.Model]);
+    }
+
+    [Fact]
+    public async Task UpdateOverrides_StoresValuesAndMarksEpisodesStale()
+    {
+        // Arrange
+        await using var context = CreateContext();
+        var show = CreateShow();
+        show.AiPromptOverride = "Keep honorifics";
+        context.Shows.Add(show);
+        await context.SaveChangesAsync();
+
+        var service = CreateService(context);
+
+        // Act
+        var response = await service.UpdateOverrides(MediaType.Show, show.Id, new MediaOverrides
+        {
+            TargetLanguages = [new TargetLanguage { Code = "en", Name = "English" }],
+            ServiceType = "openai",
+            AiPrompt = " "
+        });
+
+        // Assert
+        Assert.NotNull(response);
+        Assert.Equal("en", Assert.Single(response.Overrides.TargetLanguages!).Code);
+        Assert.Equal("openai", response.Overrides.ServiceType);
+        Assert.Null(response.Overrides.AiPrompt);
+        Assert.Equal("deepl", response.Inherited.ServiceType);
+        Assert.Equal("nl", Assert.Single(response.Inherited.TargetLanguages!).Code);
+
+        Assert.Null(show.AiPromptOverride);
+        Assert.All(context.Episodes.ToList(), e => Assert.Equal(TranslationState.Stale, e.TranslationState));
+        await Assert.ThrowsAsync<ArgumentOutOfRangeException>(
+            () => service.UpdateOverrides(MediaType.Season, 1, new MediaOverrides()));
+    }
+
+    private static LingarrDbContext CreateContext()
+    {
+        var options = new DbContextOptionsBuilder<LingarrDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+        return new LingarrDbContext(options);
+    }
+
+    private MediaOverrideService CreateService(LingarrDbContext context)
+    {
+        return new MediaOverrideService(
+            context,
+            _settingServiceMock.Object,
+            NullLogger<MediaOverrideService>.Instance);
+    }
+
+    private static Show CreateShow()
+    {
+        var show = new Show
+        {
+            Id = 1,
+            Title = "Alpha",
+            SonarrId = 1,
+            Path = "/tmp/Alpha",
+            DateAdded = DateTime.UtcNow
+        };
+        var season = new Season
+        {
+            Id = 1,
+            SeasonNumber = 1,
+            Show = show
+        };
+        season.Episodes.Add(new Episode
+        {
+            Id = 1,
+            SonarrId = 1,
+            EpisodeNumber = 1,
+            Title = "Pilot",
+            Season = season,
+            TranslationState = TranslationState.Complete
+        });
+        show.Seasons.Add(season);
+        return show;
+    }
+}
@@ -4,10 +4,13 @@ using System.Threading.Tasks;
 using System.Collections.Generic;
 using Lingarr.Core.Data;
 using Lingarr.Core.Entities;
+using Lingarr.Core.Enum;
 using System.Net.Http;
 using Lingarr.Server.Interfaces.Services.Integration;
 using Lingarr.Server.Interfaces.Services;
 using Lingarr.Server.Interfaces.Services.Sync;
+using Lingarr.Server.Models;
+using Lingarr.Server.Models.Api;
 using Lingarr.Server.Services;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging.Abstractions;
@@ -149,4 +152,222 @@ public class MediaServiceTests
         Assert.Single(result.Seasons);
         Assert.Single(result.Seasons.First().Episodes);
     }
+
+    [Fact]
+    public async Task GetShows_CombinesEpisodeStatesIntoShowState()
+    {
+        // Arrange
+        var options = new DbContextOptionsBuilder<LingarrDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+
+        await using var context = new LingarrDbContext(options);
+
+        context.Shows.AddRange(
+            CreateShow(1, "Alpha", TranslationState.Complete, TranslationState.Pending),
+            CreateShow(2, "Bravo", TranslationState.Complete, TranslationState.NotApplicable),
+            CreateShow(3, "Charlie"));
+        await context.SaveChangesAsync();
+        context.ChangeTracker.Clear();
+
+        var mediaService = new MediaService(context,
+            new Mock<ISubtitleService>().Object,
+            new Mock<ISonarrService>().Object,
+            new Mock<IShowSyncService>().Object,
+            new Mock<IRadarrService>().Object,
+            new Mock<IMovieSyncService>().Object,
+            new Mock<IMediaSubtitleProcessor>().Object,
+            NullLogger<MediaService>.Instance);
+
+        // Act
+        var result = await mediaService.GetShows(null, "Title", true, 1, 20);
+
+        // Assert
+        var shows = result.Items.ToList();
+        Assert.Equal(3, result.TotalCount);
+        Assert.Equal((int)TranslationState.Pending, shows[0].TranslationState);
+        Assert.Equal((int)TranslationState.Complete, shows[1].TranslationState);
+        Assert.Null(shows[2].TranslationState);
+    }
+
+    [Fact]
+    public async Task GetMovies_AppliesStateMissingLanguageAndDateFilters()
+    {
+        // Arrange
+        var options = new DbContextOptionsBuilder<LingarrDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+
+        await using var context = new LingarrDbContext(options);
+
+        context.Movies.AddRange(
+            CreateMovie(1, "Alpha", TranslationState.Pending, "|en|", new DateTime(2025, 3, 1)),
+            CreateMovie(2, "Bravo", TranslationState.Pending, "|en|nl|", new DateTime(2025, 3, 2)),
+            CreateMovie(3, "Charlie", TranslationState.Pending, null, new DateTime(2025, 3, 3)),
+            CreateMovie(4, "Delta", TranslationState.Stale, "|en|", new DateTime(2025, 3, 3)),
+            CreateMovie(5, "Echo", TranslationState.Pending, "|en|", new DateTime(2025, 4, 1)));
+        await context.SaveChangesAsync();
+
+        var mediaService = CreateMediaService(context);
+        var filter = new MediaFilter
+        {
+            TranslationState = TranslationState.Pending,
+            MissingLanguage = "NL",
+            AddedTo = new DateTime(2025, 3, 31)
+        };
+
+        // Act
+        var result = await mediaService.GetMovies(null, "Title", true, 1, 20, filter);
+
+        // Assert
+        Assert.Equal(2, result.TotalCount);
+        Assert.Equal(new[] { "Alpha", "Charlie" }, result.Items.Select(m => m.Title));
+    }
+
+    [Fact]
+    public async Task GetShows_FiltersOnCombinedStateAndMissingLanguage()
+    {
+        // Arrange
+        var options = new DbContextOptionsBuilder<LingarrDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+
+        await using var context = new LingarrDbContext(options);
+
+        context.Shows.AddRange(
+            CreateShow(1, "Alpha", TranslationState.Complete, TranslationState.Pending),
+            CreateShow(2, "Bravo", TranslationState.Complete, TranslationState.NotApplicable),
+            CreateShow(3, "Charlie", TranslationState.Complete));
+        await context.SaveChangesAsync();
+
+        var episode = await context.Episodes.SingleAsync(e => e.Season.ShowId == 3);
+        episode.SubtitleLanguages = "|en|nl|";
+        await context.SaveChangesAsync();
+        context.ChangeTracker.Clear();
+
+        var mediaService = CreateMediaService(context);
+
+        // Act
+        var complete = await mediaService.GetShows(null, "Title", true, 1, 20,
+            new MediaFilter { TranslationState = TranslationState.Complete });
+        var missingDutch = await mediaService.GetShows(null, "Title", true, 1, 20,
+            new MediaFilter { MissingLanguage = "nl" });
+
+        // Assert
+        Assert.Equal(new[] { "Bravo", "Charlie" }, complete.Items.Select(s => s.Title));
+        Assert.Equal(new[] { "Alpha", "Bravo" }, missingDutch.Items.Select(s => s.Title));
+    }
+
+    [Fact]
+    public async Task ApplyBulkAction_UpdatesFoundMediaAndReportsMissingIds()
+    {
+        // Arrange
+        var options = new DbContextOptionsBuilder<LingarrDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+
+        await using var context = new LingarrDbContext(options);
+
+        var prioritised = CreateMovie(2, "Bravo", TranslationState.Pending, null, DateTime.UtcNow);
+        prioritised.IsPriority = true;
+        prioritised.PriorityDate = new DateTime(2025, 1, 1);
+        context.Movies.AddRange(
+            CreateMovie(1, "Alpha", TranslationState.Pending, null, DateTime.UtcNow),
+            prioritised);
+        context.Shows.Add(CreateShow(3, "Charlie", TranslationState.Pending));
+        await context.SaveChangesAsync();
+
+        var mediaService = CreateMediaService(context);
+
+        // Act
+        var priority = await mediaService.ApplyBulkAction(
+            BulkMediaAction.SetPriority, MediaType.Movie, new[] { 1, 2, 99 }, isPriority: true);
+        var seasonThreshold = await mediaService.ApplyBulkAction(
+            BulkMediaAction.SetThreshold, MediaType.Season, new[] { 3 }, hours: 12);
+        var seasonExclude = await mediaService.ApplyBulkAction(
+            BulkMediaAction.Exclude, MediaType.Season, new[] { 3 });
+
+        // Assert
+        Assert.Equal(new[] { 1, 2, 99 }, priority.Select(r => r.Id));
+        Assert.Equal(new[] { true, true, false }, priority.Select(r => r.Success));
+        Assert.Equal("Alpha", priority[0].Title);
+        Assert.Null(priority[2].Title);
+
+        var movies = await context.Movies.OrderBy(m => m.Id).ToListAsync();
+        Assert.All(movies, m => Assert.True(m.IsPriority));
+        Assert.NotNull(movies[0].PriorityDate);
+        Assert.Equal(new DateTime(2025, 1, 1), movies[1].PriorityDate);
+
+        Assert.False(Assert.Single(seasonThreshold).Success);
+        var excluded = Assert.Single(seasonExclude);
+        Assert.True(excluded.Success);
+        Assert.Equal("Charlie - Season 1", excluded.Title);
+        Assert.True((await context.Seasons.SingleAsync()).ExcludeFromTranslation);
+    }
+
+    private static MediaService CreateMediaService(LingarrDbContext context)
+    {
+        return new MediaService(context,
+            new Mock<ISubtitleService>().Object,
+            new Mock<ISonarrService>().Object,
+            new Mock<IShowSyncService>().Object,
+            new Mock<IRadarrService>().Object,
+            new Mock<IMovieSyncService>().Object,
+            new Mock<IMediaSubtitleProcessor>().Object,
+            NullLogger<MediaService>.Instance);
+    }
+
+    private static Movie CreateMovie(
+        int id,
+        string title,
+        TranslationState state,
+        string? subtitleLanguages,
+        DateTime dateAdded)
+    {
+        return new Movie
+        {
+            Id = id,
+            RadarrId = id,
+            Title = title,
+            FileName = $"{title}.mkv",
+            Path = $"/tmp/{title}",
+            DateAdded = dateAdded,
+            TranslationState = state,
+            SubtitleLanguages = subtitleLanguages
+        };
+    }
+
+    private static Show CreateShow(int id, string title, params TranslationState[] episodeStates)
+    {
+        var show = new Show
+        {
+            Id = id,
+            Title = title,
+            SonarrId = id,
+            Path = $"/tmp/{title}",
+            DateAdded = DateTime.UtcNow
+        };
+        var season = new Season
+        {
+            Id = id,
+            SeasonNumber = 1,
+            Show = show
+        };
+        show.Seasons.Add(season);
+
+        for (var i = 0; i < episodeStates.Length; i++)
+        {
+            season.Episodes.Add(new Episode
+            {
+                Id = id * 100 + i,
+                EpisodeNumber = i + 1,
+                Title = $"Ep {i + 1}",
+                SonarrId = id * 100 + i,
+                Season = season,
+                TranslationState = episodeStates[i]
+            });
+        }
+
+        return show;
+    }
 }
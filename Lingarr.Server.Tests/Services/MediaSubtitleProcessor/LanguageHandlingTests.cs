@@ -59,4 +59,48 @@ public class LanguageHandlingTests : MediaSubtitleProcessorTestBase
                 t.SubtitlePath.Contains("test.movie.hi.srt")), It.IsAny<bool>()),
             Times.Once);
     }
+
+    [Fact]
+    public async Task ProcessMediaForLanguageAsync_QueuesOnlyRequestedLanguage()
+    {
+        // Arrange - two target languages are missing, only Dutch is requested
+        var movie = await CreateTestMovie();
+        var subtitles = new List<Subtitles>
+        {
+            new()
+            {
+                Path = "/movies/test/test.movie.en.srt",
+                FileName = "test.movie.en",
+                Language = "en",
+                Caption = "",
+                Format = ".srt"
+            }
+        };
+
+        SubtitleServiceMock
+            .Setup(s => s.GetAllSubtitles(It.IsAny<string>()))
+            .ReturnsAsync(subtitles);
+
+        SetupStandardSettings();
+        SettingServiceMock
+            .Setup(s => s.GetSettingAsJson<TargetLanguage>(SettingKeys.Translation.TargetLanguages))
+            .ReturnsAsync(new List<TargetLanguage>
+            {
+                new() { Code = "ro", Name = "Romanian" },
+                new() { Code = "nl", Name = "Dutch" }
+            });
+
+        // Act
+        var queued = await Processor.ProcessMediaForLanguageAsync(movie, MediaType.Movie, "NL");
+
+        // Assert - Romanian is left for the next scan, so the hash is not stored
+        Assert.Equal(1, queued);
+        TranslationRequestServiceMock.Verify(
+            s => s.CreateRequest(It.Is<TranslateAbleSubtitle>(t => t.TargetLanguage == "nl"), It.IsAny<bool>()),
+            Times.Once);
+        TranslationRequestServiceMock.Verify(
+            s => s.CreateRequest(It.Is<TranslateAbleSubtitle>(t => t.TargetLanguage == "ro"), It.IsAny<bool>()),
+            Times.Never);
+        Assert.Null(movie.MediaHash);
+    }
 }
@@ -25,6 +25,7 @@ public abstract class MediaSubtitleProcessorTestBase : IDisposable
     protected readonly Mock<ISettingService> SettingServiceMock;
     protected readonly Mock<ISubtitleExtractionService> SubtitleExtractionServiceMock;
     protected readonly Mock<ISubtitleIntegrityService> SubtitleIntegrityServiceMock;
+    protected readonly Mock<IMediaOverrideService> MediaOverrideServiceMock;
     protected readonly LingarrDbContext DbContext;
     protected readonly Lingarr.Server.Services.MediaSubtitleProcessor Processor;
 
@@ -36,6 +37,7 @@ public abstract class MediaSubtitleProcessorTestBase : IDisposable
         SettingServiceMock = new Mock<ISettingService>();
         SubtitleExtractionServiceMock = new Mock<ISubtitleExtractionService>();
         SubtitleIntegrityServiceMock = new Mock<ISubtitleIntegrityService>();
+        MediaOverrideServiceMock = new Mock<IMediaOverrideService>();
         
         // Default behavior: integrity validation returns true (valid)
         SubtitleIntegrityServiceMock
@@ -54,6 +56,7 @@ public abstract class MediaSubtitleProcessorTestBase : IDisposable
             SubtitleServiceMock.Object,
             SubtitleExtractionServiceMock.Object,
             SubtitleIntegrityServiceMock.Object,
+            MediaOverrideServiceMock.Object,
             DbContext);
     }
 
@@ -0,0 +1,80 @@
+using System;
+using System.Linq;
+using System.Threading;
+using System.Threading.Tasks;
+using Lingarr.Core.Data;
+using Lingarr.Core.Enum;
+using Lingarr.Server.Hubs;
+using Lingarr.Server.Interfaces.Services;
+using Lingarr.Server.Models;
+using Lingarr.Server.Services;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Logging.Abstractions;
+using Moq;
+using Xunit;
+
+namespace Lingarr.Server.Tests.Services;
+
+public class ScheduleServiceTests
+{
+    [Fact]
+    public async Task UpdateJobState_RecordsRunWithProcessedItemsAndResult()
+    {
+        var clientProxyMock = new Mock<IClientProxy>();
+        var service = CreateService(clientProxyMock);
+
+        await service.UpdateJobState("SyncMovieJob", JobStatus.Processing.ToString());
+        await service.UpdateJobProgress("SyncMovieJob", 40, 80);
+        await service.UpdateJobState("SyncMovieJob", JobStatus.Failed.ToString(), "Radarr is unreachable");
+
+        var run = Assert.Single(await service.GetJobRuns("SyncMovieJob", 10));
+        Assert.Equal(JobStatus.Failed, run.Status);
+        Assert.Equal(40, run.ItemsProcessed);
+        Assert.Equal("Radarr is unreachable", run.Message);
+        Assert.NotNull(run.CompletedAt);
+        clientProxyMock.Verify(c => c.SendCoreAsync(
+            "JobProgressUpdated",
+            It.Is<object[]>(args => args.OfType<JobProgressUpdate>().Single().Progress == 50),
+            It.IsAny<CancellationToken>()), Times.Once);
+    }
+
+    [Fact]
+    public async Task UpdateJobState_CancelsPreviousRunThatNeverCompleted()
+    {
+        var service = CreateService(new Mock<IClientProxy>());
+
+        await service.UpdateJobState("CleanupJob", JobStatus.Processing.ToString());
+        await service.UpdateJobState("CleanupJob", JobStatus.Processing.ToString());
+        await service.UpdateJobState("CleanupJob", JobStatus.Succeeded.ToString());
+
+        var runs = await service.GetJobRuns("CleanupJob", 10);
+        Assert.Equal(2, runs.Count);
+        Assert.Single(runs, run => run.Status == JobStatus.Succeeded);
+        Assert.Single(runs, run => run.Status == JobStatus.Cancelled);
+    }
+
+    private static ScheduleService CreateService(Mock<IClientProxy> clientProxyMock)
+    {
+        clientProxyMock
+            .Setup(c => c.SendCoreAsync(It.IsAny<string>(), It.IsAny<object[]>(), It.IsAny<CancellationToken>()))
+            .Returns(Task.CompletedTask);
+
+        var hubClientsMock = new Mock<IHubClients>();
+        hubClientsMock.Setup(c => c.Group(It.IsAny<string>())).Returns(clientProxyMock.Object);
+
+        var hubContextMock = new Mock<IHubContext<JobProgressHub>>();
+        hubContextMock.SetupGet(h => h.Clients).Returns(hubClientsMock.Object);
+
+        var databaseName = Guid.NewGuid().ToString();
+        var serviceProvider = new ServiceCollection()
+            .AddDbContext<LingarrDbContext>(options => options.UseInMemoryDatabase(databaseName))
+            .BuildServiceProvider();
+
+        return new ScheduleService(
+            hubContextMock.Object,
+            serviceProvider,
+            NullLogger<IScheduleService>.Instance);
+    }
+}
@@ -0,0 +1,90 @@
+using System;
+using System.Linq;
+using System.Threading.Tasks;
+using Lingarr.Core.Data;
+using Lingarr.Core.Entities;
+using Lingarr.Server.Interfaces.Services;
+using Lingarr.Server.Services;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging.Abstractions;
+using Moq;
+using Xunit;
+
+namespace Lingarr.Server.Tests.Services;
+
+public class SettingHistoryServiceTests
+{
+    private readonly Mock<ISettingService> _settingServiceMock = new();
+
+    [Fact]
+    public async Task GetHistory_FiltersByKeyAndRedactsApiKeys()
+    {
+        // Arrange
+        await using var context = CreateContext();
+        var now = DateTime.UtcNow;
+        context.SettingChanges.AddRange(
+            new SettingChange { Key = "openai_api_key", OldValue = "sk-old", NewValue = "sk-new", ChangedAt = now },
+            new SettingChange { Key = "max_retries", OldValue = "20", NewValue = "5", ChangedAt = now.AddMinutes(-2) },
+            new SettingChange { Key = "max_retries", OldValue = "5", NewValue = "10", ChangedAt = now.AddMinutes(-1) });
+        await context.SaveChangesAsync();
+
+        var service = CreateService(context);
+
+        // Act
+        var filtered = await service.GetHistory("max_retries", 1, 10);
+        var secret = Assert.Single((await service.GetHistory("openai_api_key", 1, 10)).Items);
+
+        // Assert
+        Assert.Equal(2, filtered.TotalCount);
+        Assert.Equal(["10", "5"], filtered.Items.Select(change => change.NewValue));
+        Assert.True(secret.IsSecret);
+        Assert.Null(secret.OldValue);
+        Assert.Null(secret.NewValue);
+    }
+
+    [Fact]
+    public async Task RevertChange_RestoresPreviousValue()
+    {
+        // Arrange
+        await using var context = CreateContext();
+        var change = new SettingChange { Key = "max_retries", OldValue = "20", NewValue = "5" };
+        var created = new SettingChange { Key = "subtitle_tag", OldValue = null, NewValue = "[AI]" };
+        var secret = new SettingChange { Key = "openai_api_key", OldValue = "[redacted]", NewValue = "[redacted]" };
+        context.SettingChanges.AddRange(change, created, secret);
+        await context.SaveChangesAsync();
+
+        _settingServiceMock
+            .Setup(s => s.SetSetting("max_retries", "20"))
+            .ReturnsAsync(true);
+
+        var service = CreateService(context);
+
+        // Act
+        var reverted = await service.RevertChange(change.Id);
+        var missing = await service.RevertChange(change.Id + created.Id + secret.Id);
+
+        // Assert
+        Assert.True(reverted);
+        Assert.False(missing);
+        _settingServiceMock.Verify(s => s.SetSetting("max_retries", "20"), Times.Once);
+        await Assert.ThrowsAsync<InvalidOperationException>(() => service.RevertChange(created.Id));
+        await Assert.ThrowsAsync<InvalidOperationException>(() => service.RevertChange(secret.Id));
+        _settingServiceMock.Verify(s => s.SetSetting("openai_api_key", It.IsAny<string>()), Times.Never);
+    }
+
+    private static LingarrDbContext CreateContext()
+    {
+        var options = new DbContextOptionsBuilder<LingarrDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+        return new LingarrDbContext(options);
+    }
+
+    private SettingHistoryService CreateService(LingarrDbContext context)
+    {
+        return new SettingHistoryService(
+            context,
+            _settingServiceMock.Object,
+            NullLogger<SettingHistoryService>.Instance);
+    }
+}
@@ -0,0 +1,183 @@
+using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Threading.Tasks;
+using Lingarr.Core.Data;
+using Lingarr.Core.Entities;
+using Lingarr.Core.Enum;
+using Lingarr.Core.Interfaces;
+using Lingarr.Server.Interfaces.Services;
+using Lingarr.Server.Interfaces.Services.Subtitle;
+using Lingarr.Server.Jobs;
+using Lingarr.Server.Models.Api;
+using Lingarr.Server.Services.Subtitle;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging.Abstractions;
+using Moq;
+using Xunit;
+
+namespace Lingarr.Server.Tests.Services.Subtitle;
+
+public class BulkExtractionServiceTests
+{
+    private readonly Mock<ISubtitleExtractionService> _extractionServiceMock = new();
+    private readonly Mock<IMediaSubtitleProcessor> _processorMock = new();
+
+    [Fact]
+    public async Task GetTrackSummary_GroupsTracksAcrossEpisodes()
+    {
+        // Arrange
+        await using var context = CreateContext();
+        var show = CreateShow(
+            new[] { Track(2, "eng", "subrip"), Track(3, "eng", "subrip", isForced: true) },
+            new[] { Track(2, "ENG", "subrip", isExtracted: true), Track(3, "jpn", "hdmv_pgs_subtitle", isTextBased: false) },
+            Array.Empty<EmbeddedSubtitle>());
+        context.Shows.Add(show);
+        await context.SaveChangesAsync();
+
+        var service = CreateService(context);
+
+        // Act
+        var summary = await service.GetTrackSummary(MediaType.Show, show.Id);
+        var missing = await service.GetTrackSummary(MediaType.Season, 999);
+
+        // Assert
+        Assert.NotNull(summary);
+        Assert.Null(missing);
+        Assert.Equal(3, summary.EpisodeCount);
+        Assert.Equal(1, summary.UnprobedCount);
+        Assert.Equal(3, summary.Groups.Count);
+
+        var english = summary.Groups[0];
+        Assert.Equal(("eng", "subrip", false), (english.Language, english.CodecName, english.IsForced));
+        Assert.Equal((2, 1), (english.EpisodeCount, english.ExtractedCount));
+    }
+
+    [Fact]
+    public async Task ExtractMatching_ExtractsMatchingTracksAndQueuesTranslation()
+    {
+        // Arrange
+        await using var context = CreateContext();
+        var show = CreateShow(
+            new[] { Track(2, "eng", "subrip"), Track(3, "eng", "subrip", isForced: true) },
+            new[] { Track(2, "eng", "subrip", isExtracted: true) },
+            new[] { Track(2, "jpn", "ass") });
+        show.Seasons[0].Episodes[1].ExcludeFromTranslation = true;
+        context.Shows.Add(show);
+        await context.SaveChangesAsync();
+
+        _extractionServiceMock
+            .Setup(s => s.ExtractSubtitle(It.IsAny<string>(), It.IsAny<int>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string?>()))
+            .ReturnsAsync("/tmp/Alpha/Ep 1.eng.srt");
+        _processorMock
+            .Setup(p => p.ProcessMediaForceAsync(It.IsAny<IMedia>(), MediaType.Episode, true, false, false))
+            .ReturnsAsync(2);
+
+        var service = CreateService(context);
+        var request = new BulkExtractionRequest
+        {
+            MediaType = MediaType.Season,
+            Id = show.Seasons[0].Id,
+            Rules = new List<EmbeddedTrackRule> { new() { Language = "ENG", IsForced = false } },
+            Translate = true
+        };
+        var progress = new List<int>();
+
+        // Act
+        var stats = await service.ExtractMatching(request, s =>
+        {
+            progress.Add(s.ProcessedCount);
+            return Task.CompletedTask;
+        });
+
+        // Assert
+        Assert.True(stats.IsComplete);
+        Assert.Equal((3, 1, 1, 2, 0), (stats.ProcessedCount, stats.ExtractedCount, stats.SkippedCount, stats.QueuedCount, stats.ErrorCount));
+        Assert.Equal(new[] { 0, 1, 2, 3, 3 }, progress);
+
+        _extractionServiceMock.Verify(
+            s => s.ExtractSubtitle(It.IsAny<string>(), 2, "/tmp/Alpha", "subrip", "eng"),
+            Times.Once);
+        _processorMock.Verify(
+            p => p.ProcessMediaForceAsync(It.Is<IMedia>(m => m.Id == 1), MediaType.Episode, true, false, false),
+            Times.Once);
+        _processorMock.VerifyNoOtherCalls();
+
+        var extracted = await context.EmbeddedSubtitles.SingleAsync(e => e.EpisodeId == 1 && e.StreamIndex == 2);
+        Assert.True(extracted.IsExtracted);
+        Assert.Equal("/tmp/Alpha/Ep 1.eng.srt", extracted.ExtractedPath);
+    }
+
+    private static LingarrDbContext CreateContext()
+    {
+        var options = new DbContextOptionsBuilder<LingarrDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+        return new LingarrDbContext(options);
+    }
+
+    private BulkExtractionService CreateService(LingarrDbContext context)
+    {
+        return new BulkExtractionService(
+            context,
+            _extractionServiceMock.Object,
+            _processorMock.Object,
+            NullLogger<BulkExtractionService>.Instance);
+    }
+
+    private static EmbeddedSubtitle Track(
+        int streamIndex,
+        string language,
+        string codecName,
+        bool isForced = false,
+        bool isExtracted = false,
+        bool isTextBased = true)
+    {
+        return new EmbeddedSubtitle
+        {
+            StreamIndex = streamIndex,
+            Language = language,
+            CodecName = codecName,
+            IsTextBased = isTextBased,
+            IsForced = isForced,
+            IsExtracted = isExtracted,
+            ExtractedPath = isExtracted ? $"/tmp/Alpha/{streamIndex}.srt" : null
+        };
+    }
+
+    private static Show CreateShow(params EmbeddedSubtitle[][] episodes)
+    {
+        var show = new Show
+        {
+            Id = 1,
+            Title = "Alpha",
+            SonarrId = 1,
+            Path = "/tmp/Alpha",
+            DateAdded = DateTime.UtcNow
+        };
+        var season = new Season
+        {
+            Id = 1,
+            SeasonNumber = 1,
+            Show = show
+        };
+        show.Seasons.Add(season);
+
+        foreach (var (tracks, index) in episodes.Select((tracks, index) => (tracks, index)))
+        {
+            season.Episodes.Add(new Episode
+            {
+                Id = index + 1,
+                EpisodeNumber = index + 1,
+                Title = $"Ep {index + 1}",
+                SonarrId = index + 1,
+                Path = "/tmp/Alpha",
+                FileName = $"Ep {index + 1}.mkv",
+                Season = season,
+                EmbeddedSubtitles = tracks.ToList()
+            });
+        }
+
+        return show;
+    }
+}
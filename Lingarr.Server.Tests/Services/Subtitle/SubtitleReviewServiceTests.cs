@@ -0,0 +1,265 @@
+using System;
+using System.Collections.Generic;
+using System.IO;
+using System.Threading;
+using System.Threading.Tasks;
+using Lingarr.Core.Configuration;
+using Lingarr.Core.Data;
+using Lingarr.Core.Entities;
+using Lingarr.Core.Enum;
+using Lingarr.Server.Interfaces.Services;
+using Lingarr.Server.Interfaces.Services.Translation;
+using Lingarr.Server.Models.FileSystem;
+using Lingarr.Server.Services;
+using Lingarr.Server.Services.Subtitle;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging.Abstractions;
+using Moq;
+using Xunit;
+
+namespace Lingarr.Server.Tests.Services.Subtitle;
+
+public class SubtitleReviewServiceTests
+{
+    [Fact]
+    public void AlignCues_PairsCuesByTimestampAndKeepsUnmatchedCues()
+    {
+        var source = new List<SubtitleItem>
+        {
+            Cue(1, 1000, 2000, "Hello there."),
+            Cue(2, 3000, 4000, "How are you?"),
+            Cue(3, 8000, 9000, "Goodbye.")
+        };
+        var translated = new List<SubtitleItem>
+        {
+            Cue(1, 1100, 2000, "Hallo daar."),
+            Cue(2, 5000, 6000, "Extra regel."),
+            Cue(3, 8000, 9000, "Tot ziens.")
+        };
+
+        var rows = SubtitleReviewService.AlignCues(source, translated);
+
+        Assert.Equal(4, rows.Count);
+        Assert.Equal((1, 1), (rows[0].SourcePosition, rows[0].TranslatedPosition));
+        Assert.Equal(2, rows[1].SourcePosition);
+        Assert.Null(rows[1].TranslatedPosition);
+        Assert.True(rows[1].IsEmpty);
+        Assert.Null(rows[2].SourcePosition);
+        Assert.Equal(2, rows[2].TranslatedPosition);
+        Assert.Equal((3, 3), (rows[3].SourcePosition, rows[3].TranslatedPosition));
+    }
+
+    [Fact]
+    public void AlignCues_FlagsEmptyIdenticalAndTooLongTranslations()
+    {
+        var source = new List<SubtitleItem>
+        {
+            Cue(1, 1000, 2000, "Yes."),
+            Cue(2, 3000, 4000, "Okay"),
+            Cue(3, 5000, 6000, "Run!"),
+            Cue(4, 7000, 8000, "Good morning.")
+        };
+        var translated = new List<SubtitleItem>
+        {
+            Cue(1, 1000, 2000, " "),
+            Cue(2, 3000, 4000, "okay"),
+            Cue(3, 5000, 6000, "Ren zo snel als je kunt, want ze komen eraan!"),
+            Cue(4, 7000, 8000, "Goedemorgen.")
+        };
+
+        var rows = SubtitleReviewService.AlignCues(source, translated);
+
+        Assert.True(rows[0].IsEmpty);
+        Assert.True(rows[1].IsIdentical);
+        Assert.True(rows[2].IsTooLong);
+        Assert.False(rows[3].IsEmpty || rows[3].IsIdentical || rows[3].IsTooLong);
+    }
+
+    [Fact]
+    public async Task UpdateCue_WritesTextAndUndoRestoresPreviousText()
+    {
+        var directory = Directory.CreateDirectory(Path.Combine(Path.GetTempPath(), Guid.NewGuid().ToString()));
+        var path = Path.Combine(directory.FullName, "Movie.nl.srt");
+        await File.WriteAllTextAsync(path,
+            "1\n00:00:01,000 --> 00:00:02,000\nHallo daar.\n\n" +
+            "2\n00:00:03,000 --> 00:00:04,000\nHoe gaat het?\n\n");
+        try
+        {
+            await using var context = BuildContext();
+            context.Movies.Add(CreateMovie(directory.FullName));
+            await context.SaveChangesAsync();
+            var subtitleService = new SubtitleService(NullLogger<SubtitleService>.Instance);
+            var service = CreateService(context);
+
+            var edit = await service.UpdateCue(path, 2, "Hoe is het\nmet jou?");
+
+            Assert.NotNull(edit);
+            Assert.Equal("Hoe gaat het?", edit.PreviousText);
+            var edited = await subtitleService.ReadSubtitles(path);
+            Assert.Equal(new List<string> { "Hoe is het", "met jou?" }, edited[1].Lines);
+            Assert.Equal(new List<string> { "Hallo daar." }, edited[0].Lines);
+
+            var undone = await service.UndoLastEdit(path);
+
+            Assert.NotNull(undone);
+            var restored = await subtitleService.ReadSubtitles(path);
+            Assert.Equal(new List<string> { "Hoe gaat het?" }, restored[1].Lines);
+            Assert.Empty(context.SubtitleEdits);
+            Assert.Null(await service.UndoLastEdit(path));
+        }
+        finally
+        {
+            directory.Delete(true);
+        }
+    }
+
+    [Fact]
+    public async Task UpdateCue_RejectsFilesOutsideMediaDirectories()
+    {
+        var directory = Directory.CreateDirectory(Path.Combine(Path.GetTempPath(), Guid.NewGuid().ToString()));
+        var path = Path.Combine(directory.FullName, "Movie.nl.srt");
+        const string content = "1\n00:00:01,000 --> 00:00:02,000\nHallo daar.\n\n";
+        await File.WriteAllTextAsync(path, content);
+        try
+        {
+            await using var context = BuildContext();
+            var service = CreateService(context);
+
+            Assert.Null(await service.UpdateCue(path, 1, "Overwritten"));
+            Assert.Equal(content, await File.ReadAllTextAsync(path));
+            Assert.Empty(context.SubtitleEdits);
+        }
+        finally
+        {
+            directory.Delete(true);
+        }
+    }
+
+    [Fact]
+    public async Task GetReview_OnlyReadsSubtitlesOfIndexedMedia()
+    {
+        var directory = Directory.CreateDirectory(Path.Combine(Path.GetTempPath(), Guid.NewGuid().ToString()));
+        var source = Path.Combine(directory.FullName, "Movie.en.srt");
+        var translated = Path.Combine(directory.FullName, "Movie.nl.srt");
+        var other = Path.Combine(directory.FullName, "notes.txt");
+        await File.WriteAllTextAsync(source, "1\n00:00:01,000 --> 00:00:02,000\nHello there.\n\n");
+        await File.WriteAllTextAsync(translated, "1\n00:00:01,000 --> 00:00:02,000\nHallo daar.\n\n");
+        await File.WriteAllTextAsync(other, "secret");
+        try
+        {
+            await using var context = BuildContext();
+            var service = CreateService(context);
+
+            Assert.Null(await service.GetReview(source, translated));
+
+            context.Movies.Add(CreateMovie(directory.FullName));
+            await context.SaveChangesAsync();
+
+            Assert.NotNull(await service.GetReview(source, translated));
+            Assert.Null(await service.GetReview(other, translated));
+            Assert.Null(await service.GetReview(Path.Combine(directory.FullName, "..", "Movie.en.srt"), translated));
+        }
+        finally
+        {
+            directory.Delete(true);
+        }
+    }
+
+    [Fact]
+    public async Task RetranslateCue_AppliesTheOverridesOfTheMedia()
+    {
+        var directory = Directory.CreateDirectory(Path.Combine(Path.GetTempPath(), Guid.NewGuid().ToString()));
+        var source = Path.Combine(directory.FullName, "Movie.en.srt");
+        await File.WriteAllTextAsync(source, "1\n00:00:01,000 --> 00:00:02,000\nHello there.\n\n");
+        try
+        {
+            await using var context = BuildContext();
+            var movie = CreateMovie(directory.FullName);
+            context.Movies.Add(movie);
+            await context.SaveChangesAsync();
+
+            var mediaOverrideService = new Mock<IMediaOverrideService>();
+            mediaOverrideService
+                .Setup(s => s.ApplyOverrides(MediaType.Movie, movie.Id))
+                .ReturnsAsync(Mock.Of<IDisposable>());
+            var settingService = new Mock<ISettingService>();
+            settingService
+                .Setup(s => s.GetSettings(It.IsAny<IEnumerable<string>>()))
+                .ReturnsAsync(new Dictionary<string, string>
+                {
+                    { SettingKeys.Translation.ServiceType, "deepl" },
+                    { SettingKeys.Translation.AiContextBefore, "0" },
+                    { SettingKeys.Translation.AiContextAfter, "0" }
+                });
+            var translationService = new Mock<ITranslationService>();
+            translationService
+                .Setup(s => s.TranslateAsync("Hello there.", "en", "nl", null, null, It.IsAny<CancellationToken>()))
+                .ReturnsAsync("Hallo daar.");
+            var translationServiceFactory = new Mock<ITranslationServiceFactory>();
+            translationServiceFactory
+                .Setup(f => f.CreateTranslationService("deepl"))
+                .Returns(translationService.Object);
+            var service = CreateService(
+                context,
+                settingService.Object,
+                mediaOverrideService.Object,
+                translationServiceFactory.Object);
+
+            var translated = await service.RetranslateCue(source, 1, "en", "nl", CancellationToken.None);
+
+            Assert.Equal("Hallo daar.", translated);
+            mediaOverrideService.Verify(s => s.ApplyOverrides(MediaType.Movie, movie.Id), Times.Once);
+        }
+        finally
+        {
+            directory.Delete(true);
+        }
+    }
+
+    private static SubtitleReviewService CreateService(
+        LingarrDbContext context,
+        ISettingService? settingService = null,
+        IMediaOverrideService? mediaOverrideService = null,
+        ITranslationServiceFactory? translationServiceFactory = null)
+    {
+        return new SubtitleReviewService(
+            new SubtitleService(NullLogger<SubtitleService>.Instance),
+            translationServiceFactory ?? Mock.Of<ITranslationServiceFactory>(),
+            settingService ?? Mock.Of<ISettingService>(),
+            mediaOverrideService ?? Mock.Of<IMediaOverrideService>(),
+            context,
+            NullLogger<SubtitleReviewService>.Instance);
+    }
+
+    private static Movie CreateMovie(string path)
+    {
+        return new Movie
+        {
+            RadarrId = 1,
+            Title = "Movie",
+            FileName = "Movie.mkv",
+            Path = path,
+            DateAdded = DateTime.UtcNow
+        };
+    }
+
+    private static LingarrDbContext BuildContext()
+    {
+        var options = new DbContextOptionsBuilder<LingarrDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+        return new LingarrDbContext(options);
+    }
+
+    private static SubtitleItem Cue(int position, int start, int end, string text)
+    {
+        return new SubtitleItem
+        {
+            Position = position,
+            StartTime = start,
+            EndTime = end,
+            Lines = new List<string> { text },
+            PlaintextLines = new List<string> { text }
+        };
+    }
+}
@@ -1,14 +1,19 @@
 using System;
 using System.Collections.Generic;
 using System.Linq;
+using System.Text.Json;
 using System.Threading;
 using System.Threading.Tasks;
+using Lingarr.Core.Configuration;
 using Lingarr.Core.Data;
 using Lingarr.Core.Entities;
 using Lingarr.Core.Enum;
+using Lingarr.Server.Extensions;
 using Lingarr.Server.Hubs;
 using Lingarr.Server.Interfaces.Services;
 using Lingarr.Server.Interfaces.Services.Translation;
+using Lingarr.Server.Models;
+using Lingarr.Server.Models.Api;
 using Lingarr.Server.Services;
 using Microsoft.AspNetCore.SignalR;
 using Microsoft.EntityFrameworkCore;
@@ -116,6 +121,405 @@ public class TranslationRequestServiceTests
         Assert.Equal(2, pendingCount);
     }
 
+    [Fact]
+    public async Task GetTranslationRequests_DefaultsToPendingRequests()
+    {
+        await using var context = BuildContext();
+
+        var now = DateTime.UtcNow;
+        context.TranslationRequests.AddRange(
+            CreateRequest(1, 10, MediaType.Movie, "en", "ro", "/movies/a.en.srt", TranslationStatus.Pending, now),
+            CreateRequest(2, 11, MediaType.Movie, "en", "ro", "/movies/b.en.srt", TranslationStatus.Failed, now),
+            CreateRequest(3, 12, MediaType.Movie, "en", "ro", "/movies/c.en.srt", TranslationStatus.Completed, now));
+        await context.SaveChangesAsync();
+
+        var service = CreateService(context);
+
+        var result = await service.GetTranslationRequests(null, null, true, 1, 20);
+
+        Assert.Equal(1, result.TotalCount);
+        Assert.Equal(1, Assert.Single(result.Items).Id);
+    }
+
+    [Fact]
+    public async Task GetTranslationRequests_AppliesStatusLanguageMediaTypeAndDateFilters()
+    {
+        await using var context = BuildContext();
+
+        var now = DateTime.UtcNow;
+        var requests = new List<TranslationRequest>
+        {
+            CreateRequest(1, 10, MediaType.Movie, "en", "nl", "/movies/a.en.srt", TranslationStatus.Completed, now),
+            CreateRequest(2, 11, MediaType.Episode, "en", "nl", "/shows/b.en.srt", TranslationStatus.Completed, now),
+            CreateRequest(3, 12, MediaType.Episode, "en", "ro", "/shows/c.en.srt", TranslationStatus.Completed, now),
+            CreateRequest(4, 13, MediaType.Episode, "en", "nl", "/shows/d.en.srt", TranslationStatus.Failed, now),
+            CreateRequest(5, 14, MediaType.Episode, "en", "nl", "/shows/e.en.srt", TranslationStatus.Completed, now)
+        };
+        requests[0].CompletedAt = now;
+        requests[1].CompletedAt = now;
+        requests[2].CompletedAt = now;
+        requests[3].CompletedAt = now;
+        requests[4].CompletedAt = now.AddDays(-10);
+
+        context.TranslationRequests.AddRange(requests);
+        await context.SaveChangesAsync();
+
+        var service = CreateService(context);
+
+        var result = await service.GetTranslationRequests(null, null, true, 1, 20, new TranslationRequestFilter
+        {
+            Statuses = new List<TranslationStatus> { TranslationStatus.Completed },
+            TargetLanguage = "nl",
+            MediaType = MediaType.Episode,
+            CompletedFrom = now.AddDays(-1),
+            CompletedTo = now
+        });
+
+        Assert.Equal(1, result.TotalCount);
+        Assert.Equal(2, Assert.Single(result.Items).Id);
+    }
+
+    [Fact]
+    public async Task GetTranslationRequests_FiltersByMedia()
+    {
+        await using var context = BuildContext();
+
+        var now = DateTime.UtcNow;
+        context.TranslationRequests.AddRange(
+            CreateRequest(1, 10, MediaType.Movie, "en", "nl", "/movies/a.en.srt", TranslationStatus.Completed, now),
+            CreateRequest(2, 10, MediaType.Episode, "en", "nl", "/shows/a.en.srt", TranslationStatus.Completed, now),
+            CreateRequest(3, 10, MediaType.Movie, "en", "ro", "/movies/a.en.srt", TranslationStatus.Failed, now),
+            CreateRequest(4, 11, MediaType.Movie, "en", "nl", "/movies/b.en.srt", TranslationStatus.Completed, now));
+        await context.SaveChangesAsync();
+
+        var service = CreateService(context);
+
+        var result = await service.GetTranslationRequests(null, null, true, 1, 20, new TranslationRequestFilter
+        {
+            Statuses = new List<TranslationStatus> { TranslationStatus.Completed, TranslationStatus.Failed },
+            MediaType = MediaType.Movie,
+            MediaId = 10
+        });
+
+        Assert.Equal(new[] { 1, 3 }, result.Items.Select(tr => tr.Id));
+    }
+
+    [Fact]
+    public async Task ExportTranslationRequests_StreamsFilteredRequestsWithLogs()
+    {
+        await using var context = BuildContext();
+
+        var now = DateTime.UtcNow;
+        context.TranslationRequests.AddRange(
+            CreateRequest(1, 10, MediaType.Movie, "en", "nl", "/movies/a.en.srt", TranslationStatus.Completed, now),
+            CreateRequest(2, 11, MediaType.Movie, "en", "nl", "/movies/b.en.srt", TranslationStatus.Failed, now),
+            CreateRequest(3, 12, MediaType.Movie, "en", "nl", "/movies/c.en.srt", TranslationStatus.Pending, now));
+        context.TranslationRequestLogs.AddRange(
+            new TranslationRequestLog { TranslationRequestId = 2, Level = "Error", Message = "Service unavailable" },
+            new TranslationRequestLog { TranslationRequestId = 3, Level = "Information", Message = "Queued" });
+        await context.SaveChangesAsync();
+
+        var service = CreateService(context);
+        var rows = new List<TranslationRequestExportRow>();
+        await foreach (var row in service.ExportTranslationRequests(null, "Title", true, new TranslationRequestFilter
+                       {
+                           Statuses = new List<TranslationStatus>
+                               { TranslationStatus.Completed, TranslationStatus.Failed }
+                       }, true))
+        {
+            rows.Add(row);
+        }
+
+        Assert.Equal(new[] { 1, 2 }, rows.Select(row => row.Id));
+        Assert.Empty(rows[0].Logs!);
+        Assert.Equal("Service unavailable", Assert.Single(rows[1].Logs!).Message);
+    }
+
+    [Fact]
+    public async Task ExportTranslationRequests_KeepsRequestsWhoseStatusChangesDuringTheExport()
+    {
+        await using var context = BuildContext();
+
+        var now = DateTime.UtcNow;
+        context.TranslationRequests.AddRange(Enumerable.Range(1, 501).Select(id =>
+            CreateRequest(id, id, MediaType.Movie, "en", "nl", $"/movies/{id}.en.srt", TranslationStatus.Failed,
+                now.AddMinutes(id))));
+        await context.SaveChangesAsync();
+
+        var service = CreateService(context);
+        var rows = new List<TranslationRequestExportRow>();
+        await foreach (var row in service.ExportTranslationRequests(null, "CreatedAt", true, new TranslationRequestFilter
+                       {
+                           Statuses = new List<TranslationStatus> { TranslationStatus.Failed }
+                       }, false))
+        {
+            rows.Add(row);
+            if (rows.Count == 1)
+            {
+                // Retried while the export is running, it no longer matches the filter
+                (await context.TranslationRequests.FindAsync(1))!.Status = TranslationStatus.Pending;
+                await context.SaveChangesAsync();
+            }
+        }
+
+        Assert.Equal(Enumerable.Range(1, 501), rows.Select(row => row.Id));
+    }
+
+    [Fact]
+    public async Task ApplyBulkAction_ReportsPerRequestOutcome()
+    {
+        await using var context = BuildContext();
+
+        var now = DateTime.UtcNow;
+        context.TranslationRequests.AddRange(
+            CreateRequest(1, 10, MediaType.Movie, "en", "ro", "/movies/a.en.srt", TranslationStatus.Pending, now),
+            CreateRequest(2, 11, MediaType.Movie, "en", "ro", "/movies/b.en.srt", TranslationStatus.Completed, now));
+        await context.SaveChangesAsync();
+
+        var service = CreateService(context);
+
+        var results = await service.ApplyBulkAction(BulkTranslationAction.SetPriority, new[] { 1, 2, 99 }, true);
+
+        Assert.Equal(new[] { 1, 2, 99 }, results.Select(result => result.Id));
+        Assert.True(results[0].Success);
+        Assert.False(results[1].Success);
+        Assert.False(results[2].Success);
+        Assert.True((await context.TranslationRequests.FindAsync(1))!.IsPriority);
+        Assert.False((await context.TranslationRequests.FindAsync(2))!.IsPriority);
+    }
+
+    [Fact]
+    public async Task ApplyBulkAction_RemoveSkipsRunningRequests()
+    {
+        await using var context = BuildContext();
+
+        var now = DateTime.UtcNow;
+        context.TranslationRequests.AddRange(
+            CreateRequest(1, 10, MediaType.Movie, "en", "ro", "/movies/a.en.srt", TranslationStatus.InProgress, now),
+            CreateRequest(2, 11, MediaType.Movie, "en", "ro", "/movies/b.en.srt", TranslationStatus.Failed, now));
+        await context.SaveChangesAsync();
+
+        var service = CreateService(context);
+
+        var results = await service.ApplyBulkAction(BulkTranslationAction.Remove, new[] { 1, 2 });
+
+        Assert.False(results[0].Success);
+        Assert.True(results[1].Success);
+        Assert.Equal(new[] { 1 }, await context.TranslationRequests.Select(tr => tr.Id).ToListAsync());
+    }
+
+    [Fact]
+    public async Task ApplyBulkAction_RemoveCancelsAndRemovesPendingRequests()
+    {
+        await using var context = BuildContext();
+
+        var now = DateTime.UtcNow;
+        context.TranslationRequests.AddRange(
+            CreateRequest(1, 10, MediaType.Movie, "en", "ro", "/movies/a.en.srt", TranslationStatus.Pending, now),
+            CreateRequest(2, 11, MediaType.Movie, "en", "ro", "/movies/b.en.srt", TranslationStatus.Pending, now));
+        await context.SaveChangesAsync();
+
+        var service = CreateService(context);
+
+        var results = await service.ApplyBulkAction(BulkTranslationAction.Remove, new[] { 1, 2 });
+
+        Assert.All(results, result => Assert.True(result.Success));
+        Assert.Empty(await context.TranslationRequests.ToListAsync());
+    }
+
+    [Fact]
+    public async Task RequeueTranslationRequest_KeepsHistoryAndQueuesNewRequest()
+    {
+        await using var context = BuildContext();
+
+        var now = DateTime.UtcNow;
+        var completed = CreateRequest(1, 10, MediaType.Movie, "en", "ro", "/movies/a.en.srt", TranslationStatus.Completed, now);
+        completed.CompletedAt = now;
+        completed.ServiceType = "openai";
+        completed.Model = "gpt-4o-mini";
+        context.TranslationRequests.Add(completed);
+        await context.SaveChangesAsync();
+
+        var workerServiceMock = new Mock<ITranslationWorkerService>();
+        var service = CreateService(context, workerServiceMock);
+
+        var result = await service.RequeueTranslationRequest(new TranslationRequest
+        {
+            Id = 1,
+            Title = string.Empty,
+            SourceLanguage = string.Empty,
+            TargetLanguage = string.Empty,
+            MediaType = MediaType.Movie,
+            Status = TranslationStatus.Completed
+        });
+
+        Assert.NotNull(result);
+        Assert.Equal(TranslationStatus.Completed, (await context.TranslationRequests.FindAsync(1))!.Status);
+
+        var requeued = await context.TranslationRequests.SingleAsync(tr => tr.Id != 1);
+        Assert.Equal(TranslationStatus.Pending, requeued.Status);
+        Assert.Equal("/movies/a.en.srt", requeued.SubtitleToTranslate);
+        Assert.Null(requeued.ServiceType);
+        Assert.Null(requeued.Model);
+        workerServiceMock.Verify(w => w.Signal(), Times.Once);
+    }
+
+    [Fact]
+    public async Task GetThroughput_CountsParallelRequestsOnceAndSkipsIdleTime()
+    {
+        await using var context = BuildContext();
+
+        var start = DateTime.UtcNow.AddHours(-3);
+        context.TranslationRequests.AddRange(
+            CreateCompletedRequest(1, "openai", 600, start, start.AddMinutes(10)),
+            CreateCompletedRequest(2, "openai", 300, start.AddMinutes(5), start.AddMinutes(15)),
+            CreateCompletedRequest(3, "openai", 300, start.AddHours(2), start.AddHours(2).AddMinutes(10)),
+            CreateRequest(4, 14, MediaType.Movie, "en", "ro", "/movies/d.en.srt", TranslationStatus.Pending, start));
+        await context.SaveChangesAsync();
+
+        var service = CreateService(context);
+
+        var throughput = await service.GetThroughput();
+
+        Assert.Equal(3, throughput.SampleSize);
+        Assert.Equal(1, throughput.PendingRequests);
+        Assert.Equal(1, throughput.MaxParallelTranslations);
+        // 3 requests in 25 minutes of busy time
+        Assert.Equal(7.2, throughput.RequestsPerHour, 3);
+        var openai = Assert.Single(throughput.Services);
+        // 1200 lines in 30 minutes of request time
+        Assert.Equal(40, openai.LinesPerMinute, 3);
+        Assert.Equal(600, openai.AverageDurationSeconds, 3);
+    }
+
+    [Fact]
+    public async Task MoveTranslationRequest_KeepsManualOrderAheadOfNewRequests()
+    {
+        await using var context = BuildContext();
+        var now = DateTime.UtcNow;
+
+        context.TranslationRequests.AddRange(
+            CreateRequest(1, 10, MediaType.Movie, "en", "nl", "/movies/a.en.srt", TranslationStatus.Pending, now),
+            CreateRequest(2, 11, MediaType.Movie, "en", "nl", "/movies/b.en.srt", TranslationStatus.Pending, now),
+            CreateRequest(3, 12, MediaType.Movie, "en", "nl", "/movies/c.en.srt", TranslationStatus.Pending, now));
+        var background = CreateRequest(4, 13, MediaType.Movie, "en", "nl", "/movies/d.en.srt",
+            TranslationStatus.Pending, now);
+        background.Lane = TranslationLane.Background;
+        context.TranslationRequests.Add(background);
+        await context.SaveChangesAsync();
+
+        var service = CreateService(context);
+
+        Assert.NotNull(await service.MoveTranslationRequest(3, TranslationLane.Normal, targetId: 1));
+
+        context.TranslationRequests.Add(CreateRequest(5, 14, MediaType.Movie, "en", "nl", "/movies/e.en.srt",
+            TranslationStatus.Pending, now));
+        await context.SaveChangesAsync();
+
+        Assert.Equal(new[] { 3, 1, 2, 5, 4 }, await GetQueueOrder(context));
+
+        Assert.NotNull(await service.MoveTranslationRequest(4, TranslationLane.Urgent));
+        Assert.NotNull(await service.MoveTranslationRequest(1, TranslationLane.Normal, targetId: 2, placeAfter: true));
+
+        Assert.Equal(new[] { 4, 3, 2, 1, 5 }, await GetQueueOrder(context));
+        Assert.Null(await service.MoveTranslationRequest(99, TranslationLane.Normal));
+    }
+
+    [Fact]
+    public async Task MoveTranslationRequest_PriorityRequestCreatedAfterMoveIsPickedNext()
+    {
+        await using var context = BuildContext();
+        var now = DateTime.UtcNow;
+
+        context.TranslationRequests.AddRange(
+            CreateRequest(1, 10, MediaType.Movie, "en", "nl", "/movies/a.en.srt", TranslationStatus.Pending, now),
+            CreateRequest(2, 11, MediaType.Movie, "en", "nl", "/movies/b.en.srt", TranslationStatus.Pending, now),
+            CreateRequest(3, 12, MediaType.Movie, "en", "nl", "/movies/c.en.srt", TranslationStatus.Pending, now));
+        await context.SaveChangesAsync();
+
+        var service = CreateService(context);
+
+        Assert.NotNull(await service.MoveTranslationRequest(3, TranslationLane.Normal, targetId: 1));
+
+        var priorityRequest = CreateRequest(4, 13, MediaType.Movie, "en", "nl", "/movies/d.en.srt",
+            TranslationStatus.Pending, now.AddMinutes(1));
+        priorityRequest.IsPriority = true;
+        context.TranslationRequests.Add(priorityRequest);
+        await context.SaveChangesAsync();
+
+        Assert.Equal(new[] { 4, 3, 1, 2 }, await GetQueueOrder(context));
+
+        // A regular request dropped in front of the priority request stays behind it
+        Assert.NotNull(await service.MoveTranslationRequest(2, TranslationLane.Normal, targetId: 4));
+
+        Assert.Equal(new[] { 4, 2, 3, 1 }, await GetQueueOrder(context));
+    }
+
+    [Fact]
+    public async Task SetQueuePaused_InterruptsPausedServiceAndRequeuesOnResume()
+    {
+        await using var context = BuildContext();
+        var now = DateTime.UtcNow;
+
+        var deepLRequest = CreateRequest(1, 10, MediaType.Movie, "en", "nl", "/movies/a.en.srt",
+            TranslationStatus.InProgress, now);
+        deepLRequest.ServiceType = "deepl";
+        var openAiRequest = CreateRequest(2, 11, MediaType.Movie, "en", "nl", "/movies/b.en.srt",
+            TranslationStatus.InProgress, now);
+        openAiRequest.ServiceType = "openai";
+        context.TranslationRequests.AddRange(deepLRequest, openAiRequest);
+        await context.SaveChangesAsync();
+
+        var settings = new Dictionary<string, string>
+        {
+            { SettingKeys.Translation.ServiceType, "deepl" },
+            { SettingKeys.Translation.QueuePaused, "false" },
+            { SettingKeys.Translation.PausedServiceTypes, "[]" }
+        };
+        var service = CreateService(context, settingServiceMock: CreateSettingServiceMock(settings));
+
+        var paused = await service.SetQueuePaused(true, "deepl", true);
+
+        Assert.False(paused.IsPaused);
+        Assert.True(paused.IsProcessingPaused);
+        Assert.Equal(new List<string> { "deepl" }, paused.PausedServices);
+        Assert.Equal(1, paused.InterruptedRequests);
+        Assert.Equal(TranslationStatus.Interrupted, (await context.TranslationRequests.FindAsync(1))!.Status);
+        Assert.Equal(TranslationStatus.InProgress, (await context.TranslationRequests.FindAsync(2))!.Status);
+
+        var resumed = await service.SetQueuePaused(false, "deepl");
+
+        Assert.False(resumed.IsProcessingPaused);
+        Assert.Empty(resumed.PausedServices);
+        Assert.Equal(0, resumed.InterruptedRequests);
+        Assert.Equal(TranslationStatus.Pending, (await context.TranslationRequests.FindAsync(1))!.Status);
+    }
+
+    private static TranslationRequest CreateCompletedRequest(
+        int id,
+        string serviceType,
+        int lineCount,
+        DateTime startedAt,
+        DateTime completedAt)
+    {
+        var request = CreateRequest(id, 10 + id, MediaType.Movie, "en", "ro", $"/movies/{id}.en.srt",
+            TranslationStatus.Completed, startedAt);
+        request.ServiceType = serviceType;
+        request.LineCount = lineCount;
+        request.StartedAt = startedAt;
+        request.CompletedAt = completedAt;
+        return request;
+    }
+
+    private static async Task<int[]> GetQueueOrder(LingarrDbContext context)
+    {
+        return await context.TranslationRequests
+            .Where(tr => tr.Status == TranslationStatus.Pending)
+            .OrderByQueue()
+            .Select(tr => tr.Id)
+            .ToArrayAsync();
+    }
+
     private static LingarrDbContext BuildContext()
     {
         var options = new DbContextOptionsBuilder<LingarrDbContext>()
@@ -149,11 +553,31 @@ public class TranslationRequestServiceTests
         };
     }
 
+    private static Mock<ISettingService> CreateSettingServiceMock(Dictionary<string, string> settings)
+    {
+        var settingServiceMock = new Mock<ISettingService>();
+        settingServiceMock
+            .Setup(s => s.GetSettings(It.IsAny<IEnumerable<string>>()))
+            .ReturnsAsync((IEnumerable<string> keys) =>
+                keys.ToDictionary(key => key, key => settings.GetValueOrDefault(key, string.Empty)));
+        settingServiceMock
+            .Setup(s => s.GetSettingAsJson<string>(It.IsAny<string>()))
+            .ReturnsAsync((string key) =>
+                JsonSerializer.Deserialize<List<string>>(settings.GetValueOrDefault(key, "[]"))!);
+        settingServiceMock
+            .Setup(s => s.SetSetting(It.IsAny<string>(), It.IsAny<string>()))
+            .Callback((string key, string value) => settings[key] = value)
+            .ReturnsAsync(true);
+        return settingServiceMock;
+    }
+
     private static TranslationRequestService CreateService(
         LingarrDbContext context,
-        Mock<ITranslationWorkerService>? workerServiceMock = null)
+        Mock<ITranslationWorkerService>? workerServiceMock = null,
+        Mock<ISettingService>? settingServiceMock = null)
     {
         workerServiceMock ??= new Mock<ITranslationWorkerService>();
+        settingServiceMock ??= new Mock<ISettingService>();
 
         var clientProxyMock = new Mock<IClientProxy>();
         clientProxyMock
@@ -174,7 +598,7 @@ public class TranslationRequestServiceTests
             new Mock<IProgressService>().Object,
             new Mock<IStatisticsService>().Object,
             new Lazy<IMediaService>(() => new Mock<IMediaService>().Object),
-            new Mock<ISettingService>().Object,
+            settingServiceMock.Object,
             new Mock<IBatchFallbackService>().Object,
             NullLogger<TranslationRequestService>.Instance,
             new Mock<ITranslationCancellationService>().Object);
@@ -13,11 +13,19 @@ public class MediaController : ControllerBase
 {
     private readonly IMediaService _mediaService;
     private readonly ITranslationRequestService _translationRequestService;
+    private readonly IMediaCoverageService _mediaCoverageService;
+    private readonly IMediaOverrideService _mediaOverrideService;
 
-    public MediaController(IMediaService mediaService, ITranslationRequestService translationRequestService)
+    public MediaController(
+        IMediaService mediaService,
+        ITranslationRequestService translationRequestService,
+        IMediaCoverageService mediaCoverageService,
+        IMediaOverrideService mediaOverrideService)
     {
         _mediaService = mediaService;
         _translationRequestService = translationRequestService;
+        _mediaCoverageService = mediaCoverageService;
+        _mediaOverrideService = mediaOverrideService;
     }
     
     /// <summary>
@@ -28,11 +36,13 @@ public class MediaController : ControllerBase
     /// <param name="ascending">A boolean indicating whether to sort in ascending order (default is true).</param>
     /// <param name="pageSize">The number of movies to return per page (default is 20).</param>
     /// <param name="pageNumber">The page number to retrieve (default is 1).</param>
+    /// <param name="filter">Optional translation state, missing language, exclusion, priority and date added filters.</param>
     /// <returns>Returns an HTTP 200 OK response with a paginated list of movies.</returns>
     [HttpGet("movies")]
     public async Task<ActionResult<PagedResult<MovieResponse>>> GetMovies(
         string? searchQuery,
         string? orderBy,
+        [FromQuery] MediaFilter filter,
         bool ascending = true,
         int pageSize = 20,
         int pageNumber = 1)
@@ -42,7 +52,8 @@ public class MediaController : ControllerBase
             orderBy,
             ascending,
             pageNumber,
-            pageSize);
+            pageSize,
+            filter);
 
         return Ok(value);
     }
@@ -55,11 +66,13 @@ public class MediaController : ControllerBase
     /// <param name="ascending">A boolean indicating whether to sort in ascending order (default is true).</param>
     /// <param name="pageSize">The number of shows to return per page (default is 20).</param>
     /// <param name="pageNumber">The page number to retrieve (default is 1).</param>
+    /// <param name="filter">Optional translation state, missing language, exclusion, priority and date added filters.</param>
     /// <returns>Returns an HTTP 200 OK response with a paginated list of shows.</returns>
     [HttpGet("shows")]
     public async Task<ActionResult<PagedResult<Show>>> GetShows(
         string? searchQuery,
         string? orderBy,
+        [FromQuery] MediaFilter filter,
         bool ascending = true,
         int pageSize = 20,
         int pageNumber = 1)
@@ -69,7 +82,31 @@ public class MediaController : ControllerBase
             orderBy,
             ascending,
             pageNumber,
-            pageSize);
+            pageSize,
+            filter);
+        return Ok(value);
+    }
+
+    /// <summary>
+    /// Retrieves the IDs of all movies or shows matching a search query and filter.
+    /// </summary>
+    /// <param name="mediaType">Either Movie or Show.</param>
+    /// <param name="searchQuery">An optional search query to filter by title.</param>
+    /// <param name="filter">Optional translation state, missing language, exclusion, priority and date added filters.</param>
+    /// <response code="200">Returns the matching IDs</response>
+    /// <response code="400">If the media type is not Movie or Show</response>
+    [HttpGet("ids")]
+    public async Task<ActionResult<List<int>>> GetMediaIds(
+        MediaType mediaType,
+        string? searchQuery,
+        [FromQuery] MediaFilter filter)
+    {
+        if (mediaType != MediaType.Movie && mediaType != MediaType.Show)
+        {
+            return BadRequest("Only movies and shows can be listed");
+        }
+
+        var value = await _mediaService.GetMediaIds(mediaType, searchQuery, filter);
         return Ok(value);
     }
 
@@ -88,7 +125,145 @@ public class MediaController : ControllerBase
         }
         return Ok(value);
     }
+
+    /// <summary>
+    /// Retrieves a specific movie by its ID, including its images and external subtitles.
+    /// </summary>
+    /// <param name="id">The unique identifier of the movie.</param>
+    /// <response code="200">Returns the movie</response>
+    /// <response code="404">If the movie does not exist</response>
+    [HttpGet("movies/{id:int}")]
+    public async Task<ActionResult<MovieResponse>> GetMovie(int id)
+    {
+        var value = await _mediaService.GetMovie(id);
+        if (value == null)
+        {
+            return NotFound();
+        }
+        return Ok(value);
+    }
+
+    /// <summary>
+    /// Retrieves a specific episode by its ID, including its external subtitles and the show it belongs to.
+    /// </summary>
+    /// <param name="id">The unique identifier of the episode.</param>
+    /// <response code="200">Returns the episode</response>
+    /// <response code="404">If the episode does not exist</response>
+    [HttpGet("episodes/{id:int}")]
+    public async Task<ActionResult<EpisodeResponse>> GetEpisode(int id)
+    {
+        var value = await _mediaService.GetEpisode(id);
+        if (value == null)
+        {
+            return NotFound();
+        }
+        return Ok(value);
+    }
     
+    /// <summary>
+    /// Retrieves the subtitle coverage of a show per season and configured target language.
+    /// </summary>
+    /// <param name="id">The unique identifier of the show.</param>
+    /// <response code="200">Returns the coverage of each season and its episodes</response>
+    /// <response code="404">If the show does not exist</response>
+    [HttpGet("shows/{id}/coverage")]
+    public async Task<ActionResult<ShowCoverageResponse>> GetShowCoverage(int id)
+    {
+        var value = await _mediaCoverageService.GetShowCoverage(id);
+        if (value == null)
+        {
+            return NotFound();
+        }
+        return Ok(value);
+    }
+
+    /// <summary>
+    /// Queues translations into one target language for the episodes of a season, or a single episode,
+    /// that are missing a subtitle in that language.
+    /// </summary>
+    /// <param name="request">The season or episode and the target language.</param>
+    /// <response code="200">Returns the number of translations queued</response>
+    /// <response code="400">If the media type is not Season or Episode</response>
+    /// <response code="404">If the season or episode does not exist</response>
+    [HttpPost("coverage/translate")]
+    public async Task<ActionResult<TranslateMediaResponse>> TranslateCoverage([FromBody] CoverageTranslateRequest request)
+    {
+        try
+        {
+            var translationsQueued = await _mediaCoverageService.TranslateMissing(
+                request.MediaType,
+                request.Id,
+                request.Language);
+            if (translationsQueued == null)
+            {
+                return NotFound(new TranslateMediaResponse { Message = $"{request.MediaType} not found" });
+            }
+
+            return Ok(new TranslateMediaResponse
+            {
+                TranslationsQueued = translationsQueued.Value,
+                Message = translationsQueued > 0
+                    ? $"{translationsQueued} translation(s) queued"
+                    : "No translations needed"
+            });
+        }
+        catch (ArgumentOutOfRangeException)
+        {
+            return BadRequest(new TranslateMediaResponse { Message = "Invalid media type" });
+        }
+    }
+
+    /// <summary>
+    /// Retrieves the translation overrides of a movie or show together with the inherited global values.
+    /// </summary>
+    /// <param name="mediaType">Either Movie or Show.</param>
+    /// <param name="id">The unique identifier of the movie or show.</param>
+    /// <response code="200">Returns the overrides and inherited values</response>
+    /// <response code="400">If the media type is not Movie or Show</response>
+    /// <response code="404">If the movie or show does not exist</response>
+    [HttpGet("overrides")]
+    public async Task<ActionResult<MediaOverrideResponse>> GetOverrides(MediaType mediaType, int id)
+    {
+        try
+        {
+            var value = await _mediaOverrideService.GetOverrides(mediaType, id);
+            if (value == null)
+            {
+                return NotFound();
+            }
+            return Ok(value);
+        }
+        catch (ArgumentOutOfRangeException)
+        {
+            return BadRequest("Overrides can only be set on movies and shows");
+        }
+    }
+
+    /// <summary>
+    /// Replaces the translation overrides of a movie or show, empty values inherit the global setting.
+    /// </summary>
+    /// <param name="request">The movie or show and its new overrides.</param>
+    /// <response code="200">Returns the updated overrides and inherited values</response>
+    /// <response code="400">If the media type is not Movie or Show</response>
+    /// <response code="404">If the movie or show does not exist</response>
+    [HttpPost("overrides")]
+    public async Task<ActionResult<MediaOverrideResponse>> UpdateOverrides([FromBody] MediaOverrideRequest request)
+    {
+        try
+        {
+            var value = await _mediaOverrideService.UpdateOverrides(request.MediaType, request.Id, request.Overrides);
+            if (value == null)
+            {
+                return NotFound();
+            }
+            return Ok(value);
+        }
+        catch (ArgumentOutOfRangeException)
+        {
+            return BadRequest("Overrides can only be set on movies and shows");
+        }
+    }
+
     /// <summary>
     /// Toggles the exclusion status of a specified media item from translation.
     /// </summary>
@@ -136,6 +311,43 @@ public class MediaController : ControllerBase
         return Ok(queuedCount);
     }
     
+    /// <summary>
+    /// Applies one action to several media items of the same type.
+    /// </summary>
+    /// <param name="request">The action, media type and IDs, with the priority or threshold value where needed.</param>
+    /// <response code="200">Returns the number of succeeded and failed items with a result per item</response>
+    /// <response code="400">If no media items were selected</response>
+    [HttpPost("bulk")]
+    public async Task<ActionResult<BulkMediaActionResponse>> BulkAction([FromBody] BulkMediaActionRequest request)
+    {
+        if (request.Ids.Count == 0)
+        {
+            return BadRequest("No media selected");
+        }
+
+        var results = await _mediaService.ApplyBulkAction(
+            request.Action,
+            request.MediaType,
+            request.Ids,
+            request.IsPriority,
+            request.Hours);
+
+        if (request.Action == BulkMediaAction.SetPriority)
+        {
+            foreach (var result in results.Where(r => r.Success))
+            {
+                await _translationRequestService.RefreshPriorityForMedia(request.MediaType, result.Id);
+            }
+        }
+
+        return Ok(new BulkMediaActionResponse
+        {
+            Succeeded = results.Count(r => r.Success),
+            Failed = results.Count(r => !r.Success),
+            Results = results
+        });
+    }
+
     /// <summary>
     /// Triggers a bulk integrity check for all Complete-state media items.
     /// Returns the job ID for tracking progress.
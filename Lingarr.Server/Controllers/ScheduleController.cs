@@ -1,4 +1,5 @@
 ﻿using Hangfire;
+using Lingarr.Core.Entities;
 using Lingarr.Server.Interfaces.Services;
 using Lingarr.Server.Jobs;
 using Lingarr.Server.Models;
@@ -29,12 +30,72 @@ public class ScheduleController : ControllerBase
     /// </summary>
     /// <returns>A list of job information including status, progress, and other details.</returns>
     [HttpGet("jobs")]
-    public IActionResult RecurringJobs()
+    public async Task<IActionResult> RecurringJobs()
     {
-        var jobs = _scheduleService.GetRecurringJobs();
+        var jobs = await _scheduleService.GetRecurringJobs();
         return Ok(jobs);
     }
 
+    /// <summary>
+    /// Retrieves the run history of a job, newest first.
+    /// </summary>
+    /// <param name="jobId">The ID of the recurring job.</param>
+    /// <param name="limit">The maximum number of runs to return.</param>
+    /// <returns>A list of runs with their duration, processed items and result.</returns>
+    [HttpGet("job/{jobId}/runs")]
+    public async Task<ActionResult<List<JobRun>>> JobRuns(string jobId, [FromQuery] int limit = 20)
+    {
+        var runs = await _scheduleService.GetJobRuns(jobId, Math.Clamp(limit, 1, 50));
+        return Ok(runs);
+    }
+
+    /// <summary>
+    /// Enables or disables a recurring job.
+    /// </summary>
+    /// <param name="jobId">The ID of the recurring job.</param>
+    /// <param name="request">Whether the job should run on its schedule.</param>
+    /// <response code="200">The job has been enabled or disabled.</response>
+    /// <response code="400">The job does not have a configurable schedule.</response>
+    [HttpPut("job/{jobId}/enabled")]
+    public async Task<IActionResult> SetJobEnabled(string jobId, [FromBody] JobEnabledRequest request)
+    {
+        try
+        {
+            await _scheduleService.SetJobEnabled(jobId, request.Enabled);
+            return Ok();
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(ex.Message);
+        }
+    }
+
+    /// <summary>
+    /// Updates the cron expression of a recurring job.
+    /// </summary>
+    /// <param name="jobId">The ID of the recurring job.</param>
+    /// <param name="request">The new cron expression.</param>
+    /// <response code="200">The job has been rescheduled.</response>
+    /// <response code="400">The job is unknown or the cron expression is invalid.</response>
+    [HttpPut("job/{jobId}/schedule")]
+    public async Task<IActionResult> UpdateJobSchedule(string jobId, [FromBody] JobScheduleRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.Cron))
+        {
+            return BadRequest("A cron expression is required.");
+        }
+
+        try
+        {
+            await _scheduleService.UpdateJobSchedule(jobId, request.Cron.Trim());
+            return Ok();
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(ex.Message);
+        }
+    }
+
     /// <summary>
     /// 
     /// </summary>
@@ -1,6 +1,7 @@
 ﻿using Lingarr.Core.Entities;
 using Lingarr.Server.Interfaces.Services;
 using Lingarr.Server.Models;
+using Lingarr.Server.Models.Api;
 using Microsoft.AspNetCore.Mvc;
 
 namespace Lingarr.Server.Controllers;
@@ -11,11 +12,16 @@ public class SettingController : ControllerBase
 {
     private readonly ISettingService _settingService;
     private readonly IIntegrationService _integrationService;
+    private readonly ISettingHistoryService _settingHistoryService;
 
-    public SettingController(ISettingService settingService, IIntegrationService integrationService)
+    public SettingController(
+        ISettingService settingService,
+        IIntegrationService integrationService,
+        ISettingHistoryService settingHistoryService)
     {
         _settingService = settingService;
         _integrationService = integrationService;
+        _settingHistoryService = settingHistoryService;
     }
     
     /// <summary>
@@ -84,6 +90,52 @@ public class SettingController : ControllerBase
         return BadRequest("Some settings were not found or could not be updated.");
     }
     
+    /// <summary>
+    /// Retrieves the recorded setting changes, newest first. Values of API keys are redacted.
+    /// </summary>
+    /// <param name="key">Optional setting key to filter on.</param>
+    /// <param name="pageNumber">The page number to retrieve (defaults to 1).</param>
+    /// <param name="pageSize">The number of items per page (defaults to 20).</param>
+    /// <returns>Returns an HTTP 200 OK response with a paged list of setting changes.</returns>
+    [HttpGet("history")]
+    public async Task<ActionResult<PagedResult<SettingChangeResponse>>> GetHistory(
+        string? key,
+        int pageNumber = 1,
+        int pageSize = 20)
+    {
+        var history = await _settingHistoryService.GetHistory(
+            key,
+            Math.Max(pageNumber, 1),
+            Math.Clamp(pageSize, 1, 100));
+        return Ok(history);
+    }
+
+    /// <summary>
+    /// Restores the value a setting had before the given change.
+    /// </summary>
+    /// <param name="id">The ID of the setting change to revert.</param>
+    /// <response code="200">The setting has been restored.</response>
+    /// <response code="400">The setting had no value before the change, or cannot be reverted.</response>
+    /// <response code="404">The setting change does not exist.</response>
+    [HttpPost("history/{id:int}/revert")]
+    public async Task<IActionResult> RevertChange(int id)
+    {
+        try
+        {
+            var reverted = await _settingHistoryService.RevertChange(id);
+            if (!reverted)
+            {
+                return NotFound();
+            }
+
+            return Ok();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(ex.Message);
+        }
+    }
+
     /// <summary>
     /// Retrieves system configuration limits.
     /// </summary>
@@ -1,6 +1,7 @@
 using Lingarr.Server.Interfaces.Services;
 using Lingarr.Server.Interfaces.Services.Subtitle;
 using Lingarr.Server.Models;
+using Lingarr.Server.Models.Api;
 using Lingarr.Server.Models.FileSystem;
 using Microsoft.AspNetCore.Mvc;
 
@@ -17,13 +18,16 @@ public class SubtitleController : ControllerBase
 {
     private readonly ISubtitleService _subtitleService;
     private readonly ISubtitleIntegrityService _integrityService;
+    private readonly ISubtitleReviewService _reviewService;
 
     public SubtitleController(
         ISubtitleService subtitleService,
-        ISubtitleIntegrityService integrityService)
+        ISubtitleIntegrityService integrityService,
+        ISubtitleReviewService reviewService)
     {
         _subtitleService = subtitleService;
         _integrityService = integrityService;
+        _reviewService = reviewService;
     }
     
     /// <summary>
@@ -51,4 +55,80 @@ public class SubtitleController : ControllerBase
         var result = await _integrityService.VerifyAssIntegrityAsync(ct);
         return Ok(result);
     }
+
+    /// <summary>
+    /// Aligns the source and translated subtitle of a completed translation request for review.
+    /// </summary>
+    /// <param name="requestId">The ID of the completed translation request</param>
+    /// <response code="200">Returns the aligned source and translated cues</response>
+    /// <response code="404">If the request is not completed or a subtitle file no longer exists</response>
+    [HttpGet("review/{requestId:int}")]
+    public async Task<ActionResult<SubtitleReviewResponse>> GetReviewForRequest(int requestId)
+    {
+        var review = await _reviewService.GetReviewForRequest(requestId);
+        if (review == null)
+        {
+            return NotFound();
+        }
+
+        return Ok(review);
+    }
+
+    /// <summary>
+    /// Aligns a translated subtitle file with the given source subtitle file for review.
+    /// </summary>
+    /// <param name="request">The source and translated subtitle paths</param>
+    /// <response code="200">Returns the aligned source and translated cues</response>
+    /// <response code="404">If either subtitle file does not exist or is not a subtitle of indexed media</response>
+    [HttpPost("review")]
+    public async Task<ActionResult<SubtitleReviewResponse>> GetReview([FromBody] SubtitleReviewRequest request)
+    {
+        var review = await _reviewService.GetReview(
+            request.SourcePath,
+            request.TranslatedPath,
+            request.SourceLanguage,
+            request.TargetLanguage);
+        if (review == null)
+        {
+            return NotFound();
+        }
+
+        return Ok(review);
+    }
+
+    /// <summary>
+    /// Replaces the text of a single cue in a translated subtitle file.
+    /// </summary>
+    /// <param name="request">The translated subtitle path, cue position and new text</param>
+    /// <response code="200">Returns the recorded edit</response>
+    /// <response code="404">If the cue does not exist or the file is not a subtitle of indexed media</response>
+    [HttpPut("review/cue")]
+    public async Task<ActionResult<SubtitleEditDto>> UpdateCue([FromBody] SubtitleCueEditRequest request)
+    {
+        var edit = await _reviewService.UpdateCue(request.TranslatedPath, request.Position, request.Text);
+        if (edit == null)
+        {
+            return NotFound();
+        }
+
+        return Ok(edit);
+    }
+
+    /// <summary>
+    /// Reverts the most recent edit of a translated subtitle file.
+    /// </summary>
+    /// <param name="request">The translated subtitle path</param>
+    /// <response code="200">Returns the reverted edit</response>
+    /// <response code="404">If there is no edit to undo or the file is not a subtitle of indexed media</response>
+    [HttpPost("review/undo")]
+    public async Task<ActionResult<SubtitleEditDto>> UndoLastEdit([FromBody] SubtitleUndoEditRequest request)
+    {
+        var edit = await _reviewService.UndoLastEdit(request.TranslatedPath);
+        if (edit == null)
+        {
+            return NotFound();
+        }
+
+        return Ok(edit);
+    }
 }
\ No newline at end of file
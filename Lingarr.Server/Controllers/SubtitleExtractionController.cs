@@ -1,5 +1,6 @@
 using Lingarr.Core.Data;
 using Lingarr.Core.Entities;
+using Lingarr.Core.Enum;
 using Lingarr.Server.Interfaces.Services.Subtitle;
 using Lingarr.Server.Models.Api;
 using Microsoft.AspNetCore.Mvc;
@@ -13,15 +14,18 @@ public class SubtitleExtractionController : ControllerBase
 {
     private readonly LingarrDbContext _dbContext;
     private readonly ISubtitleExtractionService _extractionService;
+    private readonly IBulkExtractionService _bulkExtractionService;
     private readonly ILogger<SubtitleExtractionController> _logger;
 
     public SubtitleExtractionController(
         LingarrDbContext dbContext,
         ISubtitleExtractionService extractionService,
+        IBulkExtractionService bulkExtractionService,
         ILogger<SubtitleExtractionController> logger)
     {
         _dbContext = dbContext;
         _extractionService = extractionService;
+        _bulkExtractionService = bulkExtractionService;
         _logger = logger;
     }
 
@@ -87,6 +91,68 @@ public class SubtitleExtractionController : ControllerBase
         return Ok(response);
     }
 
+    /// <summary>
+    /// Get the embedded subtitles for multiple movies in a single request
+    /// </summary>
+    /// <param name="request">The movie IDs to fetch embedded subtitles for</param>
+    /// <returns>Embedded subtitles keyed by movie ID</returns>
+    [HttpPost("movie/embedded")]
+    public async Task<ActionResult<Dictionary<int, List<EmbeddedSubtitleResponse>>>> GetMoviesEmbeddedSubtitles(
+        [FromBody] EmbeddedSubtitleBatchRequest request)
+    {
+        var ids = request.Ids.Distinct().ToList();
+        var movies = await _dbContext.Movies
+            .Include(m => m.EmbeddedSubtitles)
+            .Where(m => ids.Contains(m.Id))
+            .ToListAsync();
+
+        // Probe the movies that have no embedded subtitles cached yet
+        foreach (var movie in movies.Where(m => m.EmbeddedSubtitles == null || m.EmbeddedSubtitles.Count == 0))
+        {
+            await _extractionService.SyncEmbeddedSubtitles(movie);
+        }
+
+        var embeddedSubs = await _dbContext.EmbeddedSubtitles
+            .AsNoTracking()
+            .Where(e => e.MovieId != null && ids.Contains(e.MovieId.Value))
+            .ToListAsync();
+
+        return Ok(movies.ToDictionary(
+            m => m.Id,
+            m => embeddedSubs.Where(e => e.MovieId == m.Id).Select(MapToResponse).ToList()));
+    }
+
+    /// <summary>
+    /// Get the embedded subtitles for multiple episodes in a single request
+    /// </summary>
+    /// <param name="request">The episode IDs to fetch embedded subtitles for</param>
+    /// <returns>Embedded subtitles keyed by episode ID</returns>
+    [HttpPost("episode/embedded")]
+    public async Task<ActionResult<Dictionary<int, List<EmbeddedSubtitleResponse>>>> GetEpisodesEmbeddedSubtitles(
+        [FromBody] EmbeddedSubtitleBatchRequest request)
+    {
+        var ids = request.Ids.Distinct().ToList();
+        var episodes = await _dbContext.Episodes
+            .Include(e => e.EmbeddedSubtitles)
+            .Where(e => ids.Contains(e.Id))
+            .ToListAsync();
+
+        // Probe the episodes that have no embedded subtitles cached yet
+        foreach (var episode in episodes.Where(e => e.EmbeddedSubtitles == null || e.EmbeddedSubtitles.Count == 0))
+        {
+            await _extractionService.SyncEmbeddedSubtitles(episode);
+        }
+
+        var embeddedSubs = await _dbContext.EmbeddedSubtitles
+            .AsNoTracking()
+            .Where(e => e.EpisodeId != null && ids.Contains(e.EpisodeId.Value))
+            .ToListAsync();
+
+        return Ok(episodes.ToDictionary(
+            e => e.Id,
+            e => embeddedSubs.Where(s => s.EpisodeId == e.Id).Select(MapToResponse).ToList()));
+    }
+
     /// <summary>
     /// Extract a specific embedded subtitle from a movie
     /// </summary>
@@ -241,6 +307,69 @@ public class SubtitleExtractionController : ControllerBase
         return Ok(embeddedSubs.Select(MapToResponse).ToList());
     }
 
+    /// <summary>
+    /// Lists the distinct embedded tracks found across the episodes of a show
+    /// </summary>
+    /// <param name="id">Show ID</param>
+    /// <returns>Embedded tracks grouped by language, codec and flags</returns>
+    [HttpGet("show/{id:int}/embedded/tracks")]
+    public async Task<ActionResult<EmbeddedTrackSummaryResponse>> GetShowEmbeddedTracks(int id)
+    {
+        var summary = await _bulkExtractionService.GetTrackSummary(MediaType.Show, id);
+        return summary == null ? NotFound(new { Error = "Show not found" }) : Ok(summary);
+    }
+
+    /// <summary>
+    /// Lists the distinct embedded tracks found across the episodes of a season
+    /// </summary>
+    /// <param name="id">Season ID</param>
+    /// <returns>Embedded tracks grouped by language, codec and flags</returns>
+    [HttpGet("season/{id:int}/embedded/tracks")]
+    public async Task<ActionResult<EmbeddedTrackSummaryResponse>> GetSeasonEmbeddedTracks(int id)
+    {
+        var summary = await _bulkExtractionService.GetTrackSummary(MediaType.Season, id);
+        return summary == null ? NotFound(new { Error = "Season not found" }) : Ok(summary);
+    }
+
+    /// <summary>
+    /// Starts extracting the matching embedded tracks from every episode of a show or season.
+    /// Progress is reported through the BulkExtractionProgress event of the JobProgress hub.
+    /// </summary>
+    /// <param name="request">The show or season, matching rules and whether to queue translations</param>
+    /// <returns>The ID of the background job</returns>
+    /// <response code="200">Returns the job ID</response>
+    /// <response code="400">When no rules are given or the media type is not Show or Season</response>
+    [HttpPost("embedded/extract")]
+    public ActionResult StartBulkExtraction([FromBody] BulkExtractionRequest request)
+    {
+        if (request.MediaType != MediaType.Show && request.MediaType != MediaType.Season)
+        {
+            return BadRequest(new { Error = "Invalid media type" });
+        }
+
+        if (request.Rules.Count == 0)
+        {
+            return BadRequest(new { Error = "At least one rule is required" });
+        }
+
+        var jobId = _bulkExtractionService.StartExtraction(request);
+        return Ok(new { jobId });
+    }
+
+    /// <summary>
+    /// Gets the progress of the most recent bulk extraction job.
+    /// </summary>
+    [HttpGet("embedded/extract/status")]
+    public ActionResult GetBulkExtractionStatus()
+    {
+        var current = Jobs.BulkExtractionStats.Current;
+        if (current == null)
+        {
+            return Ok(new { isRunning = false });
+        }
+        return Ok(current);
+    }
+
     private async Task<ActionResult<ExtractSubtitleResponse>> ExtractAndUpdateAsync(
         EmbeddedSubtitle embeddedSub,
         string mediaPath,
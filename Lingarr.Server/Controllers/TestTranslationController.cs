@@ -155,6 +155,7 @@ public class TestTranslationController : ControllerBase
                     DisplayTitle = displayTitle,
                     MediaType = MediaType.Episode,
                     MediaId = episode.Id,
+                    ShowId = episode.Season.ShowId,
                     Subtitles = subtitles
                 });
 
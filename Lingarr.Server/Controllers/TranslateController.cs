@@ -1,11 +1,9 @@
 ﻿using System.Text.Json;
 using Lingarr.Core.Configuration;
-using Lingarr.Core.Data;
-using Lingarr.Core.Enum;
 using Microsoft.AspNetCore.Mvc;
-using Microsoft.EntityFrameworkCore;
 using Lingarr.Server.Models.FileSystem;
 using Lingarr.Server.Interfaces.Services;
+using Lingarr.Server.Interfaces.Services.Subtitle;
 using Lingarr.Server.Interfaces.Services.Translation;
 using Lingarr.Server.Models;
 using Lingarr.Server.Models.Api;
@@ -21,23 +19,23 @@ public class TranslateController : ControllerBase
 {
     private readonly ITranslationServiceFactory _translationServiceFactory;
     private readonly ITranslationRequestService _translationRequestService;
-    private readonly IMediaSubtitleProcessor _mediaSubtitleProcessor;
-    private readonly LingarrDbContext _dbContext;
+    private readonly IMediaService _mediaService;
+    private readonly ISubtitleReviewService _reviewService;
     private readonly ISettingService _settings;
     private readonly ILogger<TranslateController> _logger;
 
     public TranslateController(
         ITranslationServiceFactory translationServiceFactory,
         ITranslationRequestService translationRequestService,
-        IMediaSubtitleProcessor mediaSubtitleProcessor,
-        LingarrDbContext dbContext,
+        IMediaService mediaService,
+        ISubtitleReviewService reviewService,
         ISettingService settings,
         ILogger<TranslateController> logger)
     {
         _translationServiceFactory = translationServiceFactory;
         _translationRequestService = translationRequestService;
-        _mediaSubtitleProcessor = mediaSubtitleProcessor;
-        _dbContext = dbContext;
+        _mediaService = mediaService;
+        _reviewService = reviewService;
         _settings = settings;
         _logger = logger;
     }
@@ -104,6 +102,41 @@ public class TranslateController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Translates a single source cue again with the configured translation service.
+    /// The translation is returned for review and is not written to the subtitle file.
+    /// </summary>
+    /// <param name="request">The source subtitle path, cue position and languages</param>
+    /// <param name="cancellationToken">Token to cancel the translation operation</param>
+    /// <response code="200">Returns the translated text</response>
+    /// <response code="404">If the cue does not exist or the source file is not a subtitle of indexed media</response>
+    /// <response code="500">If the translation service failed</response>
+    [HttpPost("cue")]
+    public async Task<ActionResult<TranslationResponse>> RetranslateCue(
+        [FromBody] SubtitleCueRetranslateRequest request,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            var translated = await _reviewService.RetranslateCue(
+                request.SourcePath,
+                request.SourcePosition,
+                request.SourceLanguage,
+                request.TargetLanguage,
+                cancellationToken);
+            if (translated == null)
+            {
+                return NotFound();
+            }
+
+            return Ok(new TranslationResponse { TranslatedText = translated });
+        }
+        catch (Exception ex)
+        {
+            return StatusCode(500, new { Error = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Retrieves a list of available source languages and their supported target languages.
     /// </summary>
@@ -161,71 +194,10 @@ public class TranslateController : ControllerBase
                 "TranslateMedia request received: MediaId={MediaId}, MediaType={MediaType}",
                 request.MediaId, request.MediaType);
                 
-            var translationsQueued = 0;
-            
-            switch (request.MediaType)
+            var translationsQueued = await _mediaService.TranslateMedia(request.MediaType, request.MediaId);
+            if (translationsQueued == null)
             {
-                case MediaType.Movie:
-                    var movie = await _dbContext.Movies.FindAsync(request.MediaId);
-                    if (movie == null)
-                        return NotFound(new TranslateMediaResponse { Message = "Movie not found" });
-                    _logger.LogInformation("Processing movie: {Title}, Path: {Path}", movie.Title, movie.Path);
-                    translationsQueued = await _mediaSubtitleProcessor.ProcessMediaForceAsync(movie, MediaType.Movie, forceProcess: true, forcePriority: true);
-                    _logger.LogInformation("Movie {Title} queued {Count} translations", movie.Title, translationsQueued);
-                    break;
-                    
-                case MediaType.Episode:
-                    var episode = await _dbContext.Episodes.FindAsync(request.MediaId);
-                    if (episode == null)
-                        return NotFound(new TranslateMediaResponse { Message = "Episode not found" });
-                    translationsQueued = await _mediaSubtitleProcessor.ProcessMediaForceAsync(episode, MediaType.Episode, forceProcess: true, forcePriority: true);
-                    break;
-                    
-                case MediaType.Season:
-                    var season = await _dbContext.Seasons
-                        .Include(s => s.Episodes)
-                        .FirstOrDefaultAsync(s => s.Id == request.MediaId);
-                    if (season == null)
-                        return NotFound(new TranslateMediaResponse { Message = "Season not found" });
-                    foreach (var ep in season.Episodes.Where(e => !e.ExcludeFromTranslation))
-                    {
-                        translationsQueued += await _mediaSubtitleProcessor.ProcessMediaForceAsync(ep, MediaType.Episode, forceProcess: true, forcePriority: true);
-                    }
-                    break;
-                    
-                case MediaType.Show:
-                    var show = await _dbContext.Shows
-                        .Include(s => s.Seasons)
-                        .ThenInclude(s => s.Episodes)
-                        .FirstOrDefaultAsync(s => s.Id == request.MediaId);
-                    if (show == null)
-                        return NotFound(new TranslateMediaResponse { Message = "Show not found" });
-                    _logger.LogInformation("Processing show: {Title} with {SeasonCount} seasons", 
-                        show.Title, show.Seasons.Count);
-                    var totalEpisodes = 0;
-                    var excludedEpisodes = 0;
-                    foreach (var s in show.Seasons.Where(s => !s.ExcludeFromTranslation))
-                    {
-                        foreach (var ep in s.Episodes.Where(e => !e.ExcludeFromTranslation))
-                        {
-                            totalEpisodes++;
-                            var epCount = await _mediaSubtitleProcessor.ProcessMediaForceAsync(ep, MediaType.Episode, forceProcess: true, forcePriority: true);
-                            translationsQueued += epCount;
-                            if (epCount == 0)
-                            {
-                                _logger.LogDebug("Episode S{Season}E{Episode} ({Title}) queued 0 translations",
-                                    s.SeasonNumber, ep.EpisodeNumber, ep.Title);
-                            }
-                        }
-                        excludedEpisodes += s.Episodes.Count(e => e.ExcludeFromTranslation);
-                    }
-                    _logger.LogInformation(
-                        "Show {Title}: processed {Total} episodes, {Excluded} excluded, queued {Count} translations",
-                        show.Title, totalEpisodes, excludedEpisodes, translationsQueued);
-                    break;
-                    
-                default:
-                    return BadRequest(new TranslateMediaResponse { Message = "Invalid media type" });
+                return NotFound(new TranslateMediaResponse { Message = $"{request.MediaType} not found" });
             }
 
             var message = translationsQueued > 0 
@@ -234,10 +206,14 @@ public class TranslateController : ControllerBase
                 
             return Ok(new TranslateMediaResponse 
             { 
-                TranslationsQueued = translationsQueued,
+                TranslationsQueued = translationsQueued.Value,
                 Message = message
             });
         }
+        catch (ArgumentOutOfRangeException)
+        {
+            return BadRequest(new TranslateMediaResponse { Message = "Invalid media type" });
+        }
         catch (Exception ex)
         {
             _logger.LogError(ex, "Error translating media {MediaId} of type {MediaType}", request.MediaId, request.MediaType);
@@ -1,3 +1,4 @@
+using System.Globalization;
 using Lingarr.Core.Entities;
 using Lingarr.Server.Interfaces.Services;
 using Lingarr.Server.Models;
@@ -31,6 +32,24 @@ public class TranslationRequestController : ControllerBase
         return Ok(activeCount);
     }
 
+    /// <summary>
+    /// Retrieves a single translation request
+    /// </summary>
+    /// <param name="requestId">The ID of the translation request</param>
+    /// <response code="200">Returns the translation request</response>
+    /// <response code="404">If the translation request was not found</response>
+    [HttpGet("{requestId:int}")]
+    public async Task<ActionResult<TranslationRequest>> GetTranslationRequest(int requestId)
+    {
+        var translationRequest = await _translationRequestService.GetTranslationRequest(requestId);
+        if (translationRequest == null)
+        {
+            return NotFound();
+        }
+
+        return Ok(translationRequest);
+    }
+
     /// <summary>
     /// Gets all translation requests with Failed status
     /// </summary>
@@ -44,6 +63,50 @@ public class TranslationRequestController : ControllerBase
         return Ok(requests);
     }
 
+    /// <summary>
+    /// Gets the rolling throughput of recently completed translation requests
+    /// </summary>
+    /// <response code="200">Returns the throughput per service and the current queue size</response>
+    /// <response code="500">If there was an error calculating the throughput</response>
+    /// <returns>ActionResult containing the translation throughput</returns>
+    [HttpGet("throughput")]
+    public async Task<ActionResult<TranslationThroughputResponse>> GetThroughput()
+    {
+        var throughput = await _translationRequestService.GetThroughput();
+        return Ok(throughput);
+    }
+
+    /// <summary>
+    /// Gets the paused state of the translation queue
+    /// </summary>
+    /// <response code="200">Returns whether the queue and which translation services are paused</response>
+    /// <response code="500">If there was an error retrieving the paused state</response>
+    /// <returns>ActionResult containing the paused state of the queue</returns>
+    [HttpGet("pause")]
+    public async Task<ActionResult<TranslationQueuePauseState>> GetQueuePauseState()
+    {
+        var state = await _translationRequestService.GetQueuePauseState();
+        return Ok(state);
+    }
+
+    /// <summary>
+    /// Pauses or resumes the translation queue, or a single translation service
+    /// </summary>
+    /// <param name="request">Whether to pause, which service to pause and whether to interrupt in-progress requests</param>
+    /// <response code="200">Returns the updated paused state</response>
+    /// <response code="500">If there was an error updating the paused state</response>
+    /// <returns>ActionResult containing the updated paused state of the queue</returns>
+    [HttpPost("pause")]
+    public async Task<ActionResult<TranslationQueuePauseState>> SetQueuePaused(
+        [FromBody] TranslationQueuePauseRequest request)
+    {
+        var state = await _translationRequestService.SetQueuePaused(
+            request.Paused,
+            request.ServiceType,
+            request.InterruptInProgress);
+        return Ok(state);
+    }
+
     /// <summary>
     /// Gets all translation requests with InProgress status
     /// </summary>
@@ -65,6 +128,7 @@ public class TranslationRequestController : ControllerBase
     /// <param name="ascending">Sort direction; true for ascending, false for descending</param>
     /// <param name="pageSize">Number of items per page</param>
     /// <param name="pageNumber">Page number to retrieve</param>
+    /// <param name="filter">Optional status, language, media type, priority and date filters</param>
     /// <response code="200">Returns the paginated list of translation requests</response>
     /// <response code="500">If there was an error checking for updates</response>
     /// <returns>ActionResult containing the paginated list of translation requests</returns>
@@ -72,6 +136,7 @@ public class TranslationRequestController : ControllerBase
     public async Task<ActionResult<PagedResult<TranslationRequest>>> GetTranslationRequests(
         string? searchQuery,
         string? orderBy,
+        [FromQuery] TranslationRequestFilter filter,
         bool ascending = true,
         int pageSize = 20,
         int pageNumber = 1)
@@ -81,11 +146,97 @@ public class TranslationRequestController : ControllerBase
             orderBy,
             ascending,
             pageNumber,
-            pageSize);
+            pageSize,
+            filter);
 
         return Ok(value);
     }
 
+    /// <summary>
+    /// Downloads every translation request matching the search and filter as CSV or JSON.
+    /// The response is streamed, so large exports are never held in memory.
+    /// </summary>
+    /// <param name="searchQuery">Optional search term to filter requests</param>
+    /// <param name="orderBy">Property name to sort the results by</param>
+    /// <param name="filter">Optional status, language, media type, priority and date filters</param>
+    /// <param name="ascending">Sort direction; true for ascending, false for descending</param>
+    /// <param name="format">Export format, either "csv" or "json"</param>
+    /// <param name="includeLogs">Whether to include the log entries of each request</param>
+    /// <param name="cancellationToken">Token that is cancelled when the client disconnects</param>
+    /// <response code="200">Returns the export file</response>
+    /// <response code="400">If the format is not supported</response>
+    [HttpGet("export")]
+    public async Task<IActionResult> ExportTranslationRequests(
+        string? searchQuery,
+        string? orderBy,
+        [FromQuery] TranslationRequestFilter filter,
+        bool ascending = true,
+        string format = "csv",
+        bool includeLogs = false,
+        CancellationToken cancellationToken = default)
+    {
+        format = format.ToLowerInvariant();
+        if (format != "csv" && format != "json")
+        {
+            return BadRequest($"Unsupported export format '{format}'");
+        }
+
+        var rows = _translationRequestService.ExportTranslationRequests(
+            searchQuery,
+            orderBy,
+            ascending,
+            filter,
+            includeLogs,
+            cancellationToken);
+        var fileName = $"lingarr-translations-{DateTime.UtcNow:yyyyMMdd-HHmmss}.{format}";
+        Response.Headers.ContentDisposition = $"attachment; filename=\"{fileName}\"";
+
+        if (format == "json")
+        {
+            // MVC serializes async enumerables item by item using the configured JSON options
+            return Ok(rows);
+        }
+
+        Response.ContentType = "text/csv; charset=utf-8";
+        var columns = new List<string>
+        {
+            "Id", "Title", "SourceLanguage", "TargetLanguage", "MediaType", "Status",
+            "ServiceType", "Model", "CreatedAt", "StartedAt", "CompletedAt"
+        };
+        if (includeLogs)
+        {
+            columns.Add("Logs");
+        }
+        await Response.WriteAsync(string.Join(",", columns) + "\r\n", cancellationToken);
+
+        await foreach (var row in rows)
+        {
+            var values = new List<string?>
+            {
+                row.Id.ToString(),
+                row.Title,
+                row.SourceLanguage,
+                row.TargetLanguage,
+                row.MediaType.ToString(),
+                row.Status.ToString(),
+                row.ServiceType,
+                row.Model,
+                FormatCsvDate(row.CreatedAt),
+                FormatCsvDate(row.StartedAt),
+                FormatCsvDate(row.CompletedAt)
+            };
+            if (includeLogs)
+            {
+                values.Add(string.Join("\n", (row.Logs ?? [])
+                    .Select(log => $"{FormatCsvDate(log.CreatedAt)} [{log.Level}] {log.Message}")));
+            }
+
+            await Response.WriteAsync(string.Join(",", values.Select(EscapeCsv)) + "\r\n", cancellationToken);
+        }
+
+        return new EmptyResult();
+    }
+
     /// <summary>
     /// Retrieves all persisted log entries for a specific translation request.
     /// </summary>
@@ -152,6 +303,37 @@ public class TranslationRequestController : ControllerBase
         return NotFound(translationRequest);
     }
 
+    /// <summary>
+    /// Applies one action (retry, cancel, remove or set priority) to several translation requests at once
+    /// </summary>
+    /// <param name="request">The action and the IDs of the translation requests to apply it to</param>
+    /// <response code="200">Returns the outcome for each translation request</response>
+    /// <response code="400">If no translation request IDs were supplied</response>
+    /// <response code="500">If there was an error while applying the action</response>
+    /// <returns>ActionResult containing success and failure counts and the per-request results</returns>
+    [HttpPost("bulk")]
+    public async Task<ActionResult<BulkTranslationActionResponse>> BulkAction(
+        [FromBody] BulkTranslationActionRequest request)
+    {
+        if (request.Ids.Count == 0)
+        {
+            return BadRequest("No translation requests selected");
+        }
+
+        var results = await _translationRequestService.ApplyBulkAction(
+            request.Action,
+            request.Ids,
+            request.IsPriority,
+            request.Lane);
+
+        return Ok(new BulkTranslationActionResponse
+        {
+            Succeeded = results.Count(result => result.Success),
+            Failed = results.Count(result => !result.Success),
+            Results = results
+        });
+    }
+
     /// <summary>
     /// Retries all translation requests with Failed status
     /// </summary>
@@ -187,6 +369,49 @@ public class TranslationRequestController : ControllerBase
         return NotFound(newTranslationRequest);
     }
 
+    /// <summary>
+    /// Translates a finished request again using the current translation settings.
+    /// The original request is kept in the translation history.
+    /// </summary>
+    /// <param name="requeueRequest">The finished translation request to translate again</param>
+    /// <response code="200">Returns a message containing the new translation request id</response>
+    /// <response code="404">If the translation request was not found</response>
+    /// <response code="500">If there was an error while queueing the request</response>
+    [HttpPost("requeue")]
+    public async Task<ActionResult<string>> RequeueTranslationRequest([FromBody] TranslationRequest requeueRequest)
+    {
+        var result = await _translationRequestService.RequeueTranslationRequest(requeueRequest);
+        if (result != null)
+        {
+            return Ok(result);
+        }
+
+        return NotFound();
+    }
+
+    /// <summary>
+    /// Moves a pending translation request to another position or lane in the queue
+    /// </summary>
+    /// <param name="request">The request to move, and the lane or request to place it next to</param>
+    /// <response code="200">Returns a message describing the new position</response>
+    /// <response code="404">If the translation request was not found or is no longer pending</response>
+    /// <response code="500">If there was an error while reordering the queue</response>
+    [HttpPost("move")]
+    public async Task<ActionResult<string>> MoveTranslationRequest([FromBody] TranslationRequestMoveRequest request)
+    {
+        var result = await _translationRequestService.MoveTranslationRequest(
+            request.Id,
+            request.Lane,
+            request.TargetId,
+            request.PlaceAfter);
+        if (result != null)
+        {
+            return Ok(result);
+        }
+
+        return NotFound();
+    }
+
     /// <summary>
     /// Re-enqueues queued translation requests so they are placed into the correct Hangfire queue
 	    /// based on current priority flags.
@@ -248,5 +473,27 @@ public class TranslationRequestController : ControllerBase
             Message = message
         });
     }
-}
 
+    private static string? FormatCsvDate(DateTime? value)
+    {
+        return value?.ToString("o", CultureInfo.InvariantCulture);
+    }
+
+    private static string EscapeCsv(string? value)
+    {
+        if (string.IsNullOrEmpty(value))
+        {
+            return "";
+        }
+
+        // Spreadsheets run cells starting with these characters as formulas
+        if (value[0] is '=' or '+' or '-' or '@')
+        {
+            value = "'" + value;
+        }
+
+        return value.IndexOfAny([',', '"', '\r', '\n']) >= 0
+            ? $"\"{value.Replace("\"", "\"\"")}\""
+            : value;
+    }
+}
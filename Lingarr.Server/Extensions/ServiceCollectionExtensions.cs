@@ -104,6 +104,7 @@ public static class ServiceCollectionExtensions
         builder.Services.AddTransient(typeof(Lazy<>), typeof(LazyServiceWrapper<>));
         
         builder.Services.AddScoped<ISettingService, SettingService>();
+        builder.Services.AddScoped<ISettingHistoryService, SettingHistoryService>();
         builder.Services.AddSingleton<SettingChangedListener>();
 
         builder.Services.AddHostedService<ScheduleInitializationService>();
@@ -112,6 +113,8 @@ public static class ServiceCollectionExtensions
         builder.Services.AddScoped<IImageService, ImageService>();
         builder.Services.AddScoped<IIntegrationService, IntegrationService>();
         builder.Services.AddScoped<IMediaService, MediaService>();
+        builder.Services.AddScoped<IMediaCoverageService, MediaCoverageService>();
+        builder.Services.AddScoped<IMediaOverrideService, MediaOverrideService>();
         builder.Services.AddScoped<IProgressService, ProgressService>();
         builder.Services.AddScoped<IRadarrService, RadarrService>();
         builder.Services.AddScoped<ISonarrService, SonarrService>();
@@ -127,7 +130,9 @@ public static class ServiceCollectionExtensions
         builder.Services.AddScoped<ISubtitleWriter, SsaWriter>();
         builder.Services.AddScoped<ISubtitleWriter, SsaWriter>();
         builder.Services.AddScoped<ISubtitleExtractionService, SubtitleExtractionService>();
+        builder.Services.AddScoped<IBulkExtractionService, BulkExtractionService>();
         builder.Services.AddScoped<ISubtitleIntegrityService, SubtitleIntegrityService>();
+        builder.Services.AddScoped<ISubtitleReviewService, SubtitleReviewService>();
         builder.Services.AddScoped<IOrphanSubtitleCleanupService, OrphanSubtitleCleanupService>();
 
         // Register translate services
@@ -0,0 +1,25 @@
+using Lingarr.Core.Entities;
+
+namespace Lingarr.Server.Extensions;
+
+public static class TranslationRequestQueryExtensions
+{
+    /// <summary>
+    /// Orders translation requests the way the worker service picks them up: by lane, then priority
+    /// requests first, then by the manually assigned queue position and finally oldest first.
+    /// Priority comes before the position so priority requests created after a reorder are not
+    /// placed behind the manually ordered backlog.
+    /// </summary>
+    /// <param name="query">The translation requests to order.</param>
+    /// <returns>The requests in processing order.</returns>
+    public static IOrderedQueryable<TranslationRequest> OrderByQueue(this IQueryable<TranslationRequest> query)
+    {
+        return query
+            .OrderBy(r => r.Lane)
+            .ThenByDescending(r => r.IsPriority)
+            .ThenBy(r => r.QueuePosition == null)
+            .ThenBy(r => r.QueuePosition)
+            .ThenBy(r => r.CreatedAt)
+            .ThenBy(r => r.Id);
+    }
+}
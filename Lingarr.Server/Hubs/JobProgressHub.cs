@@ -19,9 +19,9 @@ public class JobProgressHub : Hub
         await Clients.Caller.SendAsync("LeftGroup", group);
     }
 
-    public async Task UpdateJobProgress(string jobId, int progress)
+    public async Task UpdateJobProgress(JobProgressUpdate progress)
     {
-        await Clients.Group("JobProgress").SendAsync("JobProgressUpdated", jobId, progress);
+        await Clients.Group("JobProgress").SendAsync("JobProgressUpdated", progress);
     }
 
     public async Task UpdateJobState(string jobId, string state)
@@ -0,0 +1,30 @@
+using Lingarr.Core.Enum;
+using Lingarr.Server.Models.Api;
+
+namespace Lingarr.Server.Interfaces.Services;
+
+/// <summary>
+/// Reports which configured target languages are covered by subtitles across the seasons of a show.
+/// </summary>
+public interface IMediaCoverageService
+{
+    /// <summary>
+    /// Builds the season by target language coverage matrix of a show, including the episodes of each season.
+    /// </summary>
+    /// <param name="showId">The unique identifier of the show.</param>
+    /// <returns>A task result containing the coverage, or null if the show was not found.</returns>
+    Task<ShowCoverageResponse?> GetShowCoverage(int showId);
+
+    /// <summary>
+    /// Queues translations into one target language for the episodes of a season, or a single episode,
+    /// that do not have a subtitle in that language yet. Excluded episodes are skipped.
+    /// </summary>
+    /// <param name="mediaType">Either Season or Episode.</param>
+    /// <param name="id">The unique identifier of the season or episode.</param>
+    /// <param name="language">The target language code.</param>
+    /// <returns>
+    /// A task result containing the number of translations queued, or null if the season or episode was not found.
+    /// </returns>
+    /// <exception cref="ArgumentOutOfRangeException">Thrown when the media type is not Season or Episode.</exception>
+    Task<int?> TranslateMissing(MediaType mediaType, int id, string language);
+}
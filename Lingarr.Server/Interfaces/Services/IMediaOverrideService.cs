@@ -0,0 +1,46 @@
+using Lingarr.Core.Enum;
+using Lingarr.Core.Interfaces;
+using Lingarr.Server.Models.Api;
+
+namespace Lingarr.Server.Interfaces.Services;
+
+/// <summary>
+/// Manages the translation settings that movies and shows override, episodes use the overrides of their show.
+/// </summary>
+public interface IMediaOverrideService
+{
+    /// <summary>
+    /// Applies the overrides of a media item to the settings of the current scope.
+    /// </summary>
+    /// <param name="media">The movie or episode being processed.</param>
+    /// <param name="mediaType">The type of the media item.</param>
+    /// <returns>A handle that restores the global settings when disposed.</returns>
+    Task<IDisposable> ApplyOverrides(IMedia media, MediaType mediaType);
+
+    /// <summary>
+    /// Applies the overrides of a media item to the settings of the current scope.
+    /// </summary>
+    /// <param name="mediaType">The type of the media item.</param>
+    /// <param name="mediaId">The unique identifier of the movie or episode, null applies no overrides.</param>
+    /// <returns>A handle that restores the global settings when disposed.</returns>
+    Task<IDisposable> ApplyOverrides(MediaType mediaType, int? mediaId);
+
+    /// <summary>
+    /// Retrieves the overrides of a movie or show together with the inherited global values.
+    /// </summary>
+    /// <param name="mediaType">Either Movie or Show.</param>
+    /// <param name="id">The unique identifier of the movie or show.</param>
+    /// <returns>A task result containing the overrides, or null if the media was not found.</returns>
+    /// <exception cref="ArgumentOutOfRangeException">Thrown when the media type is not Movie or Show.</exception>
+    Task<MediaOverrideResponse?> GetOverrides(MediaType mediaType, int id);
+
+    /// <summary>
+    /// Replaces the overrides of a movie or show and marks its translation state as stale.
+    /// </summary>
+    /// <param name="mediaType">Either Movie or Show.</param>
+    /// <param name="id">The unique identifier of the movie or show.</param>
+    /// <param name="overrides">The new overrides, null or empty values inherit the global setting.</param>
+    /// <returns>A task result containing the updated overrides, or null if the media was not found.</returns>
+    /// <exception cref="ArgumentOutOfRangeException">Thrown when the media type is not Movie or Show.</exception>
+    Task<MediaOverrideResponse?> UpdateOverrides(MediaType mediaType, int id, MediaOverrides overrides);
+}
@@ -18,6 +18,7 @@ public interface IMediaService
     /// <param name="ascending">Specifies whether the sorting should be in ascending order. If false, results are sorted in descending order.</param>
     /// <param name="pageNumber">The number of the page to retrieve. Must be greater than or equal to 1.</param>
     /// <param name="pageSize">The number of items per page. Must be greater than or equal to 1.</param>
+    /// <param name="filter">Optional translation state, language, exclusion, priority and date filters.</param>
     /// <returns>
     /// A task result containing a <see cref="PagedResult{MovieResponse}"/> a list of movies, 
     /// along with the total count of movies that match the criteria.
@@ -27,7 +28,8 @@ public interface IMediaService
         string? orderBy,
         bool ascending,
         int pageNumber,
-        int pageSize);
+        int pageSize,
+        MediaFilter? filter = null);
 
     /// <summary>
     /// Retrieves a paginated and optionally filtered and ordered list of shows asynchronously.
@@ -37,6 +39,7 @@ public interface IMediaService
     /// <param name="ascending">Specifies whether the sorting should be in ascending order. If false, results are sorted in descending order.</param>
     /// <param name="pageNumber">The number of the page to retrieve. Must be greater than or equal to 1.</param>
     /// <param name="pageSize">The number of items per page. Must be greater than or equal to 1.</param>
+    /// <param name="filter">Optional translation state, language, exclusion, priority and date filters.</param>
     /// <returns>
     /// A task result containing a <see cref="PagedResult{Show}"/> a list of shows, 
     /// along with the total count of shows that match the criteria.
@@ -46,7 +49,18 @@ public interface IMediaService
         string? orderBy,
         bool ascending,
         int pageNumber,
-        int pageSize);
+        int pageSize,
+        MediaFilter? filter = null);
+
+    /// <summary>
+    /// Retrieves the IDs of all movies or shows matching a search query and filter, used to select every
+    /// item of a filtered list at once.
+    /// </summary>
+    /// <param name="mediaType">Either Movie or Show.</param>
+    /// <param name="searchQuery">An optional search query to filter by title.</param>
+    /// <param name="filter">Optional translation state, language, exclusion, priority and date filters.</param>
+    /// <returns>A task result containing the matching IDs.</returns>
+    Task<List<int>> GetMediaIds(MediaType mediaType, string? searchQuery, MediaFilter? filter = null);
 
     /// <summary>
     /// Retrieves a specific show by its ID, including its seasons and episodes.
@@ -57,6 +71,24 @@ public interface IMediaService
     /// </returns>
     Task<Show?> GetShow(int id);
 
+    /// <summary>
+    /// Retrieves a specific movie by its ID, including its images and external subtitles.
+    /// </summary>
+    /// <param name="id">The unique identifier of the movie.</param>
+    /// <returns>
+    /// A task result containing the movie if found, or null if not found.
+    /// </returns>
+    Task<MovieResponse?> GetMovie(int id);
+
+    /// <summary>
+    /// Retrieves a specific episode by its ID, including its external subtitles and the show it belongs to.
+    /// </summary>
+    /// <param name="id">The unique identifier of the episode.</param>
+    /// <returns>
+    /// A task result containing the episode if found, or null if not found.
+    /// </returns>
+    Task<EpisodeResponse?> GetEpisode(int id);
+
     /// <summary>
     /// Retrieves a movie id (lingarr's id) from the database with a Radarr movie id.
     /// If it is not in the database, it will try to sync the Movie with Radarr
@@ -112,6 +144,7 @@ public interface IMediaService
     Task<bool> TogglePriority(MediaType mediaType, int id);
     /// <summary>
     /// Performs an integrity check on the subtitles of a media item without re-translating if valid.
+    /// Seasons and shows check each of their episodes that is not excluded.
     /// </summary>
     /// <param name="mediaType">The type of media (Movie, Show, Season, or Episode).</param>
     /// <param name="id">The unique identifier of the media item.</param>
@@ -119,6 +152,33 @@ public interface IMediaService
     /// A task result containing an integer indicating the number of repair translations queued.
     /// </returns>
     Task<int> IntegrityCheck(MediaType mediaType, int id);
+
+    /// <summary>
+    /// Queues translations for a media item. Seasons and shows queue each of their episodes that is not excluded.
+    /// </summary>
+    /// <param name="mediaType">The type of media (Movie, Show, Season, or Episode).</param>
+    /// <param name="id">The unique identifier of the media item.</param>
+    /// <returns>
+    /// A task result containing the number of translations queued, or null if the media item was not found.
+    /// </returns>
+    /// <exception cref="ArgumentOutOfRangeException">Thrown when the media type is not supported.</exception>
+    Task<int?> TranslateMedia(MediaType mediaType, int id);
+
+    /// <summary>
+    /// Applies one action to several media items of the same type.
+    /// </summary>
+    /// <param name="action">The action to apply.</param>
+    /// <param name="mediaType">The type of all media items.</param>
+    /// <param name="ids">IDs of the media items to apply the action to.</param>
+    /// <param name="isPriority">Priority value used by the SetPriority action.</param>
+    /// <param name="hours">Age threshold in hours used by the SetThreshold action.</param>
+    /// <returns>A task result containing the outcome for each media item, in the order the IDs were supplied.</returns>
+    Task<List<BulkMediaActionResult>> ApplyBulkAction(
+        BulkMediaAction action,
+        MediaType mediaType,
+        IReadOnlyCollection<int> ids,
+        bool isPriority = false,
+        int hours = 0);
     
     /// <summary>
     /// Starts a bulk integrity check for all Complete-state media items.
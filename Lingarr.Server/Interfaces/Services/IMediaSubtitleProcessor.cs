@@ -32,4 +32,21 @@ public interface IMediaSubtitleProcessor
         bool forceProcess = true, 
         bool forceTranslation = true, 
         bool forcePriority = false);
+
+    /// <summary>
+    /// Queues the translation of a media item into one target language when it is missing or fails the
+    /// integrity check. Other target languages are left alone and the media hash is not updated.
+    /// </summary>
+    /// <param name="media">The media item to process subtitles for.</param>
+    /// <param name="mediaType">The type of the media (e.g., Movie, Episode).</param>
+    /// <param name="targetLanguage">The configured target language to translate into.</param>
+    /// <param name="forcePriority">If true, forces jobs to use the priority queue regardless of media priority status.</param>
+    /// <returns>
+    /// The number of translation requests that were queued.
+    /// </returns>
+    Task<int> ProcessMediaForLanguageAsync(
+        IMedia media,
+        MediaType mediaType,
+        string targetLanguage,
+        bool forcePriority = false);
 }
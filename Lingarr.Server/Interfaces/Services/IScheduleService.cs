@@ -1,4 +1,5 @@
-﻿using Lingarr.Server.Models;
+﻿using Lingarr.Core.Entities;
+using Lingarr.Server.Models;
 
 namespace Lingarr.Server.Interfaces.Services;
 
@@ -18,13 +19,42 @@ public interface IScheduleService
     /// </remarks>
     /// <returns>A task that represents the asynchronous initialization operation.</returns>
     Task Initialize();
-    
-    
+
+    /// <summary>
+    /// Registers a recurring job with its configured schedule, or removes it when the job is disabled.
+    /// </summary>
+    /// <param name="jobId">The ID of the recurring job</param>
+    Task ConfigureRecurringJob(string jobId);
+
     /// <summary>
-    /// Gets a list of recurring jobs with their current status.
+    /// Enables or disables a recurring job. A disabled job keeps its schedule but is not triggered.
+    /// </summary>
+    /// <param name="jobId">The ID of the recurring job</param>
+    /// <param name="enabled">Whether the job should run on its schedule</param>
+    /// <exception cref="ArgumentException">Thrown when the job does not have a configurable schedule</exception>
+    Task SetJobEnabled(string jobId, bool enabled);
+
+    /// <summary>
+    /// Stores a new cron expression for a recurring job and reschedules it.
+    /// </summary>
+    /// <param name="jobId">The ID of the recurring job</param>
+    /// <param name="cron">The new cron expression</param>
+    /// <exception cref="ArgumentException">Thrown when the job is unknown or the cron expression is invalid</exception>
+    Task UpdateJobSchedule(string jobId, string cron);
+
+    /// <summary>
+    /// Gets the most recent runs of a job, newest first.
+    /// </summary>
+    /// <param name="jobId">The ID of the recurring job</param>
+    /// <param name="limit">The maximum number of runs to return</param>
+    /// <returns>A list of job runs</returns>
+    Task<List<JobRun>> GetJobRuns(string jobId, int limit);
+
+    /// <summary>
+    /// Gets a list of recurring jobs with their current status, including disabled jobs.
     /// </summary>
     /// <returns>A list of recurring job statuses</returns>
-    List<RecurringJobStatus> GetRecurringJobs();
+    Task<List<RecurringJobStatus>> GetRecurringJobs();
     
     /// <summary>
     /// Gets the current state of a specific job.
@@ -34,9 +64,18 @@ public interface IScheduleService
     string GetJobState(string jobId);
     
     /// <summary>
-    /// Updates the state of a job and notifies clients.
+    /// Updates the state of a job, records it in the run history and notifies clients.
     /// </summary>
     /// <param name="jobId">The ID of the job</param>
     /// <param name="state">The current state</param>
-    Task UpdateJobState(string jobId, string state);
+    /// <param name="message">An optional result message, such as the error of a failed run</param>
+    Task UpdateJobState(string jobId, string state, string? message = null);
+
+    /// <summary>
+    /// Reports the progress of a running job and notifies clients.
+    /// </summary>
+    /// <param name="jobId">The ID of the job</param>
+    /// <param name="itemsProcessed">The number of items processed so far</param>
+    /// <param name="totalItems">The total number of items the job will process</param>
+    Task UpdateJobProgress(string jobId, int itemsProcessed, int totalItems);
 }
\ No newline at end of file
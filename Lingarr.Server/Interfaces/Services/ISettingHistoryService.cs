@@ -0,0 +1,29 @@
+using Lingarr.Server.Models;
+using Lingarr.Server.Models.Api;
+
+namespace Lingarr.Server.Interfaces.Services;
+
+/// <summary>
+/// Provides access to the recorded changes of settings and reverts them.
+/// </summary>
+public interface ISettingHistoryService
+{
+    /// <summary>
+    /// Retrieves a paginated list of setting changes, newest first.
+    /// </summary>
+    /// <param name="key">Optional setting key to filter on</param>
+    /// <param name="pageNumber">Page number for pagination (1-based)</param>
+    /// <param name="pageSize">Number of items per page</param>
+    /// <returns>A PagedResult containing the changes with the values of API keys redacted</returns>
+    Task<PagedResult<SettingChangeResponse>> GetHistory(string? key, int pageNumber, int pageSize);
+
+    /// <summary>
+    /// Restores the value a setting had before the given change. The revert is recorded as a new change.
+    /// </summary>
+    /// <param name="id">The unique identifier of the change</param>
+    /// <returns>False when the change does not exist</returns>
+    /// <exception cref="InvalidOperationException">
+    /// Thrown when the setting had no value before the change, or is a secret or internal setting
+    /// </exception>
+    Task<bool> RevertChange(int id);
+}
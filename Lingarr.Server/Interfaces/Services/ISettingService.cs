@@ -54,4 +54,11 @@ public interface ISettingService
     /// <exception cref="JsonException">Thrown when the JSON is invalid or cannot be deserialized to List{T}.</exception>
     /// <exception cref="KeyNotFoundException">Thrown when the specified key does not exist in the settings.</exception>
     Task<List<T>> GetSettingAsJson<T>(string key) where T : class;
+
+    /// <summary>
+    /// Temporarily replaces setting values for this service instance, for example with the overrides of a single media item.
+    /// </summary>
+    /// <param name="overrides">The setting values that take precedence over the stored values.</param>
+    /// <returns>A handle that restores the previous values when disposed.</returns>
+    IDisposable UseOverrides(IReadOnlyDictionary<string, string> overrides);
 }
\ No newline at end of file
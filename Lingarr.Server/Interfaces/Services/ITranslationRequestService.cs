@@ -2,6 +2,7 @@
 using Lingarr.Core.Entities;
 using Lingarr.Core.Enum;
 using Lingarr.Server.Models;
+using Lingarr.Server.Models.Api;
 using Lingarr.Server.Models.Batch.Response;
 using Lingarr.Server.Models.FileSystem;
 
@@ -90,11 +91,12 @@ public interface ITranslationRequestService
     /// <summary>
     /// Retrieves a paginated list of translation requests with optional filtering and sorting.
     /// </summary>
-    /// <param name="searchQuery">Optional search term to filter requests by title</param>
-    /// <param name="orderBy">Property to sort by: "Title", "CreatedAt", or "CompletedAt"</param>
+    /// <param name="searchQuery">Optional search term matched against title, subtitle path, service and model</param>
+    /// <param name="orderBy">Property to sort by: "Title", "CreatedAt", "CompletedAt" or "Queue"</param>
     /// <param name="ascending">Sort direction</param>
     /// <param name="pageNumber">Page number for pagination (1-based)</param>
     /// <param name="pageSize">Number of items per page</param>
+    /// <param name="filter">Optional status, language, media type, priority and date filters</param>
     /// <returns>
     /// A PagedResult containing the requested translation requests and pagination information
     /// </returns>
@@ -103,7 +105,28 @@ public interface ITranslationRequestService
         string? orderBy,
         bool ascending,
         int pageNumber,
-        int pageSize);
+        int pageSize,
+        TranslationRequestFilter? filter = null);
+
+    /// <summary>
+    /// Streams every translation request matching the search and filter, in the same order as
+    /// <see cref="GetTranslationRequests"/>. The matching requests are fixed when the export starts and
+    /// read from the database in pages by id, each row holds the values at the time its page is read.
+    /// </summary>
+    /// <param name="searchQuery">Optional search term matched against title, subtitle path, service and model</param>
+    /// <param name="orderBy">Property to sort by: "Title", "CreatedAt", "CompletedAt" or "Queue"</param>
+    /// <param name="ascending">Sort direction</param>
+    /// <param name="filter">Optional status, language, media type, priority and date filters</param>
+    /// <param name="includeLogs">Whether to attach the persisted log entries of each request</param>
+    /// <param name="cancellationToken">Token to stop reading when the client disconnects</param>
+    /// <returns>The matching requests as export rows</returns>
+    IAsyncEnumerable<TranslationRequestExportRow> ExportTranslationRequests(
+        string? searchQuery,
+        string? orderBy,
+        bool ascending,
+        TranslationRequestFilter? filter,
+        bool includeLogs,
+        CancellationToken cancellationToken = default);
 
     /// <summary>
     /// Removes an existing translation request and its associated background job.
@@ -116,6 +139,22 @@ public interface ITranslationRequestService
         TranslationRequest cancelRequest
     );
 
+    /// <summary>
+    /// Applies a single action to a set of translation requests and reports the outcome per request.
+    /// Retry only applies to finished requests and remove to anything but running ones, pending requests are cancelled
+    /// before removal. Cancel, priority and lane only apply to queued or running requests.
+    /// </summary>
+    /// <param name="action">The action to apply</param>
+    /// <param name="ids">IDs of the translation requests to apply the action to</param>
+    /// <param name="isPriority">Priority value used by <see cref="BulkTranslationAction.SetPriority"/></param>
+    /// <param name="lane">Lane used by <see cref="BulkTranslationAction.SetLane"/></param>
+    /// <returns>One result per supplied ID, in the order they were supplied</returns>
+    Task<List<BulkTranslationActionResult>> ApplyBulkAction(
+        BulkTranslationAction action,
+        IReadOnlyCollection<int> ids,
+        bool isPriority = false,
+        TranslationLane lane = TranslationLane.Normal);
+
     /// <summary>
     /// Retries all translation requests with Failed status
     /// </summary>
@@ -133,6 +172,35 @@ public interface ITranslationRequestService
         TranslationRequest retryRequest
     );
 
+    /// <summary>
+    /// Queues a new translation for a finished request using the current translation settings.
+    /// The original request is kept so it remains visible in the translation history.
+    /// </summary>
+    /// <param name="requeueRequest">The finished translation request to translate again</param>
+    /// <returns>
+    /// A message indicating the result of the new translation request, or null if the request wasn't found
+    /// </returns>
+    Task<string?> RequeueTranslationRequest(
+        TranslationRequest requeueRequest
+    );
+
+    /// <summary>
+    /// Moves a pending translation request within the queue. When a target is given the request is placed
+    /// next to it, in the target's lane; otherwise it is moved to the end of the given lane.
+    /// </summary>
+    /// <param name="id">The pending translation request to move</param>
+    /// <param name="lane">The lane to move the request to when no target is given</param>
+    /// <param name="targetId">A pending translation request to place the moved request next to</param>
+    /// <param name="placeAfter">Place the request after the target instead of before it</param>
+    /// <returns>
+    /// A message describing the new position, or null if either request wasn't found or is no longer pending
+    /// </returns>
+    Task<string?> MoveTranslationRequest(
+        int id,
+        TranslationLane lane,
+        int? targetId = null,
+        bool placeAfter = false);
+
     /// <summary>
     /// Cancels an existing translation request and its associated background job.
     /// </summary>
@@ -182,6 +250,13 @@ public interface ITranslationRequestService
     /// <returns>List of log entries ordered by creation time</returns>
     Task<List<TranslationRequestLog>> GetLogsAsync(int translationRequestId);
 
+    /// <summary>
+    /// Retrieves a single translation request.
+    /// </summary>
+    /// <param name="translationRequestId">The ID of the translation request</param>
+    /// <returns>The translation request, or null if it doesn't exist</returns>
+    Task<TranslationRequest?> GetTranslationRequest(int translationRequestId);
+
     /// <summary>
     /// Retrieves all translation requests with Failed status.
     /// </summary>
@@ -193,4 +268,29 @@ public interface ITranslationRequestService
     /// </summary>
     /// <returns>List of all in-progress translation requests</returns>
     Task<List<TranslationRequest>> GetInProgressRequests();
+
+    /// <summary>
+    /// Calculates the rolling throughput of recently completed translation requests.
+    /// </summary>
+    /// <returns>Lines per minute per service, requests per hour and the current queue size</returns>
+    Task<TranslationThroughputResponse> GetThroughput();
+
+    /// <summary>
+    /// Gets the paused state of the translation queue, globally and per translation service.
+    /// </summary>
+    /// <returns>The paused state and the number of requests waiting to be resumed</returns>
+    Task<TranslationQueuePauseState> GetQueuePauseState();
+
+    /// <summary>
+    /// Pauses or resumes the translation queue. While paused, no new requests are started.
+    /// Resuming queues requests that were interrupted by the pause again.
+    /// </summary>
+    /// <param name="paused">True to pause, false to resume</param>
+    /// <param name="serviceType">Pause or resume a single translation service instead of the whole queue</param>
+    /// <param name="interruptInProgress">When pausing, stop in-progress requests instead of letting them finish</param>
+    /// <returns>The updated paused state, which is also broadcast to connected clients</returns>
+    Task<TranslationQueuePauseState> SetQueuePaused(
+        bool paused,
+        string? serviceType = null,
+        bool interruptInProgress = false);
 }
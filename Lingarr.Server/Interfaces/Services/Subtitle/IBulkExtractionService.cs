@@ -0,0 +1,39 @@
+using Lingarr.Core.Enum;
+using Lingarr.Server.Jobs;
+using Lingarr.Server.Models.Api;
+
+namespace Lingarr.Server.Interfaces.Services.Subtitle;
+
+/// <summary>
+/// Extracts embedded subtitle tracks from all episodes of a show or season at once.
+/// </summary>
+public interface IBulkExtractionService
+{
+    /// <summary>
+    /// Lists the distinct embedded tracks found across the episodes of a show or season.
+    /// </summary>
+    /// <param name="mediaType">Either Show or Season.</param>
+    /// <param name="id">The unique identifier of the show or season.</param>
+    /// <returns>A task result containing the track summary, or null if the show or season was not found.</returns>
+    /// <exception cref="ArgumentOutOfRangeException">Thrown when the media type is not Show or Season.</exception>
+    Task<EmbeddedTrackSummaryResponse?> GetTrackSummary(MediaType mediaType, int id);
+
+    /// <summary>
+    /// Enqueues a background job that extracts the matching tracks, progress is reported through the JobProgress hub.
+    /// </summary>
+    /// <param name="request">The show or season and the rules to match tracks with.</param>
+    /// <returns>The ID of the enqueued job.</returns>
+    string StartExtraction(BulkExtractionRequest request);
+
+    /// <summary>
+    /// Extracts the tracks matching the rules from every episode and optionally queues their translation.
+    /// Episodes that have not been probed yet are probed first.
+    /// </summary>
+    /// <param name="request">The show or season and the rules to match tracks with.</param>
+    /// <param name="onProgress">Invoked after every processed episode.</param>
+    /// <returns>A task result containing the final statistics.</returns>
+    /// <exception cref="ArgumentOutOfRangeException">Thrown when the media type is not Show or Season.</exception>
+    Task<BulkExtractionStats> ExtractMatching(
+        BulkExtractionRequest request,
+        Func<BulkExtractionStats, Task>? onProgress = null);
+}
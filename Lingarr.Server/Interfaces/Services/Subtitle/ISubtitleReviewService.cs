@@ -0,0 +1,64 @@
+using Lingarr.Server.Models.Api;
+
+namespace Lingarr.Server.Interfaces.Services.Subtitle;
+
+/// <summary>
+/// Service for comparing a translated subtitle with its source, cue by cue, and correcting individual cues.
+/// </summary>
+public interface ISubtitleReviewService
+{
+    /// <summary>
+    /// Loads both subtitle files and aligns their cues by timestamp. Both files have to be subtitles
+    /// located in the directory of an indexed movie or episode.
+    /// </summary>
+    /// <param name="sourcePath">Path to the source subtitle file</param>
+    /// <param name="translatedPath">Path to the translated subtitle file</param>
+    /// <param name="sourceLanguage">Language of the source subtitle, when known</param>
+    /// <param name="targetLanguage">Language of the translated subtitle, when known</param>
+    /// <returns>The aligned cues, or null when either file does not exist or is not a subtitle of indexed media</returns>
+    Task<SubtitleReviewResponse?> GetReview(
+        string sourcePath,
+        string translatedPath,
+        string? sourceLanguage = null,
+        string? targetLanguage = null);
+
+    /// <summary>
+    /// Loads the source and translated subtitle of a completed translation request.
+    /// </summary>
+    /// <param name="translationRequestId">The ID of the translation request</param>
+    /// <returns>The aligned cues, or null when the request or either file could not be found</returns>
+    Task<SubtitleReviewResponse?> GetReviewForRequest(int translationRequestId);
+
+    /// <summary>
+    /// Replaces the text of a single cue in a translated subtitle and records the change so it can be undone.
+    /// </summary>
+    /// <param name="translatedPath">Path to the translated subtitle file</param>
+    /// <param name="position">Position of the cue to replace</param>
+    /// <param name="text">The new cue text, lines separated by a newline</param>
+    /// <returns>The recorded edit, or null when the file or cue does not exist or the file is not a subtitle of indexed media</returns>
+    Task<SubtitleEditDto?> UpdateCue(string translatedPath, int position, string text);
+
+    /// <summary>
+    /// Reverts the most recent edit of a translated subtitle and removes it from the edit history.
+    /// </summary>
+    /// <param name="translatedPath">Path to the translated subtitle file</param>
+    /// <returns>The reverted edit, or null when there is nothing to undo or the file is not a subtitle of indexed media</returns>
+    Task<SubtitleEditDto?> UndoLastEdit(string translatedPath);
+
+    /// <summary>
+    /// Translates a single source cue with the configured service, using the surrounding cues as context.
+    /// The context size follows the ai_context_before and ai_context_after settings.
+    /// </summary>
+    /// <param name="sourcePath">Path to the source subtitle file</param>
+    /// <param name="sourcePosition">Position of the cue to translate</param>
+    /// <param name="sourceLanguage">Language of the source subtitle</param>
+    /// <param name="targetLanguage">Language to translate to</param>
+    /// <param name="cancellationToken">Token to cancel the translation operation</param>
+    /// <returns>The translated text, or null when the file or cue does not exist or the file is not a subtitle of indexed media</returns>
+    Task<string?> RetranslateCue(
+        string sourcePath,
+        int sourcePosition,
+        string sourceLanguage,
+        string targetLanguage,
+        CancellationToken cancellationToken);
+}
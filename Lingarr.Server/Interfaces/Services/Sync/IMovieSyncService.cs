@@ -12,6 +12,14 @@ public interface IMovieSyncService
     /// <returns>A task representing the asynchronous operation</returns>
     Task SyncMovies(List<RadarrMovie> movies);
 
+    /// <summary>
+    /// Synchronizes multiple movies from Radarr and reports progress after each saved batch
+    /// </summary>
+    /// <param name="movies">The list of Radarr movies to sync</param>
+    /// <param name="onBatchSaved">Called with the number of movies synced so far</param>
+    /// <returns>A task representing the asynchronous operation</returns>
+    Task SyncMovies(List<RadarrMovie> movies, Func<int, Task> onBatchSaved);
+
     /// <summary>
     /// Synchronizes a movie from Radarr
     /// </summary>
@@ -12,6 +12,14 @@ public interface IShowSyncService
     /// <returns>A task representing the asynchronous operation</returns>
     Task SyncShows(List<SonarrShow> shows);
 
+    /// <summary>
+    /// Synchronizes multiple shows from Sonarr and reports progress after each saved batch
+    /// </summary>
+    /// <param name="shows">The list of Sonarr shows to sync</param>
+    /// <param name="onBatchSaved">Called with the number of shows synced so far</param>
+    /// <returns>A task representing the asynchronous operation</returns>
+    Task SyncShows(List<SonarrShow> shows, Func<int, Task> onBatchSaved);
+
     /// <summary>
     /// Synchronizes a single show from Sonarr
     /// </summary>
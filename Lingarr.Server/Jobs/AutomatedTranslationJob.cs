@@ -94,6 +94,7 @@ public class AutomatedTranslationJob
                 }
 
                 processedCount++;
+                await _scheduleService.UpdateJobProgress(jobName, processedCount, mediaToProcess.Count);
 
                 // For stale/unknown items, refresh state first
                 TranslationState currentState;
@@ -185,7 +186,7 @@ public class AutomatedTranslationJob
         catch (Exception ex)
         {
             _logger.LogError(ex, "AutomatedTranslationJob failed");
-            await _scheduleService.UpdateJobState(jobName, JobStatus.Failed.GetDisplayName());
+            await _scheduleService.UpdateJobState(jobName, JobStatus.Failed.GetDisplayName(), ex.Message);
             throw;
         }
     }
@@ -0,0 +1,96 @@
+using System.Text.Json.Serialization;
+using Hangfire;
+using Lingarr.Core.Enum;
+using Lingarr.Server.Hubs;
+using Lingarr.Server.Interfaces.Services.Subtitle;
+using Lingarr.Server.Models.Api;
+using Microsoft.AspNetCore.SignalR;
+
+namespace Lingarr.Server.Jobs;
+
+/// <summary>
+/// Background job that extracts matching embedded subtitle tracks from the episodes of a show or season.
+/// Reports progress via SignalR and optionally queues the extracted subtitles for translation.
+/// </summary>
+public class BulkExtractionJob
+{
+    private readonly IBulkExtractionService _bulkExtractionService;
+    private readonly IHubContext<JobProgressHub> _hubContext;
+    private readonly ILogger<BulkExtractionJob> _logger;
+
+    public BulkExtractionJob(
+        IBulkExtractionService bulkExtractionService,
+        IHubContext<JobProgressHub> hubContext,
+        ILogger<BulkExtractionJob> logger)
+    {
+        _bulkExtractionService = bulkExtractionService;
+        _hubContext = hubContext;
+        _logger = logger;
+    }
+
+    [DisableConcurrentExecution(timeoutInSeconds: 120 * 60)]
+    [AutomaticRetry(Attempts = 0)]
+    [Queue("system")]
+    public async Task Execute(BulkExtractionRequest request)
+    {
+        _logger.LogInformation("Bulk extraction job initiated for {MediaType} {Id}", request.MediaType, request.Id);
+
+        try
+        {
+            await _bulkExtractionService.ExtractMatching(request, SendProgress);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Bulk extraction job failed");
+            await SendProgress(new BulkExtractionStats
+            {
+                MediaType = request.MediaType,
+                Id = request.Id,
+                IsComplete = true,
+                Error = ex.Message
+            });
+            throw;
+        }
+    }
+
+    private async Task SendProgress(BulkExtractionStats stats)
+    {
+        BulkExtractionStats.Current = stats;
+        try
+        {
+            await _hubContext.Clients.Group("JobProgress")
+                .SendAsync("BulkExtractionProgress", stats);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogDebug(ex, "Failed to send bulk extraction progress update");
+        }
+    }
+}
+
+/// <summary>
+/// Statistics for bulk extraction progress.
+/// </summary>
+public class BulkExtractionStats
+{
+    /// <summary>
+    /// Static tracker for current job progress - persists across page navigations.
+    /// </summary>
+    public static BulkExtractionStats? Current { get; set; }
+
+    // Hub messages do not use the string enum converter configured for controllers
+    [JsonConverter(typeof(JsonStringEnumConverter))]
+    public MediaType MediaType { get; set; }
+    public int Id { get; set; }
+    public int Total { get; set; }
+    public int ProcessedCount { get; set; }
+    public int ExtractedCount { get; set; }
+    public int SkippedCount { get; set; }
+    public int QueuedCount { get; set; }
+    public int ErrorCount { get; set; }
+    public bool IsComplete { get; set; }
+    public bool IsRunning { get; set; }
+    public string? Error { get; set; }
+
+    public double ProgressPercent => Total > 0 ? (double)ProcessedCount / Total * 100 : 0;
+}
@@ -42,6 +42,7 @@ public class CleanupJob
         }
 
         await _dbContext.SaveChangesAsync();
+        await _scheduleService.UpdateJobProgress(jobName, oldJobs.Count, oldJobs.Count);
         await _scheduleService.UpdateJobState(jobName, JobStatus.Succeeded.GetDisplayName());
         _logger.LogInformation($"Removed {oldJobs.Count} translation requests that are older than a week.");
     }
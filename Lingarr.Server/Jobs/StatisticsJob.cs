@@ -40,8 +40,15 @@ public class StatisticsJob
         await _scheduleService.UpdateJobState(jobName, JobStatus.Processing.GetDisplayName());
         
         var movies = await _dbContext.Movies.ToListAsync();
+        var shows = await _dbContext.Shows
+            .Include(s => s.Seasons)
+            .ToListAsync();
+        var totalItems = movies.Count + shows.Sum(s => s.Seasons.Count);
+        var itemsProcessed = 0;
+
         foreach (var movie in movies)
         {
+            await _scheduleService.UpdateJobProgress(jobName, ++itemsProcessed, totalItems);
             try 
             {
                 if (movie.Path == null)
@@ -69,14 +76,11 @@ public class StatisticsJob
             }
         }
 
-        var shows = await _dbContext.Shows
-            .Include(s => s.Seasons)
-            .ToListAsync();
-
         foreach (var show in shows)
         {
             foreach (var season in show.Seasons)
             {
+                await _scheduleService.UpdateJobProgress(jobName, ++itemsProcessed, totalItems);
                 if (string.IsNullOrEmpty(season.Path)) continue;
                 
                 if (processedPaths.Any(p => season.Path.StartsWith(p, StringComparison.OrdinalIgnoreCase)))
@@ -50,7 +50,8 @@ public class SyncMovieJob
             _logger.LogInformation("Fetched {Count} movies from Radarr", movies.Count());
 
             // Sync movies incrementally - each batch commits independently for UI visibility
-            await _movieSyncService.SyncMovies(movies);
+            await _movieSyncService.SyncMovies(movies,
+                processed => _scheduleService.UpdateJobProgress(jobName, processed, movies.Count));
 
             // Deletion is the risky operation - wrap in transaction for atomicity
             var strategy = _dbContext.Database.CreateExecutionStrategy();
@@ -65,7 +66,7 @@ public class SyncMovieJob
         }
         catch (Exception ex)
         {
-            await _scheduleService.UpdateJobState(jobName, JobStatus.Failed.GetDisplayName());
+            await _scheduleService.UpdateJobState(jobName, JobStatus.Failed.GetDisplayName(), ex.Message);
             _logger.LogError(ex,
                 "An error occurred when syncing movies. Exception details: {ExceptionMessage}, Stack Trace: {StackTrace}",
                 ex.Message, ex.StackTrace);
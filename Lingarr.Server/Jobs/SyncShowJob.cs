@@ -50,7 +50,8 @@ public class SyncShowJob
             _logger.LogInformation("Fetched {ShowCount} shows from Sonarr", shows.Count);
 
             // Sync shows incrementally - each batch commits independently for UI visibility
-            await _showSyncService.SyncShows(shows);
+            await _showSyncService.SyncShows(shows,
+                processed => _scheduleService.UpdateJobProgress(jobName, processed, shows.Count));
 
             // Deletion is the risky operation - wrap in transaction for atomicity
             var strategy = _dbContext.Database.CreateExecutionStrategy();
@@ -65,7 +66,7 @@ public class SyncShowJob
         }
         catch (Exception ex)
         {
-            await _scheduleService.UpdateJobState(jobName, JobStatus.Failed.GetDisplayName());
+            await _scheduleService.UpdateJobState(jobName, JobStatus.Failed.GetDisplayName(), ex.Message);
             _logger.LogError(ex,
                 "An error occurred when syncing shows. Exception details: {ExceptionMessage}, Stack Trace: {StackTrace}",
                 ex.Message, ex.StackTrace);
@@ -30,6 +30,7 @@ public class TranslationJob
     private readonly ITranslationCancellationService _cancellationService;
     private readonly IMediaStateService _mediaStateService;
     private readonly IDeferredRepairService _deferredRepairService;
+    private readonly IMediaOverrideService _mediaOverrideService;
 
     public TranslationJob(
         ILogger<TranslationJob> logger,
@@ -45,7 +46,8 @@ public class TranslationJob
         ISubtitleExtractionService extractionService,
         ITranslationCancellationService cancellationService,
         IMediaStateService mediaStateService,
-        IDeferredRepairService deferredRepairService)
+        IDeferredRepairService deferredRepairService,
+        IMediaOverrideService mediaOverrideService)
     {
         _logger = logger;
         _settings = settings;
@@ -61,6 +63,7 @@ public class TranslationJob
         _cancellationService = cancellationService;
         _mediaStateService = mediaStateService;
         _deferredRepairService = deferredRepairService;
+        _mediaOverrideService = mediaOverrideService;
     }
 
     /// <summary>
@@ -121,6 +124,8 @@ public class TranslationJob
                 subtitlePathForLog);
             AddRequestLog("Information", $"TranslateJob started for subtitle: {subtitlePathForLog}");;
 
+            // Kept for the rest of the job, the translation services read their settings lazily
+            using var overrides = await _mediaOverrideService.ApplyOverrides(request.MediaType, request.MediaId);
             var settings = await _settings.GetSettings([
                 SettingKeys.Translation.ServiceType,
                 SettingKeys.Translation.FixOverlappingSubtitles,
@@ -160,6 +165,11 @@ public class TranslationJob
             var validateSubtitles = settings[SettingKeys.SubtitleValidation.ValidateSubtitles] != "false";
             var removeLanguageTag = settings[SettingKeys.Translation.RemoveLanguageTag] != "false";
 
+            var modelSettingKey = MediaOverrideService.GetModelSettingKey(serviceType);
+            request.ServiceType = serviceType;
+            request.Model = modelSettingKey != null ? await _settings.GetSetting(modelSettingKey) : null;
+            await _dbContext.SaveChangesAsync(effectiveCancellationToken);
+
             AddRequestLog(
                 "Information",
                 $"Settings: serviceType={serviceType}, stripFormatting={stripSubtitleFormatting}, addTranslatorInfo={addTranslatorInfo}, validateSubtitles={validateSubtitles}, removeLanguageTag={removeLanguageTag}");
@@ -386,6 +396,9 @@ public class TranslationJob
                 }
             }
             
+            request.LineCount = subtitles.Count;
+            await _dbContext.SaveChangesAsync(effectiveCancellationToken);
+
             List<SubtitleItem> translatedSubtitles;
             if (settings[SettingKeys.Translation.UseBatchTranslation] == "true"
                 && translationService is IBatchTranslationService _)
@@ -634,6 +647,7 @@ public class TranslationJob
                 throw new Exception("Failed to write subtitle to any of the fallback paths.");
             }
 
+            translationRequest.TranslatedSubtitle = usedPath;
             _logger.LogInformation("TranslateJob completed and created subtitle: |Green|{filePath}|/Green|",
                 usedPath);
         }
@@ -697,8 +711,13 @@ public class TranslationJob
 
 	        if (translationRequest != null)
 	        {
+	            // Pausing the queue marks the request Interrupted before cancelling the job, keep that
+	            // status so the request is queued again on resume
+	            await _dbContext.Entry(translationRequest).ReloadAsync();
 	            translationRequest.CompletedAt = DateTime.UtcNow;
-	            translationRequest.Status = TranslationStatus.Cancelled;
+	            translationRequest.Status = translationRequest.Status == TranslationStatus.Interrupted
+	                ? TranslationStatus.Interrupted
+	                : TranslationStatus.Cancelled;
 	            translationRequest.IsActive = null;
 	
 	            await _dbContext.SaveChangesAsync();
@@ -121,6 +121,7 @@ public class SettingChangedListener
         using var scope = _serviceProvider.CreateScope();
         var dbContext = scope.ServiceProvider.GetRequiredService<LingarrDbContext>();
         var settingService = scope.ServiceProvider.GetRequiredService<ISettingService>();
+        var scheduleService = scope.ServiceProvider.GetRequiredService<IScheduleService>();
 
         var settings = await dbContext.Settings
             .Where(s => requiredKeys.Contains(s.Key))
@@ -162,20 +163,8 @@ public class SettingChangedListener
                 case "Automation":
                     _logger.LogInformation(
                         $"Settings changed for |Green|{jobName}|/Green|. Automation has been |Orange|modified|/Orange|.");
-                    if (settings[SettingKeys.Automation.AutomationEnabled] == "true")
-                    {
-                        var translationSchedule =
-                            await settingService.GetSetting(SettingKeys.Automation.TranslationSchedule);
-                        RecurringJob.RemoveIfExists(SettingKeys.Automation.TranslationSchedule);
-                        RecurringJob.AddOrUpdate<AutomatedTranslationJob>(
-                            "AutomatedTranslationJob",
-                            job => job.Execute(),
-                            translationSchedule);
-                    }
-                    else
-                    {
-                        RecurringJob.RemoveIfExists("AutomatedTranslationJob");
-                    }
+                    RecurringJob.RemoveIfExists(SettingKeys.Automation.TranslationSchedule);
+                    await scheduleService.ConfigureRecurringJob(nameof(AutomatedTranslationJob));
 
                     break;
             }
@@ -212,14 +201,9 @@ public class SettingChangedListener
                     break;
 
                 case "Schedule":
-                    RecurringJob.AddOrUpdate<SyncMovieJob>(
-                        "SyncMovieJob",
-                        job => job.Execute(),
-                        settings[SettingKeys.Automation.MovieSchedule]);
-                    RecurringJob.AddOrUpdate<SyncShowJob>(
-                        "SyncShowJob",
-                        job => job.Execute(),
-                        settings[SettingKeys.Automation.ShowSchedule]);
+                    var scheduleService = scope.ServiceProvider.GetRequiredService<IScheduleService>();
+                    await scheduleService.ConfigureRecurringJob(nameof(SyncMovieJob));
+                    await scheduleService.ConfigureRecurringJob(nameof(SyncShowJob));
                     break;
 
                 case "ServiceType":
@@ -0,0 +1,29 @@
+using Lingarr.Core.Enum;
+
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Request model for extracting matching embedded subtitle tracks from every episode of a show or season.
+/// </summary>
+public class BulkExtractionRequest
+{
+    /// <summary>
+    /// Either Show or Season.
+    /// </summary>
+    public MediaType MediaType { get; set; }
+
+    /// <summary>
+    /// The ID of the show or season.
+    /// </summary>
+    public int Id { get; set; }
+
+    /// <summary>
+    /// A track is extracted when it matches any of the rules.
+    /// </summary>
+    public List<EmbeddedTrackRule> Rules { get; set; } = new();
+
+    /// <summary>
+    /// When true, translations are queued for episodes that are not excluded once their tracks are extracted.
+    /// </summary>
+    public bool Translate { get; set; }
+}
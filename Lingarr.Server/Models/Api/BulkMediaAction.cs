@@ -0,0 +1,14 @@
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Actions that can be applied to a selection of movies, shows, seasons or episodes in one call.
+/// </summary>
+public enum BulkMediaAction
+{
+    Translate,
+    Exclude,
+    Include,
+    SetPriority,
+    SetThreshold,
+    IntegrityCheck
+}
@@ -0,0 +1,34 @@
+using Lingarr.Core.Enum;
+
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Request model for applying one action to several media items of the same type.
+/// </summary>
+public class BulkMediaActionRequest
+{
+    /// <summary>
+    /// The action to apply.
+    /// </summary>
+    public BulkMediaAction Action { get; set; }
+
+    /// <summary>
+    /// The type of all media items in <see cref="Ids"/>.
+    /// </summary>
+    public MediaType MediaType { get; set; }
+
+    /// <summary>
+    /// IDs of the media items to apply the action to.
+    /// </summary>
+    public List<int> Ids { get; set; } = new();
+
+    /// <summary>
+    /// Priority value to apply when the action is SetPriority.
+    /// </summary>
+    public bool IsPriority { get; set; }
+
+    /// <summary>
+    /// Age threshold in hours to apply when the action is SetThreshold.
+    /// </summary>
+    public int Hours { get; set; }
+}
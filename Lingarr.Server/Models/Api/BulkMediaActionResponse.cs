@@ -0,0 +1,33 @@
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Response model for the bulk media action endpoint.
+/// </summary>
+public class BulkMediaActionResponse
+{
+    /// <summary>
+    /// Number of media items the action succeeded for.
+    /// </summary>
+    public int Succeeded { get; set; }
+
+    /// <summary>
+    /// Number of media items the action failed or was skipped for.
+    /// </summary>
+    public int Failed { get; set; }
+
+    /// <summary>
+    /// Per-item outcome, in the order the IDs were supplied.
+    /// </summary>
+    public List<BulkMediaActionResult> Results { get; set; } = new();
+}
+
+/// <summary>
+/// Outcome of a bulk action for a single media item.
+/// </summary>
+public class BulkMediaActionResult
+{
+    public int Id { get; set; }
+    public string? Title { get; set; }
+    public bool Success { get; set; }
+    public string Message { get; set; } = string.Empty;
+}
@@ -0,0 +1,13 @@
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Actions that can be applied to a selection of translation requests in one call.
+/// </summary>
+public enum BulkTranslationAction
+{
+    Retry,
+    Cancel,
+    Remove,
+    SetPriority,
+    SetLane
+}
@@ -0,0 +1,29 @@
+using Lingarr.Core.Enum;
+
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Request model for applying one action to several translation requests.
+/// </summary>
+public class BulkTranslationActionRequest
+{
+    /// <summary>
+    /// The action to apply.
+    /// </summary>
+    public BulkTranslationAction Action { get; set; }
+
+    /// <summary>
+    /// IDs of the translation requests to apply the action to.
+    /// </summary>
+    public List<int> Ids { get; set; } = new();
+
+    /// <summary>
+    /// Priority value to apply when the action is SetPriority.
+    /// </summary>
+    public bool IsPriority { get; set; }
+
+    /// <summary>
+    /// Lane to move the translation requests to when the action is SetLane.
+    /// </summary>
+    public TranslationLane Lane { get; set; } = TranslationLane.Normal;
+}
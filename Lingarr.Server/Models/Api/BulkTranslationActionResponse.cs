@@ -0,0 +1,33 @@
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Response model for the bulk translation request action endpoint.
+/// </summary>
+public class BulkTranslationActionResponse
+{
+    /// <summary>
+    /// Number of requests the action succeeded for.
+    /// </summary>
+    public int Succeeded { get; set; }
+
+    /// <summary>
+    /// Number of requests the action failed or was skipped for.
+    /// </summary>
+    public int Failed { get; set; }
+
+    /// <summary>
+    /// Per-request outcome, in the order the IDs were supplied.
+    /// </summary>
+    public List<BulkTranslationActionResult> Results { get; set; } = new();
+}
+
+/// <summary>
+/// Outcome of a bulk action for a single translation request.
+/// </summary>
+public class BulkTranslationActionResult
+{
+    public int Id { get; set; }
+    public string? Title { get; set; }
+    public bool Success { get; set; }
+    public string Message { get; set; } = string.Empty;
+}
@@ -0,0 +1,24 @@
+using Lingarr.Core.Enum;
+
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Request model for translating the missing subtitles of a coverage cell.
+/// </summary>
+public class CoverageTranslateRequest
+{
+    /// <summary>
+    /// Either Season or Episode.
+    /// </summary>
+    public MediaType MediaType { get; set; }
+
+    /// <summary>
+    /// The ID of the season or episode.
+    /// </summary>
+    public int Id { get; set; }
+
+    /// <summary>
+    /// The target language code to translate into.
+    /// </summary>
+    public required string Language { get; set; }
+}
@@ -0,0 +1,12 @@
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Request model for fetching the embedded subtitles of multiple movies or episodes at once.
+/// </summary>
+public class EmbeddedSubtitleBatchRequest
+{
+    /// <summary>
+    /// The IDs of the movies or episodes to fetch embedded subtitles for.
+    /// </summary>
+    public List<int> Ids { get; set; } = new();
+}
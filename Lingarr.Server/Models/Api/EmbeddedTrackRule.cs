@@ -0,0 +1,24 @@
+using Lingarr.Core.Entities;
+
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Selects embedded subtitle tracks for extraction, a property left empty matches any value.
+/// Image-based tracks never match since they cannot be extracted.
+/// </summary>
+public class EmbeddedTrackRule
+{
+    public string? Language { get; set; }
+    public string? CodecName { get; set; }
+    public bool? IsForced { get; set; }
+    public bool? IsDefault { get; set; }
+
+    public bool Matches(EmbeddedSubtitle track)
+    {
+        return track.IsTextBased &&
+               (Language == null || string.Equals(Language, track.Language, StringComparison.OrdinalIgnoreCase)) &&
+               (CodecName == null || string.Equals(CodecName, track.CodecName, StringComparison.OrdinalIgnoreCase)) &&
+               (IsForced == null || IsForced == track.IsForced) &&
+               (IsDefault == null || IsDefault == track.IsDefault);
+    }
+}
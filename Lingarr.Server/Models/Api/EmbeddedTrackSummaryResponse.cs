@@ -0,0 +1,38 @@
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// The distinct embedded subtitle tracks found across the episodes of a show or season.
+/// </summary>
+public class EmbeddedTrackSummaryResponse
+{
+    public int EpisodeCount { get; set; }
+
+    /// <summary>
+    /// Episodes whose file has not been probed yet, their tracks are probed when an extraction runs.
+    /// </summary>
+    public int UnprobedCount { get; set; }
+
+    public List<EmbeddedTrackGroup> Groups { get; set; } = new();
+}
+
+/// <summary>
+/// Embedded tracks that share a language, codec and flags.
+/// </summary>
+public class EmbeddedTrackGroup
+{
+    public string? Language { get; set; }
+    public required string CodecName { get; set; }
+    public bool IsTextBased { get; set; }
+    public bool IsForced { get; set; }
+    public bool IsDefault { get; set; }
+
+    /// <summary>
+    /// The number of episodes that contain at least one track of this group.
+    /// </summary>
+    public int EpisodeCount { get; set; }
+
+    /// <summary>
+    /// The number of episodes in which a track of this group has already been extracted.
+    /// </summary>
+    public int ExtractedCount { get; set; }
+}
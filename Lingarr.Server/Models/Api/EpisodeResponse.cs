@@ -0,0 +1,33 @@
+﻿using Lingarr.Core.Entities;
+using Lingarr.Server.Models.FileSystem;
+
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// A single episode with its external subtitles and the show and season it belongs to.
+/// Age threshold and priority are configured on the show.
+/// </summary>
+public class EpisodeResponse
+{
+    public int Id { get; set; }
+    public required int SonarrId { get; set; }
+    public required int EpisodeNumber { get; set; }
+    public required string Title { get; set; }
+    public string FileName { get; set; } = string.Empty;
+    public string Path { get; set; } = string.Empty;
+    public DateTime? DateAdded { get; set; }
+    public List<Subtitles> Subtitles { get; set; } = new();
+    public bool ExcludeFromTranslation { get; set; }
+    public int TranslationState { get; set; }
+
+    public int SeasonId { get; set; }
+    public int SeasonNumber { get; set; }
+    public bool SeasonExcludeFromTranslation { get; set; }
+
+    public int ShowId { get; set; }
+    public required string ShowTitle { get; set; }
+    public List<Image> Images { get; set; } = new();
+    public bool ShowExcludeFromTranslation { get; set; }
+    public int? TranslationAgeThreshold { get; set; }
+    public bool IsPriority { get; set; }
+}
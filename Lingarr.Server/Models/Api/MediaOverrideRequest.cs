@@ -0,0 +1,24 @@
+using Lingarr.Core.Enum;
+
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Request model for replacing the translation overrides of a movie or show.
+/// </summary>
+public class MediaOverrideRequest
+{
+    /// <summary>
+    /// Either Movie or Show.
+    /// </summary>
+    public MediaType MediaType { get; set; }
+
+    /// <summary>
+    /// The ID of the movie or show.
+    /// </summary>
+    public int Id { get; set; }
+
+    /// <summary>
+    /// The new overrides, null values inherit the global setting.
+    /// </summary>
+    public MediaOverrides Overrides { get; set; } = new();
+}
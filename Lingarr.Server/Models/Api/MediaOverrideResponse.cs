@@ -0,0 +1,17 @@
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// The translation overrides of a movie or show next to the global values they replace.
+/// </summary>
+public class MediaOverrideResponse
+{
+    /// <summary>
+    /// The values set on the media, null values are inherited.
+    /// </summary>
+    public required MediaOverrides Overrides { get; set; }
+
+    /// <summary>
+    /// The global values, the model is the one configured for the effective translation service.
+    /// </summary>
+    public required MediaOverrides Inherited { get; set; }
+}
@@ -0,0 +1,34 @@
+using Lingarr.Server.Models;
+
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Translation settings of a movie or show, a null value inherits the global setting.
+/// </summary>
+public class MediaOverrides
+{
+    /// <summary>
+    /// The languages subtitles are translated from.
+    /// </summary>
+    public List<SourceLanguage>? SourceLanguages { get; set; }
+
+    /// <summary>
+    /// The languages subtitles are translated into.
+    /// </summary>
+    public List<TargetLanguage>? TargetLanguages { get; set; }
+
+    /// <summary>
+    /// The translation service, for example "deepl" or "openai".
+    /// </summary>
+    public string? ServiceType { get; set; }
+
+    /// <summary>
+    /// The model used by AI translation services.
+    /// </summary>
+    public string? Model { get; set; }
+
+    /// <summary>
+    /// The prompt used by AI translation services.
+    /// </summary>
+    public string? AiPrompt { get; set; }
+}
@@ -0,0 +1,27 @@
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// An entry of the settings history, values of API keys are redacted.
+/// </summary>
+public class SettingChangeResponse
+{
+    public required int Id { get; set; }
+    public required string Key { get; set; }
+
+    /// <summary>
+    /// The value before the change, null when the setting did not exist yet or is a secret.
+    /// </summary>
+    public string? OldValue { get; set; }
+
+    /// <summary>
+    /// The value after the change, null when the setting is a secret.
+    /// </summary>
+    public string? NewValue { get; set; }
+
+    public required DateTime ChangedAt { get; set; }
+
+    /// <summary>
+    /// Whether the values have been left out because the setting holds an API key.
+    /// </summary>
+    public required bool IsSecret { get; set; }
+}
@@ -0,0 +1,56 @@
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Subtitle coverage of a show per season and configured target language.
+/// </summary>
+public class ShowCoverageResponse
+{
+    public int ShowId { get; set; }
+
+    /// <summary>
+    /// The configured target language codes, in the order they are configured.
+    /// </summary>
+    public List<string> Languages { get; set; } = new();
+
+    public List<SeasonCoverage> Seasons { get; set; } = new();
+}
+
+public class SeasonCoverage
+{
+    public int Id { get; set; }
+    public int SeasonNumber { get; set; }
+    public bool ExcludeFromTranslation { get; set; }
+
+    /// <summary>
+    /// Coverage per target language, combined over the episodes of the season.
+    /// </summary>
+    public List<LanguageCoverage> Languages { get; set; } = new();
+
+    public List<EpisodeCoverage> Episodes { get; set; } = new();
+}
+
+public class EpisodeCoverage
+{
+    public int Id { get; set; }
+    public int EpisodeNumber { get; set; }
+    public required string Title { get; set; }
+    public bool ExcludeFromTranslation { get; set; }
+    public List<LanguageCoverage> Languages { get; set; } = new();
+}
+
+public class LanguageCoverage
+{
+    public required string Language { get; set; }
+
+    /// <summary>
+    /// Number of episodes that have a subtitle in this language.
+    /// </summary>
+    public int Translated { get; set; }
+
+    /// <summary>
+    /// Number of episodes that are not excluded from translation.
+    /// </summary>
+    public int Total { get; set; }
+
+    public int TranslationState { get; set; }
+}
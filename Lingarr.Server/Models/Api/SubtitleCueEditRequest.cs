@@ -0,0 +1,11 @@
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Request model for replacing the text of a single cue in a translated subtitle.
+/// </summary>
+public class SubtitleCueEditRequest
+{
+    public required string TranslatedPath { get; set; }
+    public int Position { get; set; }
+    public required string Text { get; set; }
+}
@@ -0,0 +1,12 @@
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Request model for translating a single source cue again, using its neighbours as context.
+/// </summary>
+public class SubtitleCueRetranslateRequest
+{
+    public required string SourcePath { get; set; }
+    public int SourcePosition { get; set; }
+    public required string SourceLanguage { get; set; }
+    public required string TargetLanguage { get; set; }
+}
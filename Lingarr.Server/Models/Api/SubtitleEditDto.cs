@@ -0,0 +1,10 @@
+namespace Lingarr.Server.Models.Api;
+
+public class SubtitleEditDto
+{
+    public int Id { get; set; }
+    public int Position { get; set; }
+    public required string PreviousText { get; set; }
+    public required string NewText { get; set; }
+    public DateTime EditedAt { get; set; }
+}
@@ -0,0 +1,12 @@
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Request model for reviewing a translated subtitle against its source file.
+/// </summary>
+public class SubtitleReviewRequest
+{
+    public required string SourcePath { get; set; }
+    public required string TranslatedPath { get; set; }
+    public string? SourceLanguage { get; set; }
+    public string? TargetLanguage { get; set; }
+}
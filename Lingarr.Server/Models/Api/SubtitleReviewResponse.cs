@@ -0,0 +1,46 @@
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Source and translated subtitle cues aligned by timestamp for side-by-side review.
+/// </summary>
+public class SubtitleReviewResponse
+{
+    public string SourcePath { get; set; } = string.Empty;
+    public string TranslatedPath { get; set; } = string.Empty;
+    public string? SourceLanguage { get; set; }
+    public string? TargetLanguage { get; set; }
+    public List<SubtitleReviewCue> Cues { get; set; } = new();
+
+    /// <summary>
+    /// Edits made to the translated subtitle, newest first.
+    /// </summary>
+    public List<SubtitleEditDto> Edits { get; set; } = new();
+}
+
+/// <summary>
+/// A single review row. Either side is null when a cue has no counterpart in the other file.
+/// </summary>
+public class SubtitleReviewCue
+{
+    public int? SourcePosition { get; set; }
+    public int? TranslatedPosition { get; set; }
+    public int StartTime { get; set; }
+    public int EndTime { get; set; }
+    public string? SourceText { get; set; }
+    public string? TranslatedText { get; set; }
+
+    /// <summary>
+    /// The translation is missing or contains no text.
+    /// </summary>
+    public bool IsEmpty { get; set; }
+
+    /// <summary>
+    /// The translation is the same as the source text.
+    /// </summary>
+    public bool IsIdentical { get; set; }
+
+    /// <summary>
+    /// The translation is much longer than the source text.
+    /// </summary>
+    public bool IsTooLong { get; set; }
+}
@@ -0,0 +1,9 @@
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Request model for reverting the most recent edit of a translated subtitle.
+/// </summary>
+public class SubtitleUndoEditRequest
+{
+    public required string TranslatedPath { get; set; }
+}
@@ -25,6 +25,11 @@ public class TestTranslationSearchResult
     /// </summary>
     public int MediaId { get; set; }
 
+    /// <summary>
+    /// Show the episode belongs to, used to link to the episode page. Null for movies.
+    /// </summary>
+    public int? ShowId { get; set; }
+
     /// <summary>
     /// Available subtitle files for this media item.
     /// </summary>
@@ -0,0 +1,20 @@
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Request model for pausing or resuming the translation queue.
+/// </summary>
+public class TranslationQueuePauseRequest
+{
+    public bool Paused { get; set; }
+
+    /// <summary>
+    /// Pauses or resumes a single translation service. When empty, the whole queue is paused or resumed.
+    /// </summary>
+    public string? ServiceType { get; set; }
+
+    /// <summary>
+    /// When pausing, stops requests that are translating right now and marks them Interrupted,
+    /// instead of letting them finish. Interrupted requests are queued again on resume.
+    /// </summary>
+    public bool InterruptInProgress { get; set; }
+}
@@ -0,0 +1,28 @@
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Paused state of the translation queue, broadcast to clients whenever it changes.
+/// </summary>
+public class TranslationQueuePauseState
+{
+    /// <summary>
+    /// True when no new translation request is started, regardless of the service.
+    /// </summary>
+    public bool IsPaused { get; set; }
+
+    /// <summary>
+    /// Translation services that are paused individually.
+    /// </summary>
+    public List<string> PausedServices { get; set; } = new();
+
+    /// <summary>
+    /// The currently configured translation service, which pending requests will be processed with.
+    /// </summary>
+    public string? ServiceType { get; set; }
+
+    /// <summary>
+    /// True when the queue is paused globally or the configured service is paused.
+    /// </summary>
+    public bool IsProcessingPaused { get; set; }
+    public int InterruptedRequests { get; set; }
+}
@@ -0,0 +1,19 @@
+using Lingarr.Core.Enum;
+
+namespace Lingarr.Server.Models.Api;
+
+public class TranslationRequestExportRow
+{
+    public int Id { get; set; }
+    public required string Title { get; set; }
+    public required string SourceLanguage { get; set; }
+    public required string TargetLanguage { get; set; }
+    public MediaType MediaType { get; set; }
+    public TranslationStatus Status { get; set; }
+    public string? ServiceType { get; set; }
+    public string? Model { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime? StartedAt { get; set; }
+    public DateTime? CompletedAt { get; set; }
+    public List<TranslationRequestLogDto>? Logs { get; set; }
+}
@@ -0,0 +1,22 @@
+using Lingarr.Core.Enum;
+
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Request model for moving a pending translation request within the queue.
+/// </summary>
+public class TranslationRequestMoveRequest
+{
+    public int Id { get; set; }
+
+    /// <summary>
+    /// Lane to move the request to. Ignored when a target is given, the request then joins the target's lane.
+    /// </summary>
+    public TranslationLane Lane { get; set; } = TranslationLane.Normal;
+
+    /// <summary>
+    /// Pending translation request to place the moved request next to.
+    /// </summary>
+    public int? TargetId { get; set; }
+    public bool PlaceAfter { get; set; }
+}
@@ -0,0 +1,30 @@
+namespace Lingarr.Server.Models.Api;
+
+/// <summary>
+/// Rolling throughput of recently completed translation requests, used to estimate when the queue will finish.
+/// </summary>
+public class TranslationThroughputResponse
+{
+    /// <summary>
+    /// The currently configured translation service, which pending requests will be processed with.
+    /// </summary>
+    public string? ServiceType { get; set; }
+    public int MaxParallelTranslations { get; set; } = 1;
+    public int PendingRequests { get; set; }
+
+    /// <summary>
+    /// Completed requests per hour of time spent translating, idle time between requests excluded.
+    /// </summary>
+    public double RequestsPerHour { get; set; }
+    public double AverageDurationSeconds { get; set; }
+    public int SampleSize { get; set; }
+    public List<ServiceThroughput> Services { get; set; } = new();
+}
+
+public class ServiceThroughput
+{
+    public required string ServiceType { get; set; }
+    public double LinesPerMinute { get; set; }
+    public double AverageDurationSeconds { get; set; }
+    public int CompletedRequests { get; set; }
+}
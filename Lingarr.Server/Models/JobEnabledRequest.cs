@@ -0,0 +1,6 @@
+namespace Lingarr.Server.Models;
+
+public class JobEnabledRequest
+{
+    public bool Enabled { get; set; }
+}
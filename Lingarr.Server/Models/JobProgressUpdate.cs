@@ -0,0 +1,9 @@
+namespace Lingarr.Server.Models;
+
+public class JobProgressUpdate
+{
+    public string JobId { get; set; } = string.Empty;
+    public int Progress { get; set; }
+    public int ItemsProcessed { get; set; }
+    public int TotalItems { get; set; }
+}
@@ -0,0 +1,6 @@
+namespace Lingarr.Server.Models;
+
+public class JobScheduleRequest
+{
+    public string Cron { get; set; } = string.Empty;
+}
@@ -0,0 +1,25 @@
+﻿using Lingarr.Core.Enum;
+
+namespace Lingarr.Server.Models;
+
+/// <summary>
+/// Optional filters applied when listing movies and shows.
+/// Date ranges are inclusive of the whole day of the upper bound.
+/// </summary>
+public class MediaFilter
+{
+    /// <summary>
+    /// Translation state to match. Shows match on the combined state of their episodes.
+    /// </summary>
+    public TranslationState? TranslationState { get; set; }
+
+    /// <summary>
+    /// Language code without an external subtitle. Shows match when any episode misses it,
+    /// media that has not been scanned yet counts as missing.
+    /// </summary>
+    public string? MissingLanguage { get; set; }
+    public bool? IsExcluded { get; set; }
+    public bool? IsPriority { get; set; }
+    public DateTime? AddedFrom { get; set; }
+    public DateTime? AddedTo { get; set; }
+}
@@ -20,4 +20,6 @@ public class RecurringJobStatus
     public string CurrentState { get; set; } = JobStatus.Planned.GetDisplayName();
     public bool IsCurrentlyRunning { get; set; }
     public string? CurrentJobId { get; set; }
+    public bool IsEnabled { get; set; } = true;
+    public JobProgressUpdate? Progress { get; set; }
 }
\ No newline at end of file
@@ -0,0 +1,28 @@
+﻿using Lingarr.Core.Enum;
+
+namespace Lingarr.Server.Models;
+
+/// <summary>
+/// Optional filters applied when listing translation requests.
+/// Date ranges are inclusive of the whole day of the upper bound.
+/// </summary>
+public class TranslationRequestFilter
+{
+    /// <summary>
+    /// Statuses to include. When empty only Pending requests are returned.
+    /// </summary>
+    public List<TranslationStatus> Statuses { get; set; } = new();
+    public string? SourceLanguage { get; set; }
+    public string? TargetLanguage { get; set; }
+    public MediaType? MediaType { get; set; }
+
+    /// <summary>
+    /// Limits the requests to one movie or episode, used together with <see cref="MediaType"/>.
+    /// </summary>
+    public int? MediaId { get; set; }
+    public bool? IsPriority { get; set; }
+    public DateTime? CreatedFrom { get; set; }
+    public DateTime? CreatedTo { get; set; }
+    public DateTime? CompletedFrom { get; set; }
+    public DateTime? CompletedTo { get; set; }
+}
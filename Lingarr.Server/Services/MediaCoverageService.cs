@@ -0,0 +1,231 @@
+using Lingarr.Core.Configuration;
+using Lingarr.Core.Data;
+using Lingarr.Core.Entities;
+using Lingarr.Core.Enum;
+using Lingarr.Server.Interfaces.Services;
+using Lingarr.Server.Models;
+using Lingarr.Server.Models.Api;
+using Lingarr.Server.Services.Subtitle;
+using Microsoft.EntityFrameworkCore;
+
+namespace Lingarr.Server.Services;
+
+/// <summary>
+/// Builds subtitle coverage per season and target language from the subtitle languages stored on each episode.
+/// </summary>
+public class MediaCoverageService : IMediaCoverageService
+{
+    private readonly LingarrDbContext _dbContext;
+    private readonly ISettingService _settingService;
+    private readonly IMediaSubtitleProcessor _mediaSubtitleProcessor;
+    private readonly IMediaOverrideService _mediaOverrideService;
+    private readonly ILogger<MediaCoverageService> _logger;
+
+    public MediaCoverageService(
+        LingarrDbContext dbContext,
+        ISettingService settingService,
+        IMediaSubtitleProcessor mediaSubtitleProcessor,
+        IMediaOverrideService mediaOverrideService,
+        ILogger<MediaCoverageService> logger)
+    {
+        _dbContext = dbContext;
+        _settingService = settingService;
+        _mediaSubtitleProcessor = mediaSubtitleProcessor;
+        _mediaOverrideService = mediaOverrideService;
+        _logger = logger;
+    }
+
+    /// <inheritdoc />
+    public async Task<ShowCoverageResponse?> GetShowCoverage(int showId)
+    {
+        var show = await _dbContext.Shows
+            .AsNoTracking()
+            .Include(s => s.Seasons)
+            .ThenInclude(s => s.Episodes)
+            .AsSplitQuery()
+            .FirstOrDefaultAsync(s => s.Id == showId);
+        if (show == null)
+        {
+            return null;
+        }
+
+        using var overrides = await _mediaOverrideService.ApplyOverrides(MediaType.Show, showId);
+        var languages = await GetTargetLanguages();
+        var episodeIds = show.Seasons.SelectMany(s => s.Episodes).Select(e => e.Id).ToList();
+        var activeRequests = await _dbContext.TranslationRequests
+            .Where(tr => tr.MediaType == MediaType.Episode &&
+                         tr.MediaId != null &&
+                         episodeIds.Contains(tr.MediaId.Value) &&
+                         (tr.Status == TranslationStatus.Pending || tr.Status == TranslationStatus.InProgress))
+            .Select(tr => new { MediaId = tr.MediaId!.Value, tr.TargetLanguage })
+            .ToListAsync();
+        var activeLanguages = activeRequests
+            .Select(tr => (tr.MediaId, tr.TargetLanguage.ToLowerInvariant()))
+            .ToHashSet();
+
+        var response = new ShowCoverageResponse
+        {
+            ShowId = show.Id,
+            Languages = languages
+        };
+
+        foreach (var season in show.Seasons.OrderBy(s => s.SeasonNumber))
+        {
+            var seasonExcluded = show.ExcludeFromTranslation || season.ExcludeFromTranslation;
+            var episodes = season.Episodes
+                .OrderBy(e => e.EpisodeNumber)
+                .Select(episode => new EpisodeCoverage
+                {
+                    Id = episode.Id,
+                    EpisodeNumber = episode.EpisodeNumber,
+                    Title = episode.Title,
+                    ExcludeFromTranslation = episode.ExcludeFromTranslation,
+                    Languages = languages
+                        .Select(language => GetEpisodeCoverage(
+                            episode,
+                            language,
+                            seasonExcluded,
+                            activeLanguages.Contains((episode.Id, language))))
+                        .ToList()
+                })
+                .ToList();
+
+            response.Seasons.Add(new SeasonCoverage
+            {
+                Id = season.Id,
+                SeasonNumber = season.SeasonNumber,
+                ExcludeFromTranslation = season.ExcludeFromTranslation,
+                Languages = languages
+                    .Select((language, index) => CombineCoverage(
+                        language,
+                        episodes.Select(e => e.Languages[index]).ToList()))
+                    .ToList(),
+                Episodes = episodes
+            });
+        }
+
+        return response;
+    }
+
+    /// <inheritdoc />
+    public async Task<int?> TranslateMissing(MediaType mediaType, int id, string language)
+    {
+        var query = _dbContext.Episodes
+            .Include(e => e.Season)
+            .ThenInclude(s => s.Show)
+            .AsQueryable();
+        query = mediaType switch
+        {
+            MediaType.Season => query.Where(e => e.SeasonId == id),
+            MediaType.Episode => query.Where(e => e.Id == id),
+            _ => throw new ArgumentOutOfRangeException(nameof(mediaType), mediaType, "Only seasons and episodes can be translated per language")
+        };
+
+        var episodes = await query.ToListAsync();
+        if (episodes.Count == 0)
+        {
+            var exists = mediaType == MediaType.Season && await _dbContext.Seasons.AnyAsync(s => s.Id == id);
+            return exists ? 0 : null;
+        }
+
+        var token = SubtitleLanguageHelper.ToLanguageToken(language);
+        var translationsQueued = 0;
+        foreach (var episode in episodes)
+        {
+            if (IsExcluded(episode) ||
+                (episode.SubtitleLanguages != null && episode.SubtitleLanguages.Contains(token)))
+            {
+                continue;
+            }
+
+            translationsQueued += await _mediaSubtitleProcessor.ProcessMediaForLanguageAsync(
+                episode,
+                MediaType.Episode,
+                language,
+                forcePriority: true);
+        }
+
+        _logger.LogInformation(
+            "Queued {Count} {Language} translations for {MediaType} {Id}",
+            translationsQueued, language, mediaType, id);
+        return translationsQueued;
+    }
+
+    /// <summary>
+    /// Determines the coverage of one episode for one language. Excluded episodes do not count towards the total.
+    /// </summary>
+    private static LanguageCoverage GetEpisodeCoverage(
+        Episode episode,
+        string language,
+        bool seasonExcluded,
+        bool hasActiveRequest)
+    {
+        if (seasonExcluded || episode.ExcludeFromTranslation)
+        {
+            return new LanguageCoverage
+            {
+                Language = language,
+                TranslationState = (int)TranslationState.NotApplicable
+            };
+        }
+
+        var translated = episode.SubtitleLanguages != null &&
+                         episode.SubtitleLanguages.Contains(SubtitleLanguageHelper.ToLanguageToken(language));
+        var state = translated
+            ? TranslationState.Complete
+            : hasActiveRequest
+                ? TranslationState.InProgress
+                : episode.SubtitleLanguages == null
+                    ? TranslationState.Unknown
+                    : episode.TranslationState switch
+                    {
+                        // The language is missing, so the episode state predates the current language settings
+                        TranslationState.Complete => TranslationState.Stale,
+                        // Another language is being translated, this one still waits
+                        TranslationState.InProgress => TranslationState.Pending,
+                        _ => episode.TranslationState
+                    };
+
+        return new LanguageCoverage
+        {
+            Language = language,
+            Translated = translated ? 1 : 0,
+            Total = 1,
+            TranslationState = (int)state
+        };
+    }
+
+    /// <summary>
+    /// Combines episode coverage into season coverage, using the same state precedence as the show list.
+    /// </summary>
+    private static LanguageCoverage CombineCoverage(string language, List<LanguageCoverage> episodes)
+    {
+        var states = episodes.Select(e => (TranslationState)e.TranslationState).ToHashSet();
+        return new LanguageCoverage
+        {
+            Language = language,
+            Translated = episodes.Sum(e => e.Translated),
+            Total = episodes.Sum(e => e.Total),
+            TranslationState = states.Count > 0
+                ? (int)MediaService.ShowStatePriority.First(states.Contains)
+                : (int)TranslationState.NotApplicable
+        };
+    }
+
+    private static bool IsExcluded(Episode episode)
+    {
+        return episode.ExcludeFromTranslation ||
+               episode.Season.ExcludeFromTranslation ||
+               episode.Season.Show.ExcludeFromTranslation;
+    }
+
+    private async Task<List<string>> GetTargetLanguages()
+    {
+        var languages = await _settingService.GetSettingAsJson<TargetLanguage>(SettingKeys.Translation.TargetLanguages);
+        return languages
+            .Select(l => l.Code.ToLowerInvariant())
+            .Where(code => !string.IsNullOrWhiteSpace(code))
+            .Distinct()
+            .ToList();
+    }
+}
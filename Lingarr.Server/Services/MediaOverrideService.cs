@@ -0,0 +1,246 @@
+using System.Text.Json;
+using Lingarr.Core.Configuration;
+using Lingarr.Core.Data;
+using Lingarr.Core.Entities;
+using Lingarr.Core.Enum;
+using Lingarr.Core.Interfaces;
+using Lingarr.Server.Interfaces.Services;
+using Lingarr.Server.Models;
+using Lingarr.Server.Models.Api;
+using Microsoft.EntityFrameworkCore;
+
+namespace Lingarr.Server.Services;
+
+/// <summary>
+/// Resolves the translation overrides of movies and shows and layers them over the global settings.
+/// </summary>
+public class MediaOverrideService : IMediaOverrideService
+{
+    private readonly LingarrDbContext _dbContext;
+    private readonly ISettingService _settingService;
+    private readonly ILogger<MediaOverrideService> _logger;
+
+    public MediaOverrideService(
+        LingarrDbContext dbContext,
+        ISettingService settingService,
+        ILogger<MediaOverrideService> logger)
+    {
+        _dbContext = dbContext;
+        _settingService = settingService;
+        _logger = logger;
+    }
+
+    /// <inheritdoc />
+    public async Task<IDisposable> ApplyOverrides(IMedia media, MediaType mediaType)
+    {
+        ITranslationOverrides? source = media switch
+        {
+            Movie movie => movie,
+            Episode { Season.Show: not null } episode => episode.Season.Show,
+            _ => await FindOverrides(mediaType, media.Id)
+        };
+
+        return _settingService.UseOverrides(await BuildSettings(source));
+    }
+
+    /// <inheritdoc />
+    public async Task<IDisposable> ApplyOverrides(MediaType mediaType, int? mediaId)
+    {
+        var source = mediaId.HasValue ? await FindOverrides(mediaType, mediaId.Value) : null;
+        return _settingService.UseOverrides(await BuildSettings(source));
+    }
+
+    /// <inheritdoc />
+    public async Task<MediaOverrideResponse?> GetOverrides(MediaType mediaType, int id)
+    {
+        var media = await FindEditable(mediaType, id);
+        return media == null ? null : await CreateResponse(media);
+    }
+
+    /// <inheritdoc />
+    public async Task<MediaOverrideResponse?> UpdateOverrides(MediaType mediaType, int id, MediaOverrides overrides)
+    {
+        var media = await FindEditable(mediaType, id);
+        if (media == null)
+        {
+            return null;
+        }
+
+        media.SourceLanguagesOverride = overrides.SourceLanguages is { Count: > 0 }
+            ? JsonSerializer.Serialize(overrides.SourceLanguages)
+            : null;
+        media.TargetLanguagesOverride = overrides.TargetLanguages is { Count: > 0 }
+            ? JsonSerializer.Serialize(overrides.TargetLanguages)
+            : null;
+        media.ServiceTypeOverride = NullIfEmpty(overrides.ServiceType);
+        media.ModelOverride = NullIfEmpty(overrides.Model);
+        media.AiPromptOverride = NullIfEmpty(overrides.AiPrompt);
+
+        // The effective languages changed, so the stored state has to be recomputed
+        if (media is Movie movie)
+        {
+            movie.TranslationState = TranslationState.Stale;
+        }
+        else
+        {
+            var episodes = await _dbContext.Episodes
+                .Where(e => e.Season.ShowId == id)
+                .ToListAsync();
+            foreach (var episode in episodes)
+            {
+                episode.TranslationState = TranslationState.Stale;
+            }
+        }
+
+        await _dbContext.SaveChangesAsync();
+        _logger.LogInformation("Updated translation overrides for {MediaType} {Id}", mediaType, id);
+
+        return await CreateResponse(media);
+    }
+
+    /// <summary>
+    /// Resolves the setting key holding the configured model for an AI translation service.
+    /// </summary>
+    /// <param name="serviceType">The configured translation service type</param>
+    /// <returns>The model setting key, or null when the service has no model selection</returns>
+    public static string? GetModelSettingKey(string serviceType)
+    {
+        return serviceType.ToLower() switch
+        {
+            "openai" => SettingKeys.Translation.OpenAi.Model,
+            "anthropic" => SettingKeys.Translation.Anthropic.Model,
+            "localai" => SettingKeys.Translation.LocalAi.Model,
+            "gemini" => SettingKeys.Translation.Gemini.Model,
+            "deepseek" => SettingKeys.Translation.DeepSeek.Model,
+            "chutes" => SettingKeys.Translation.Chutes.Model,
+            _ => null
+        };
+    }
+
+    /// <summary>
+    /// Finds the entity holding the overrides of a media item, episodes and seasons resolve to their show.
+    /// </summary>
+    private async Task<ITranslationOverrides?> FindOverrides(MediaType mediaType, int id)
+    {
+        return mediaType switch
+        {
+            MediaType.Movie => await _dbContext.Movies.FirstOrDefaultAsync(m => m.Id == id),
+            MediaType.Show => await _dbContext.Shows.FirstOrDefaultAsync(s => s.Id == id),
+            MediaType.Season => await _dbContext.Seasons
+                .Where(s => s.Id == id)
+                .Select(s => s.Show)
+                .FirstOrDefaultAsync(),
+            MediaType.Episode => await _dbContext.Episodes
+                .Where(e => e.Id == id)
+                .Select(e => e.Season.Show)
+                .FirstOrDefaultAsync(),
+            _ => null
+        };
+    }
+
+    private async Task<ITranslationOverrides?> FindEditable(MediaType mediaType, int id)
+    {
+        return mediaType switch
+        {
+            MediaType.Movie => await _dbContext.Movies.FirstOrDefaultAsync(m => m.Id == id),
+            MediaType.Show => await _dbContext.Shows.FirstOrDefaultAsync(s => s.Id == id),
+            _ => throw new ArgumentOutOfRangeException(nameof(mediaType), mediaType,
+                "Overrides can only be set on movies and shows")
+        };
+    }
+
+    /// <summary>
+    /// Converts the overrides into setting values, the model is stored under the key of the effective service.
+    /// </summary>
+    private async Task<Dictionary<string, string>> BuildSettings(ITranslationOverrides? media)
+    {
+        var settings = new Dictionary<string, string>();
+        if (media == null)
+        {
+            return settings;
+        }
+
+        if (media.SourceLanguagesOverride != null)
+        {
+            settings[SettingKeys.Translation.SourceLanguages] = media.SourceLanguagesOverride;
+        }
+        if (media.TargetLanguagesOverride != null)
+        {
+            settings[SettingKeys.Translation.TargetLanguages] = media.TargetLanguagesOverride;
+        }
+        if (media.ServiceTypeOverride != null)
+        {
+            settings[SettingKeys.Translation.ServiceType] = media.ServiceTypeOverride;
+        }
+        if (media.AiPromptOverride != null)
+        {
+            settings[SettingKeys.Translation.AiPrompt] = media.AiPromptOverride;
+        }
+        if (media.ModelOverride != null)
+        {
+            var serviceType = media.ServiceTypeOverride
+                              ?? await _settingService.GetSetting(SettingKeys.Translation.ServiceType)
+                              ?? string.Empty;
+            var modelKey = GetModelSettingKey(serviceType);
+            if (modelKey != null)
+            {
+                settings[modelKey] = media.ModelOverride;
+            }
+        }
+
+        return settings;
+    }
+
+    private async Task<MediaOverrideResponse> CreateResponse(ITranslationOverrides media)
+    {
+        var serviceType = media.ServiceTypeOverride
+                          ?? await _settingService.GetSetting(SettingKeys.Translation.ServiceType)
+                          ?? string.Empty;
+        var modelKey = GetModelSettingKey(serviceType);
+
+        return new MediaOverrideResponse
+        {
+            Overrides = new MediaOverrides
+            {
+                SourceLanguages = Deserialize<SourceLanguage>(media.SourceLanguagesOverride),
+                TargetLanguages = Deserialize<TargetLanguage>(media.TargetLanguagesOverride),
+                ServiceType = media.ServiceTypeOverride,
+                Model = media.ModelOverride,
+                AiPrompt = media.AiPromptOverride
+            },
+            Inherited = new MediaOverrides
+            {
+                SourceLanguages = await _settingService.GetSettingAsJson<SourceLanguage>(
+                    SettingKeys.Translation.SourceLanguages),
+                TargetLanguages = await _settingService.GetSettingAsJson<TargetLanguage>(
+                    SettingKeys.Translation.TargetLanguages),
+                ServiceType = await _settingService.GetSetting(SettingKeys.Translation.ServiceType),
+                Model = modelKey != null ? await _settingService.GetSetting(modelKey) : null,
+                AiPrompt = await _settingService.GetSetting(SettingKeys.Translation.AiPrompt)
+            }
+        };
+    }
+
+    private List<T>? Deserialize<T>(string? value) where T : class
+    {
+        if (value == null)
+        {
+            return null;
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<List<T>>(value);
+        }
+        catch (JsonException ex)
+        {
+            _logger.LogWarning(ex, "Ignoring invalid language override: {Value}", value);
+            return null;
+        }
+    }
+
+    private static string? NullIfEmpty(string? value)
+    {
+        return string.IsNullOrWhiteSpace(value) ? null : value;
+    }
+}
@@ -4,16 +4,32 @@ using Lingarr.Core.Enum;
 using Lingarr.Server.Models;
 using Microsoft.EntityFrameworkCore;
 using Lingarr.Server.Models.Api;
+using Lingarr.Server.Models.FileSystem;
 using Lingarr.Server.Interfaces.Services;
 using Lingarr.Server.Interfaces.Services.Sync;
 using Lingarr.Server.Interfaces.Services.Integration;
 using Lingarr.Server.Interfaces.Services.Subtitle;
 using Lingarr.Core.Interfaces;
+using Lingarr.Server.Services.Subtitle;
 
 namespace Lingarr.Server.Services;
 
 public class MediaService : IMediaService
 {
+    /// <summary>
+    /// Episode states ordered by how much attention they need, the first one found represents the show.
+    /// </summary>
+    internal static readonly TranslationState[] ShowStatePriority =
+    [
+        TranslationState.InProgress,
+        TranslationState.Pending,
+        TranslationState.Stale,
+        TranslationState.Unknown,
+        TranslationState.NoSuitableSubtitles,
+        TranslationState.Complete,
+        TranslationState.NotApplicable
+    ];
+
     private readonly LingarrDbContext _dbContext;
     private readonly ISubtitleService _subtitleService;
     private readonly ISonarrService _sonarrService;
@@ -48,7 +64,8 @@ public class MediaService : IMediaService
         string? orderBy,
         bool ascending,
         int pageNumber,
-        int pageSize)
+        int pageSize,
+        MediaFilter? filter = null)
     {
         var query = _dbContext.Movies
             .Include(m => m.Images)
@@ -60,6 +77,11 @@ public class MediaService : IMediaService
             query = query.Where(m => EF.Functions.ILike(m.Title, $"%{searchQuery}%"));
         }
 
+        if (filter != null)
+        {
+            query = ApplyFilter(query, filter);
+        }
+
         query = orderBy switch
         {
             "Id" => ascending ? query.OrderBy(m => m.Id) : query.OrderByDescending(m => m.Id),
@@ -74,33 +96,7 @@ public class MediaService : IMediaService
             .Take(pageSize)
             .ToListAsync();
 
-        var tasks = movies.Select(async movie =>
-        {
-            if (movie.Path == null)
-            {
-                return null;
-            }
-
-            var subtitles = await _subtitleService.GetAllSubtitles(movie.Path);
-            return new MovieResponse
-            {
-                Id = movie.Id,
-                RadarrId = movie.RadarrId,
-                Title = movie.Title,
-                FileName = movie.FileName ?? string.Empty,
-                Path = movie.Path,
-                DateAdded = movie.DateAdded,
-                Images = movie.Images,
-                Subtitles = subtitles,
-                ExcludeFromTranslation = movie.ExcludeFromTranslation,
-                TranslationAgeThreshold = movie.TranslationAgeThreshold,
-                IsPriority = movie.IsPriority,
-                PriorityDate = movie.PriorityDate,
-                TranslationState = (int)movie.TranslationState
-            };
-        });
-
-        var results = await Task.WhenAll(tasks);
+        var results = await Task.WhenAll(movies.Select(ToMovieResponse));
         var enrichedMovies = results.Where(m => m != null).Cast<MovieResponse>().ToList();
 
         return new PagedResult<MovieResponse>
@@ -225,7 +221,8 @@ public class MediaService : IMediaService
         string? orderBy,
         bool ascending,
         int pageNumber,
-        int pageSize)
+        int pageSize,
+        MediaFilter? filter = null)
     {
         var query = _dbContext.Shows
             .AsNoTracking()
@@ -238,6 +235,11 @@ public class MediaService : IMediaService
             query = query.Where(s => EF.Functions.ILike(s.Title, $"%{searchQuery}%"));
         }
 
+        if (filter != null)
+        {
+            query = ApplyFilter(query, filter);
+        }
+
         query = orderBy switch
         {
             "Id" => ascending ? query.OrderBy(s => s.Id) : query.OrderByDescending(s => s.Id),
@@ -252,6 +254,22 @@ public class MediaService : IMediaService
             .Take(pageSize)
             .ToListAsync();
 
+        var showIds = shows.Select(s => s.Id).ToList();
+        var episodeStates = await _dbContext.Episodes
+            .Where(e => showIds.Contains(e.Season.ShowId))
+            .Select(e => new { e.Season.ShowId, e.TranslationState })
+            .Distinct()
+            .ToListAsync();
+        var statesByShow = episodeStates.ToLookup(e => e.ShowId, e => e.TranslationState);
+
+        foreach (var show in shows)
+        {
+            var states = statesByShow[show.Id].ToHashSet();
+            show.TranslationState = states.Count > 0
+                ? (int)ShowStatePriority.First(states.Contains)
+                : null;
+        }
+
         return new PagedResult<Show>
         {
             Items = shows,
@@ -261,6 +279,40 @@ public class MediaService : IMediaService
         };
     }
 
+    /// <inheritdoc />
+    public async Task<List<int>> GetMediaIds(MediaType mediaType, string? searchQuery, MediaFilter? filter = null)
+    {
+        switch (mediaType)
+        {
+            case MediaType.Movie:
+                var movies = _dbContext.Movies.AsQueryable();
+                if (!string.IsNullOrEmpty(searchQuery))
+                {
+                    movies = movies.Where(m => EF.Functions.ILike(m.Title, $"%{searchQuery}%"));
+                }
+                if (filter != null)
+                {
+                    movies = ApplyFilter(movies, filter);
+                }
+                return await movies.OrderBy(m => m.Title).Select(m => m.Id).ToListAsync();
+
+            case MediaType.Show:
+                var shows = _dbContext.Shows.AsQueryable();
+                if (!string.IsNullOrEmpty(searchQuery))
+                {
+                    shows = shows.Where(s => EF.Functions.ILike(s.Title, $"%{searchQuery}%"));
+                }
+                if (filter != null)
+                {
+                    shows = ApplyFilter(shows, filter);
+                }
+                return await shows.OrderBy(s => s.Title).Select(s => s.Id).ToListAsync();
+
+            default:
+                throw new ArgumentOutOfRangeException(nameof(mediaType), mediaType, "Only movies and shows can be listed");
+        }
+    }
+
     /// <inheritdoc />
     public async Task<Show?> GetShow(int id)
     {
@@ -271,6 +323,62 @@ public class MediaService : IMediaService
             .AsSplitQuery()
             .FirstOrDefaultAsync(s => s.Id == id);
     }
+
+    /// <inheritdoc />
+    public async Task<MovieResponse?> GetMovie(int id)
+    {
+        var movie = await _dbContext.Movies
+            .Include(m => m.Images)
+            .FirstOrDefaultAsync(m => m.Id == id);
+        return movie == null ? null : await ToMovieResponse(movie);
+    }
+
+    /// <inheritdoc />
+    public async Task<EpisodeResponse?> GetEpisode(int id)
+    {
+        var episode = await _dbContext.Episodes
+            .Include(e => e.Season)
+            .ThenInclude(s => s.Show)
+            .ThenInclude(s => s.Images)
+            .FirstOrDefaultAsync(e => e.Id == id);
+        if (episode == null)
+        {
+            return null;
+        }
+
+        var subtitles = new List<Subtitles>();
+        if (episode.Path != null && episode.FileName != null)
+        {
+            // Episodes share their directory with the rest of the season
+            subtitles = (await _subtitleService.GetAllSubtitles(episode.Path))
+                .Where(s => s.FileName.StartsWith(episode.FileName + ".") || s.FileName == episode.FileName)
+                .ToList();
+        }
+
+        var show = episode.Season.Show;
+        return new EpisodeResponse
+        {
+            Id = episode.Id,
+            SonarrId = episode.SonarrId,
+            EpisodeNumber = episode.EpisodeNumber,
+            Title = episode.Title,
+            FileName = episode.FileName ?? string.Empty,
+            Path = episode.Path ?? string.Empty,
+            DateAdded = episode.DateAdded,
+            Subtitles = subtitles,
+            ExcludeFromTranslation = episode.ExcludeFromTranslation,
+            TranslationState = (int)episode.TranslationState,
+            SeasonId = episode.SeasonId,
+            SeasonNumber = episode.Season.SeasonNumber,
+            SeasonExcludeFromTranslation = episode.Season.ExcludeFromTranslation,
+            ShowId = show.Id,
+            ShowTitle = show.Title,
+            Images = show.Images,
+            ShowExcludeFromTranslation = show.ExcludeFromTranslation,
+            TranslationAgeThreshold = show.TranslationAgeThreshold,
+            IsPriority = show.IsPriority
+        };
+    }
     
     /// <inheritdoc />
     public async Task<bool> Exclude(
@@ -442,6 +550,20 @@ public class MediaService : IMediaService
                 case MediaType.Episode:
                     media = await _dbContext.Episodes.FindAsync(id);
                     break;
+                case MediaType.Season:
+                case MediaType.Show:
+                    var episodes = await GetTranslatableEpisodes(mediaType, id);
+                    if (episodes == null)
+                    {
+                        break;
+                    }
+
+                    var queued = 0;
+                    foreach (var episode in episodes)
+                    {
+                        queued += await _mediaSubtitleProcessor.ProcessMediaForceAsync(episode, MediaType.Episode, forceProcess: true, forceTranslation: false);
+                    }
+                    return queued;
                 default:
                     _logger.LogWarning("Unsupported media type for integrity check: {MediaType}", mediaType);
                     return 0;
@@ -463,6 +585,151 @@ public class MediaService : IMediaService
         }
     }
     
+    /// <inheritdoc />
+    public async Task<int?> TranslateMedia(MediaType mediaType, int id)
+    {
+        switch (mediaType)
+        {
+            case MediaType.Movie:
+                var movie = await _dbContext.Movies.FindAsync(id);
+                if (movie == null)
+                {
+                    return null;
+                }
+                _logger.LogInformation("Processing movie: {Title}, Path: {Path}", movie.Title, movie.Path);
+                var movieCount = await _mediaSubtitleProcessor.ProcessMediaForceAsync(movie, MediaType.Movie, forceProcess: true, forcePriority: true);
+                _logger.LogInformation("Movie {Title} queued {Count} translations", movie.Title, movieCount);
+                return movieCount;
+
+            case MediaType.Episode:
+                var episode = await _dbContext.Episodes.FindAsync(id);
+                if (episode == null)
+                {
+                    return null;
+                }
+                return await _mediaSubtitleProcessor.ProcessMediaForceAsync(episode, MediaType.Episode, forceProcess: true, forcePriority: true);
+
+            case MediaType.Season:
+            case MediaType.Show:
+                var episodes = await GetTranslatableEpisodes(mediaType, id);
+                if (episodes == null)
+                {
+                    return null;
+                }
+
+                var translationsQueued = 0;
+                foreach (var ep in episodes)
+                {
+                    var epCount = await _mediaSubtitleProcessor.ProcessMediaForceAsync(ep, MediaType.Episode, forceProcess: true, forcePriority: true);
+                    translationsQueued += epCount;
+                    if (epCount == 0)
+                    {
+                        _logger.LogDebug("Episode {EpisodeId} ({Title}) queued 0 translations", ep.Id, ep.Title);
+                    }
+                }
+                _logger.LogInformation(
+                    "{MediaType} {Id}: processed {Total} episodes, queued {Count} translations",
+                    mediaType, id, episodes.Count, translationsQueued);
+                return translationsQueued;
+
+            default:
+                throw new ArgumentOutOfRangeException(nameof(mediaType), mediaType, "Unsupported media type");
+        }
+    }
+
+    /// <inheritdoc />
+    public async Task<List<BulkMediaActionResult>> ApplyBulkAction(
+        BulkMediaAction action,
+        MediaType mediaType,
+        IReadOnlyCollection<int> ids,
+        bool isPriority = false,
+        int hours = 0)
+    {
+        var targets = await GetBulkTargets(mediaType, ids);
+
+        var results = new List<BulkMediaActionResult>();
+        var changed = false;
+        foreach (var id in ids.Distinct())
+        {
+            if (!targets.TryGetValue(id, out var target))
+            {
+                results.Add(new BulkMediaActionResult
+                {
+                    Id = id,
+                    Success = false,
+                    Message = $"{mediaType} with id {id} was not found"
+                });
+                continue;
+            }
+
+            var result = new BulkMediaActionResult
+            {
+                Id = id,
+                Title = target.Title
+            };
+
+            try
+            {
+                switch (action)
+                {
+                    case BulkMediaAction.SetPriority when target.SetPriority == null:
+                    case BulkMediaAction.SetThreshold when target.SetThreshold == null:
+                        result.Message = $"{action} is not supported for a {mediaType}";
+                        break;
+                    case BulkMediaAction.Translate:
+                        var translationsQueued = await TranslateMedia(mediaType, id) ?? 0;
+                        result.Message = translationsQueued > 0
+                            ? $"{translationsQueued} translation(s) queued"
+                            : "No translations needed";
+                        result.Success = true;
+                        break;
+                    case BulkMediaAction.IntegrityCheck:
+                        var repairsQueued = await IntegrityCheck(mediaType, id);
+                        result.Message = repairsQueued > 0
+                            ? $"{repairsQueued} translation(s) queued"
+                            : "No issues found";
+                        result.Success = true;
+                        break;
+                    case BulkMediaAction.Exclude:
+                    case BulkMediaAction.Include:
+                        var exclude = action == BulkMediaAction.Exclude;
+                        target.SetExcluded(exclude);
+                        changed = true;
+                        result.Message = exclude ? "Excluded from translation" : "Included in translation";
+                        result.Success = true;
+                        break;
+                    case BulkMediaAction.SetPriority:
+                        target.SetPriority!(isPriority);
+                        changed = true;
+                        result.Message = $"Priority set to {isPriority}";
+                        result.Success = true;
+                        break;
+                    case BulkMediaAction.SetThreshold:
+                        target.SetThreshold!(hours);
+                        changed = true;
+                        result.Message = $"Translation age threshold set to {hours} hour(s)";
+                        result.Success = true;
+                        break;
+                }
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Bulk {Action} failed for {MediaType} {Id}", action, mediaType, id);
+                result.Success = false;
+                result.Message = ex.Message;
+            }
+
+            results.Add(result);
+        }
+
+        if (changed)
+        {
+            await _dbContext.SaveChangesAsync();
+        }
+
+        return results;
+    }
+
     /// <inheritdoc />
     public string StartBulkIntegrityCheck()
     {
@@ -470,4 +737,209 @@ public class MediaService : IMediaService
         _logger.LogInformation("Started bulk integrity check job: {JobId}", jobId);
         return jobId;
     }
+
+    /// <summary>
+    /// Enriches a movie with the external subtitles found next to it, or null when it has no path.
+    /// </summary>
+    private async Task<MovieResponse?> ToMovieResponse(Movie movie)
+    {
+        if (movie.Path == null)
+        {
+            return null;
+        }
+
+        var subtitles = await _subtitleService.GetAllSubtitles(movie.Path);
+        return new MovieResponse
+        {
+            Id = movie.Id,
+            RadarrId = movie.RadarrId,
+            Title = movie.Title,
+            FileName = movie.FileName ?? string.Empty,
+            Path = movie.Path,
+            DateAdded = movie.DateAdded,
+            Images = movie.Images,
+            Subtitles = subtitles,
+            ExcludeFromTranslation = movie.ExcludeFromTranslation,
+            TranslationAgeThreshold = movie.TranslationAgeThreshold,
+            IsPriority = movie.IsPriority,
+            PriorityDate = movie.PriorityDate,
+            TranslationState = (int)movie.TranslationState
+        };
+    }
+
+    /// <summary>
+    /// Loads the episodes of a season or show that are not excluded from translation,
+    /// or null when the season or show does not exist.
+    /// </summary>
+    private async Task<List<Episode>?> GetTranslatableEpisodes(MediaType mediaType, int id)
+    {
+        if (mediaType == MediaType.Season)
+        {
+            var season = await _dbContext.Seasons
+                .Include(s => s.Episodes)
+                .FirstOrDefaultAsync(s => s.Id == id);
+            return season?.Episodes.Where(e => !e.ExcludeFromTranslation).ToList();
+        }
+
+        var show = await _dbContext.Shows
+            .Include(s => s.Seasons)
+            .ThenInclude(s => s.Episodes)
+            .FirstOrDefaultAsync(s => s.Id == id);
+        return show?.Seasons
+            .Where(s => !s.ExcludeFromTranslation)
+            .SelectMany(s => s.Episodes)
+            .Where(e => !e.ExcludeFromTranslation)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Loads the media items a bulk action applies to, keyed by their ID.
+    /// </summary>
+    private async Task<Dictionary<int, BulkTarget>> GetBulkTargets(MediaType mediaType, IReadOnlyCollection<int> ids)
+    {
+        switch (mediaType)
+        {
+            case MediaType.Movie:
+                return await _dbContext.Movies
+                    .Where(m => ids.Contains(m.Id))
+                    .ToDictionaryAsync(m => m.Id, m => new BulkTarget(
+                        m.Title,
+                        excluded => m.ExcludeFromTranslation = excluded,
+                        priority =>
+                        {
+                            if (m.IsPriority == priority) return;
+                            m.IsPriority = priority;
+                            m.PriorityDate = priority ? DateTime.UtcNow : null;
+                        },
+                        hours => m.TranslationAgeThreshold = hours));
+
+            case MediaType.Show:
+                return await _dbContext.Shows
+                    .Where(s => ids.Contains(s.Id))
+                    .ToDictionaryAsync(s => s.Id, s => new BulkTarget(
+                        s.Title,
+                        excluded => s.ExcludeFromTranslation = excluded,
+                        priority =>
+                        {
+                            if (s.IsPriority == priority) return;
+                            s.IsPriority = priority;
+                            s.PriorityDate = priority ? DateTime.UtcNow : null;
+                        },
+                        hours => s.TranslationAgeThreshold = hours));
+
+            case MediaType.Season:
+                return await _dbContext.Seasons
+                    .Include(s => s.Show)
+                    .Where(s => ids.Contains(s.Id))
+                    .ToDictionaryAsync(s => s.Id, s => new BulkTarget(
+                        $"{s.Show.Title} - Season {s.SeasonNumber}",
+                        excluded => s.ExcludeFromTranslation = excluded));
+
+            case MediaType.Episode:
+                return await _dbContext.Episodes
+                    .Include(e => e.Season)
+                    .ThenInclude(s => s.Show)
+                    .Where(e => ids.Contains(e.Id))
+                    .ToDictionaryAsync(e => e.Id, e => new BulkTarget(
+                        $"{e.Season.Show.Title} - S{e.Season.SeasonNumber:D2}E{e.EpisodeNumber:D2} - {e.Title}",
+                        excluded => e.ExcludeFromTranslation = excluded));
+
+            default:
+                throw new ArgumentOutOfRangeException(nameof(mediaType), mediaType, "Unsupported media type");
+        }
+    }
+
+    /// <summary>
+    /// A media item a bulk action applies to. Priority and threshold setters are null for
+    /// media types that do not support them.
+    /// </summary>
+    private sealed record BulkTarget(
+        string Title,
+        Action<bool> SetExcluded,
+        Action<bool>? SetPriority = null,
+        Action<int>? SetThreshold = null);
+
+    private static IQueryable<Movie> ApplyFilter(IQueryable<Movie> query, MediaFilter filter)
+    {
+        if (filter.TranslationState.HasValue)
+        {
+            query = query.Where(m => m.TranslationState == filter.TranslationState.Value);
+        }
+
+        if (!string.IsNullOrWhiteSpace(filter.MissingLanguage))
+        {
+            var token = SubtitleLanguageHelper.ToLanguageToken(filter.MissingLanguage);
+            query = query.Where(m => m.SubtitleLanguages == null || !m.SubtitleLanguages.Contains(token));
+        }
+
+        if (filter.IsExcluded.HasValue)
+        {
+            query = query.Where(m => m.ExcludeFromTranslation == filter.IsExcluded.Value);
+        }
+
+        if (filter.IsPriority.HasValue)
+        {
+            query = query.Where(m => m.IsPriority == filter.IsPriority.Value);
+        }
+
+        if (filter.AddedFrom.HasValue)
+        {
+            var addedFrom = filter.AddedFrom.Value.Date;
+            query = query.Where(m => m.DateAdded >= addedFrom);
+        }
+
+        if (filter.AddedTo.HasValue)
+        {
+            var addedTo = filter.AddedTo.Value.Date.AddDays(1);
+            query = query.Where(m => m.DateAdded < addedTo);
+        }
+
+        return query;
+    }
+
+    private static IQueryable<Show> ApplyFilter(IQueryable<Show> query, MediaFilter filter)
+    {
+        if (filter.TranslationState.HasValue)
+        {
+            // Matches the combined state shown for the show: an episode is in the requested state
+            // and none is in a state that takes precedence over it
+            var state = filter.TranslationState.Value;
+            var precedingStates = ShowStatePriority.TakeWhile(s => s != state).ToList();
+            query = query.Where(s =>
+                s.Seasons.SelectMany(season => season.Episodes).Any(e => e.TranslationState == state) &&
+                !s.Seasons.SelectMany(season => season.Episodes).Any(e => precedingStates.Contains(e.TranslationState)));
+        }
+
+        if (!string.IsNullOrWhiteSpace(filter.MissingLanguage))
+        {
+            var token = SubtitleLanguageHelper.ToLanguageToken(filter.MissingLanguage);
+            query = query.Where(s => s.Seasons
+                .SelectMany(season => season.Episodes)
+                .Any(e => e.SubtitleLanguages == null || !e.SubtitleLanguages.Contains(token)));
+        }
+
+        if (filter.IsExcluded.HasValue)
+        {
+            query = query.Where(s => s.ExcludeFromTranslation == filter.IsExcluded.Value);
+        }
+
+        if (filter.IsPriority.HasValue)
+        {
+            query = query.Where(s => s.IsPriority == filter.IsPriority.Value);
+        }
+
+        if (filter.AddedFrom.HasValue)
+        {
+            var addedFrom = filter.AddedFrom.Value.Date;
+            query = query.Where(s => s.DateAdded >= addedFrom);
+        }
+
+        if (filter.AddedTo.HasValue)
+        {
+            var addedTo = filter.AddedTo.Value.Date.AddDays(1);
+            query = query.Where(s => s.DateAdded < addedTo);
+        }
+
+        return query;
+    }
 }
@@ -21,17 +21,20 @@ public class MediaStateService : IMediaStateService
     private readonly LingarrDbContext _dbContext;
     private readonly ISettingService _settingService;
     private readonly ISubtitleService _subtitleService;
+    private readonly IMediaOverrideService _mediaOverrideService;
     private readonly ILogger<MediaStateService> _logger;
 
     public MediaStateService(
         LingarrDbContext dbContext,
         ISettingService settingService,
         ISubtitleService subtitleService,
+        IMediaOverrideService mediaOverrideService,
         ILogger<MediaStateService> logger)
     {
         _dbContext = dbContext;
         _settingService = settingService;
         _subtitleService = subtitleService;
+        _mediaOverrideService = mediaOverrideService;
         _logger = logger;
     }
 
@@ -61,9 +64,14 @@ public class MediaStateService : IMediaStateService
             if (episode == null) return TranslationState.Unknown;
         }
     
+        var entity = movie as IMedia ?? episode!;
+        using var overrides = await _mediaOverrideService.ApplyOverrides(entity, mediaType);
+        var externalSubtitles = await GetExternalSubtitlesAsync(entity);
+        var subtitleLanguages = SubtitleLanguageHelper.JoinLanguageTokens(externalSubtitles.Select(s => s.Language));
         var state = await ComputeStateAsync(
-            movie as IMedia ?? episode!, 
+            entity,
             mediaType,
+            externalSubtitles,
             movie?.EmbeddedSubtitles ?? episode!.EmbeddedSubtitles,
             movie?.ExcludeFromTranslation ?? episode!.ExcludeFromTranslation,
             episode?.Season?.ExcludeFromTranslation ?? false,
@@ -74,11 +82,13 @@ public class MediaStateService : IMediaStateService
         {
             movie.TranslationState = state;
             movie.StateSettingsVersion = currentVersion;
+            movie.SubtitleLanguages = subtitleLanguages;
         }
         else if (episode != null)
         {
             episode.TranslationState = state;
             episode.StateSettingsVersion = currentVersion;
+            episode.SubtitleLanguages = subtitleLanguages;
         }
     
         if (saveChanges)
@@ -96,6 +106,7 @@ public class MediaStateService : IMediaStateService
     private async Task<TranslationState> ComputeStateAsync(
         IMedia media,
         MediaType mediaType,
+        List<Subtitles> externalSubtitles,
         List<EmbeddedSubtitle> embeddedSubtitles,
         bool mediaExcluded,
         bool seasonExcluded,
@@ -122,28 +133,7 @@ public class MediaStateService : IMediaStateService
             return TranslationState.InProgress;
         }
 
-        // 4. Get external subtitles
-        var externalSubtitles = new List<Subtitles>();
-        if (!string.IsNullOrEmpty(media.Path))
-        {
-            try
-            {
-                var allSubs = await _subtitleService.GetAllSubtitles(media.Path);
-                var mediaNameNoExt = Path.GetFileNameWithoutExtension(media.FileName);
-                externalSubtitles = allSubs
-                    .Where(s => !string.IsNullOrEmpty(media.FileName) && 
-                               (s.FileName.StartsWith(media.FileName + ".") || 
-                                s.FileName == media.FileName ||
-                                (!string.IsNullOrEmpty(mediaNameNoExt) && s.FileName.StartsWith(mediaNameNoExt + "."))))
-                    .ToList();
-            }
-            catch (Exception ex)
-            {
-                _logger.LogDebug(ex, "Failed to get external subtitles for {Title}", media.Title);
-            }
-        }
-
-        // 5. Check for source subtitle
+        // 4. Check for source subtitle
         var hasExternalSource = externalSubtitles
             .Any(s => sourceLanguages.Any(sl => SubtitleLanguageHelper.LanguageMatches(s.Language, sl)));
         var hasEmbeddedSource = embeddedSubtitles
@@ -156,7 +146,7 @@ public class MediaStateService : IMediaStateService
             return TranslationState.NotApplicable;
         }
 
-        // 6. Check which targets are satisfied
+        // 5. Check which targets are satisfied
         var existingTargetLanguages = externalSubtitles
             .Select(s => s.Language.ToLowerInvariant())
             .ToHashSet();
@@ -274,6 +264,34 @@ public class MediaStateService : IMediaStateService
             (tr.Status == TranslationStatus.Pending || tr.Status == TranslationStatus.InProgress));
     }
 
+    /// <summary>
+    /// Lists the external subtitles that belong to the media file, ignoring those of other files in the same folder.
+    /// </summary>
+    private async Task<List<Subtitles>> GetExternalSubtitlesAsync(IMedia media)
+    {
+        if (string.IsNullOrEmpty(media.Path))
+        {
+            return [];
+        }
+
+        try
+        {
+            var allSubs = await _subtitleService.GetAllSubtitles(media.Path);
+            var mediaNameNoExt = Path.GetFileNameWithoutExtension(media.FileName);
+            return allSubs
+                .Where(s => !string.IsNullOrEmpty(media.FileName) && 
+                           (s.FileName.StartsWith(media.FileName + ".") || 
+                            s.FileName == media.FileName ||
+                            (!string.IsNullOrEmpty(mediaNameNoExt) && s.FileName.StartsWith(mediaNameNoExt + "."))))
+                .ToList();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogDebug(ex, "Failed to get external subtitles for {Title}", media.Title);
+            return [];
+        }
+    }
+
     private async Task<HashSet<string>> GetConfiguredLanguages(string settingKey)
     {
         try
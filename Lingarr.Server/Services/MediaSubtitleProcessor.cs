@@ -23,9 +23,12 @@ public class MediaSubtitleProcessor : IMediaSubtitleProcessor
     private readonly ISubtitleExtractionService _extractionService;
     private readonly LingarrDbContext _dbContext;
     private readonly ISubtitleIntegrityService _integrityService;
+    private readonly IMediaOverrideService _mediaOverrideService;
     private string _hash = string.Empty;
     private IMedia _media = null!;
     private MediaType _mediaType;
+    // Set while processing for a single target language, see ProcessMediaForLanguageAsync
+    private string? _requestedLanguage;
 
     public MediaSubtitleProcessor(
         ITranslationRequestService translationRequestService,
@@ -34,6 +37,7 @@ public class MediaSubtitleProcessor : IMediaSubtitleProcessor
         ISubtitleService subtitleService,
         ISubtitleExtractionService extractionService,
         ISubtitleIntegrityService integrityService,
+        IMediaOverrideService mediaOverrideService,
         LingarrDbContext dbContext)
     {
         _translationRequestService = translationRequestService;
@@ -41,6 +45,7 @@ public class MediaSubtitleProcessor : IMediaSubtitleProcessor
         _subtitleService = subtitleService;
         _extractionService = extractionService;
         _integrityService = integrityService;
+        _mediaOverrideService = mediaOverrideService;
         _dbContext = dbContext;
         _logger = logger;
     }
@@ -64,6 +69,7 @@ public class MediaSubtitleProcessor : IMediaSubtitleProcessor
             return false;
         }
 
+        using var overrides = await _mediaOverrideService.ApplyOverrides(media, mediaType);
         var sourceLanguages = await GetLanguagesSetting<SourceLanguage>(SettingKeys.Translation.SourceLanguages);
         var targetLanguages = await GetLanguagesSetting<TargetLanguage>(SettingKeys.Translation.TargetLanguages);
         var ignoreCaptions = await _settingService.GetSetting(SettingKeys.Translation.IgnoreCaptions);
@@ -405,6 +411,13 @@ public class MediaSubtitleProcessor : IMediaSubtitleProcessor
     /// <returns>A task representing the asynchronous operation.</returns>
     private async Task UpdateHash()
     {
+        // A single-language run does not cover the other target languages,
+        // keep the old hash so the next scan still picks them up
+        if (_requestedLanguage != null)
+        {
+            return;
+        }
+
         _media.MediaHash = _hash;
         _dbContext.Update(_media);
         await _dbContext.SaveChangesAsync();
@@ -423,6 +436,8 @@ public class MediaSubtitleProcessor : IMediaSubtitleProcessor
             return 0;
         }
         
+        // Scoped to the whole method so embedded fallbacks and queued requests use the same languages
+        using var overrides = await _mediaOverrideService.ApplyOverrides(media, mediaType);
         var allSubtitles = await _subtitleService.GetAllSubtitles(media.Path);
         var matchingSubtitles = allSubtitles
             .Where(s => s.FileName.StartsWith(media.FileName + ".") || s.FileName == media.FileName)
@@ -474,6 +489,34 @@ public class MediaSubtitleProcessor : IMediaSubtitleProcessor
         // return 0;
     }
     
+    /// <inheritdoc />
+    public async Task<int> ProcessMediaForLanguageAsync(
+        IMedia media,
+        MediaType mediaType,
+        string targetLanguage,
+        bool forcePriority = false)
+    {
+        _requestedLanguage = targetLanguage.Trim().ToLowerInvariant();
+        try
+        {
+            return await ProcessMediaForceAsync(media, mediaType, forceProcess: true, forceTranslation: false, forcePriority);
+        }
+        finally
+        {
+            _requestedLanguage = null;
+        }
+    }
+
+    /// <summary>
+    /// Narrows the languages to translate to the requested language while processing for a single language.
+    /// </summary>
+    private List<string> RestrictToRequestedLanguage(List<string> languages)
+    {
+        return _requestedLanguage == null
+            ? languages
+            : languages.Where(l => l.Equals(_requestedLanguage, StringComparison.OrdinalIgnoreCase)).ToList();
+    }
+
     /// <summary>
     /// Processes subtitle files for translation and returns the count of translations queued.
     /// </summary>
@@ -579,6 +622,7 @@ public class MediaSubtitleProcessor : IMediaSubtitleProcessor
                     }
                 }
 
+                languagesToTranslate = RestrictToRequestedLanguage(languagesToTranslate);
                 foreach (var targetLanguage in languagesToTranslate)
                 {
                     if (await HasActiveRequestAsync(media.Id, mediaType, sourceLanguage, targetLanguage))
@@ -951,6 +995,7 @@ public class MediaSubtitleProcessor : IMediaSubtitleProcessor
 
             // Create translation requests for each target language (with empty subtitle path - TranslationJob will extract)
             var translationsQueued = 0;
+            languagesToTranslate = RestrictToRequestedLanguage(languagesToTranslate);
             foreach (var targetLanguage in languagesToTranslate)
             {
                 if (await HasActiveRequestAsync(media.Id, mediaType, selectedSourceLanguage, targetLanguage))
@@ -39,14 +39,8 @@ public class ProgressService : IProgressService
             .Where(tr => tr.Id == translationRequest.Id)
             .ExecuteUpdateAsync(setters => setters.SetProperty(tr => tr.Progress, progress));
 
-        await _hubContext.Clients.Group("TranslationRequests").SendAsync("RequestProgress", new
-        {
-            Id = translationRequest.Id,
-            JobId = translationRequest.JobId,
-            CompletedAt = translationRequest.CompletedAt,
-            Status = translationRequest.Status.GetDisplayName(),
-            Progress = progress
-        });
+        await _hubContext.Clients.Group("TranslationRequests")
+            .SendAsync("RequestProgress", CreateProgressUpdate(translationRequest, progress));
     }
 
     /// <inheritdoc />
@@ -75,16 +69,31 @@ public class ProgressService : IProgressService
         {
             foreach (var request in batch)
             {
-                await _hubContext.Clients.Group("TranslationRequests").SendAsync("RequestProgress", new
-                {
-                    Id = request.Id,
-                    JobId = request.JobId,
-                    CompletedAt = request.CompletedAt,
-                    Status = request.Status.GetDisplayName(),
-                    Progress = progress
-                });
+                await _hubContext.Clients.Group("TranslationRequests")
+                    .SendAsync("RequestProgress", CreateProgressUpdate(request, progress));
             }
             await Task.Delay(delayMs);
         }
     }
+
+    /// <summary>
+    /// Builds the RequestProgress payload. Title and media are included so clients can report
+    /// the outcome of a request without fetching it first.
+    /// </summary>
+    private static object CreateProgressUpdate(TranslationRequest translationRequest, int progress)
+    {
+        return new
+        {
+            Id = translationRequest.Id,
+            JobId = translationRequest.JobId,
+            CompletedAt = translationRequest.CompletedAt,
+            Status = translationRequest.Status.GetDisplayName(),
+            Progress = progress,
+            Title = translationRequest.Title,
+            MediaId = translationRequest.MediaId,
+            MediaType = translationRequest.MediaType.GetDisplayName(),
+            SourceLanguage = translationRequest.SourceLanguage,
+            TargetLanguage = translationRequest.TargetLanguage
+        };
+    }
 }
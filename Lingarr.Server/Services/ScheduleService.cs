@@ -1,18 +1,39 @@
-﻿using Hangfire;
+﻿using System.Collections.Concurrent;
+using System.Text.Json;
+using Hangfire;
 using Hangfire.Storage;
 using Lingarr.Core.Configuration;
+using Lingarr.Core.Data;
+using Lingarr.Core.Entities;
 using Lingarr.Core.Enum;
+using Lingarr.Server.Filters;
 using Lingarr.Server.Hubs;
 using Lingarr.Server.Interfaces.Services;
 using Lingarr.Server.Jobs;
 using Lingarr.Server.Models;
 using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
 using Microsoft.OpenApi.Extensions;
 
 namespace Lingarr.Server.Services;
 
 public class ScheduleService : IScheduleService
 {
+    private const int RunHistoryLimit = 50;
+
+    /// <summary>
+    /// Recurring jobs that can be rescheduled or disabled, mapped to the setting holding their cron expression.
+    /// </summary>
+    private static readonly Dictionary<string, string> JobSchedules = new()
+    {
+        { nameof(SyncMovieJob), SettingKeys.Automation.MovieSchedule },
+        { nameof(SyncShowJob), SettingKeys.Automation.ShowSchedule },
+        { nameof(AutomatedTranslationJob), SettingKeys.Automation.TranslationSchedule },
+        { nameof(CleanupJob), SettingKeys.Automation.CleanupSchedule },
+        { nameof(StatisticsJob), SettingKeys.Automation.StatisticsSchedule }
+    };
+
+    private readonly ConcurrentDictionary<string, JobProgressUpdate> _activeProgress = new();
     private readonly IHubContext<JobProgressHub> _hubContext;
     private readonly IServiceProvider _serviceProvider;
     private readonly ILogger<IScheduleService> _logger;
@@ -31,73 +52,155 @@ public class ScheduleService : IScheduleService
     public async Task Initialize()
     {
         using var scope = _serviceProvider.CreateScope();
-        var settingService = scope.ServiceProvider.GetRequiredService<ISettingService>();
         var translationRequestService = scope.ServiceProvider.GetRequiredService<ITranslationRequestService>();
+        var dbContext = scope.ServiceProvider.GetRequiredService<LingarrDbContext>();
+
+        // Runs that were still open when the application stopped will never complete
+        var interruptedRuns = await dbContext.JobRuns
+            .Where(run => run.CompletedAt == null)
+            .ToListAsync();
+        foreach (var run in interruptedRuns)
+        {
+            run.Status = JobStatus.Cancelled;
+            run.CompletedAt = DateTime.UtcNow;
+        }
+        await dbContext.SaveChangesAsync();
+
+        _logger.LogInformation("Configuring media indexers.");
+        foreach (var jobId in JobSchedules.Keys)
+        {
+            await ConfigureRecurringJob(jobId);
+        }
+
+        _logger.LogInformation("Starting pending translation requests.");
+        await translationRequestService.ResumeTranslationRequests();
+    }
+
+    /// <inheritdoc />
+    public async Task ConfigureRecurringJob(string jobId)
+    {
+        if (!JobSchedules.TryGetValue(jobId, out var scheduleKey))
+        {
+            return;
+        }
 
+        using var scope = _serviceProvider.CreateScope();
+        var settingService = scope.ServiceProvider.GetRequiredService<ISettingService>();
         var settings = await settingService.GetSettings([
-            SettingKeys.Automation.MovieSchedule,
-            SettingKeys.Automation.ShowSchedule,
+            scheduleKey,
+            SettingKeys.Automation.DisabledJobs,
             SettingKeys.Automation.AutomationEnabled
         ]);
 
-        _logger.LogInformation("Configuring media indexers.");
-        foreach (var setting in settings)
+        var cron = settings.GetValueOrDefault(scheduleKey);
+        var isDisabled = ParseDisabledJobs(settings).Contains(jobId);
+        var isAutomationOff = jobId == nameof(AutomatedTranslationJob) &&
+                              settings.GetValueOrDefault(SettingKeys.Automation.AutomationEnabled) != "true";
+
+        if (string.IsNullOrEmpty(cron) || isDisabled || isAutomationOff)
         {
-            switch (setting.Key)
-            {
-                case "movie_schedule":
-                    RecurringJob.AddOrUpdate<SyncMovieJob>(
-                        "SyncMovieJob",
-                        job => job.Execute(),
-                        setting.Value);
-                    break;
-                case "show_schedule":
-                    RecurringJob.AddOrUpdate<SyncShowJob>(
-                        "SyncShowJob",
-                        job => job.Execute(),
-                        setting.Value);
-                    break;
-                case "automation_enabled":
-                    if (setting.Value == "true")
-                    {
-                        var translationSchedule = await settingService.GetSetting("translation_schedule");
-                        _logger.LogDebug("AutomatedTranslationJob schedule: '{Schedule}'", translationSchedule);
-                        RecurringJob.AddOrUpdate<AutomatedTranslationJob>(
-                            "AutomatedTranslationJob",
-                            job => job.Execute(),
-                            translationSchedule,
-                            new RecurringJobOptions { TimeZone = TimeZoneInfo.Utc });
-                    }
-
-                    break;
-            }
+            RecurringJob.RemoveIfExists(jobId);
+            return;
         }
 
-        RecurringJob.AddOrUpdate<CleanupJob>(
-            "CleanupJob",
-            job => job.Execute(),
-            Cron.Weekly,
-            new RecurringJobOptions { TimeZone = TimeZoneInfo.Utc });
+        _logger.LogDebug("{JobId} schedule: '{Schedule}'", jobId, cron);
+        AddOrUpdateRecurringJob(jobId, cron);
+    }
 
-        RecurringJob.AddOrUpdate<StatisticsJob>(
-            "StatisticsJob",
-            job => job.Execute(),
-            Cron.Daily,
-            new RecurringJobOptions { TimeZone = TimeZoneInfo.Utc });
+    /// <inheritdoc />
+    public async Task SetJobEnabled(string jobId, bool enabled)
+    {
+        if (!JobSchedules.ContainsKey(jobId))
+        {
+            throw new ArgumentException($"Job {jobId} does not have a configurable schedule.", nameof(jobId));
+        }
 
-        _logger.LogInformation("Starting pending translation requests.");
-        await translationRequestService.ResumeTranslationRequests();
+        using var scope = _serviceProvider.CreateScope();
+        var settingService = scope.ServiceProvider.GetRequiredService<ISettingService>();
+        var settings = await settingService.GetSettings([SettingKeys.Automation.DisabledJobs]);
+
+        var disabledJobs = ParseDisabledJobs(settings);
+        if (enabled)
+        {
+            disabledJobs.Remove(jobId);
+        }
+        else
+        {
+            disabledJobs.Add(jobId);
+        }
+
+        await settingService.SetSetting(
+            SettingKeys.Automation.DisabledJobs,
+            JsonSerializer.Serialize(disabledJobs.Order()));
+        await ConfigureRecurringJob(jobId);
     }
 
-    public List<RecurringJobStatus> GetRecurringJobs()
+    /// <inheritdoc />
+    public async Task UpdateJobSchedule(string jobId, string cron)
+    {
+        if (!JobSchedules.TryGetValue(jobId, out var scheduleKey))
+        {
+            throw new ArgumentException($"Job {jobId} does not have a configurable schedule.", nameof(jobId));
+        }
+
+        // Hangfire rejects invalid expressions, registering first keeps them out of the settings.
+        // A disabled job is removed again when it is configured below.
+        AddOrUpdateRecurringJob(jobId, cron);
+
+        using var scope = _serviceProvider.CreateScope();
+        var settingService = scope.ServiceProvider.GetRequiredService<ISettingService>();
+        await settingService.SetSetting(scheduleKey, cron);
+        await ConfigureRecurringJob(jobId);
+    }
+
+    /// <inheritdoc />
+    public async Task<List<JobRun>> GetJobRuns(string jobId, int limit)
+    {
+        using var scope = _serviceProvider.CreateScope();
+        var dbContext = scope.ServiceProvider.GetRequiredService<LingarrDbContext>();
+
+        return await dbContext.JobRuns
+            .AsNoTracking()
+            .Where(run => run.JobName == jobId)
+            .OrderByDescending(run => run.StartedAt)
+            .ThenByDescending(run => run.Id)
+            .Take(limit)
+            .ToListAsync();
+    }
+
+    /// <inheritdoc />
+    public async Task<List<RecurringJobStatus>> GetRecurringJobs()
     {
         var monitor = JobStorage.Current.GetMonitoringApi();
         var recurringJobs = JobStorage.Current.GetConnection().GetRecurringJobs();
 
-        return recurringJobs
+        using var scope = _serviceProvider.CreateScope();
+        var settingService = scope.ServiceProvider.GetRequiredService<ISettingService>();
+        var settings = await settingService.GetSettings(
+            JobSchedules.Values.Append(SettingKeys.Automation.DisabledJobs));
+
+        var jobs = recurringJobs
             .Select(job => MapToJobStatus(job, monitor))
-            .OrderBy(j => j.Id)
             .ToList();
+
+        // Disabled jobs are removed from Hangfire, list them with their stored schedule instead
+        foreach (var jobId in ParseDisabledJobs(settings))
+        {
+            if (!JobSchedules.TryGetValue(jobId, out var scheduleKey) || jobs.Any(job => job.Id == jobId))
+            {
+                continue;
+            }
+
+            jobs.Add(new RecurringJobStatus
+            {
+                Id = jobId,
+                Cron = settings.GetValueOrDefault(scheduleKey) ?? string.Empty,
+                IsEnabled = false,
+                Progress = _activeProgress.GetValueOrDefault(jobId)
+            });
+        }
+
+        return jobs.OrderBy(j => j.Id).ToList();
     }
 
     public string GetJobState(string jobId)
@@ -117,8 +220,18 @@ public class ScheduleService : IScheduleService
         return JobStatus.Planned.GetDisplayName();
     }
 
-    public async Task UpdateJobState(string jobId, string state)
+    /// <inheritdoc />
+    public async Task UpdateJobState(string jobId, string state, string? message = null)
     {
+        try
+        {
+            await RecordJobRun(jobId, state, message);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Unable to record run history for job {JobId}", jobId);
+        }
+
         try
         {
             await _hubContext.Clients.Group("JobProgress")
@@ -131,6 +244,150 @@ public class ScheduleService : IScheduleService
         }
     }
 
+    /// <inheritdoc />
+    public async Task UpdateJobProgress(string jobId, int itemsProcessed, int totalItems)
+    {
+        var progress = totalItems > 0
+            ? (int)Math.Round(Math.Min(itemsProcessed, totalItems) * 100.0 / totalItems)
+            : 100;
+        var previous = _activeProgress.GetValueOrDefault(jobId);
+        var update = new JobProgressUpdate
+        {
+            JobId = jobId,
+            Progress = progress,
+            ItemsProcessed = itemsProcessed,
+            TotalItems = totalItems
+        };
+        _activeProgress[jobId] = update;
+
+        // Only send when the percentage moves to keep large runs from flooding the clients
+        if (previous != null && previous.Progress == progress && itemsProcessed < totalItems)
+        {
+            return;
+        }
+
+        try
+        {
+            await _hubContext.Clients.Group("JobProgress")
+                .SendAsync("JobProgressUpdated", update);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating job progress for job {JobId}", jobId);
+        }
+    }
+
+    /// <summary>
+    /// Opens a run history entry when a job starts processing and completes it with the final state,
+    /// the number of processed items and an optional message.
+    /// </summary>
+    private async Task RecordJobRun(string jobId, string state, string? message)
+    {
+        if (!Enum.TryParse<JobStatus>(state, out var status))
+        {
+            return;
+        }
+
+        using var scope = _serviceProvider.CreateScope();
+        var dbContext = scope.ServiceProvider.GetRequiredService<LingarrDbContext>();
+
+        if (status == JobStatus.Processing)
+        {
+            // A run that returned without reporting a final state is superseded by the new run
+            var staleRuns = await dbContext.JobRuns
+                .Where(r => r.JobName == jobId && r.CompletedAt == null)
+                .ToListAsync();
+            foreach (var staleRun in staleRuns)
+            {
+                staleRun.Status = JobStatus.Cancelled;
+                staleRun.CompletedAt = DateTime.UtcNow;
+            }
+
+            _activeProgress[jobId] = new JobProgressUpdate { JobId = jobId };
+            dbContext.JobRuns.Add(new JobRun
+            {
+                JobName = jobId,
+                JobId = JobContextFilter.GetCurrentJobId()
+            });
+            await dbContext.SaveChangesAsync();
+            return;
+        }
+
+        if (status is not (JobStatus.Succeeded or JobStatus.Failed or JobStatus.Cancelled))
+        {
+            return;
+        }
+
+        _activeProgress.TryRemove(jobId, out var progress);
+        var run = await dbContext.JobRuns
+            .Where(r => r.JobName == jobId && r.CompletedAt == null)
+            .OrderByDescending(r => r.StartedAt)
+            .FirstOrDefaultAsync();
+        if (run == null)
+        {
+            return;
+        }
+
+        run.Status = status;
+        run.CompletedAt = DateTime.UtcNow;
+        run.ItemsProcessed = progress?.ItemsProcessed ?? run.ItemsProcessed;
+        run.Message = message;
+
+        var expiredRuns = await dbContext.JobRuns
+            .Where(r => r.JobName == jobId && r.Id != run.Id)
+            .OrderByDescending(r => r.StartedAt)
+            .Skip(RunHistoryLimit - 1)
+            .ToListAsync();
+        dbContext.JobRuns.RemoveRange(expiredRuns);
+
+        await dbContext.SaveChangesAsync();
+    }
+
+    /// <summary>
+    /// Registers the recurring job with the given cron expression.
+    /// </summary>
+    /// <exception cref="ArgumentException">Thrown by Hangfire when the cron expression is invalid.</exception>
+    private static void AddOrUpdateRecurringJob(string jobId, string cron)
+    {
+        var utc = new RecurringJobOptions { TimeZone = TimeZoneInfo.Utc };
+        switch (jobId)
+        {
+            case nameof(SyncMovieJob):
+                RecurringJob.AddOrUpdate<SyncMovieJob>(jobId, job => job.Execute(), cron);
+                break;
+            case nameof(SyncShowJob):
+                RecurringJob.AddOrUpdate<SyncShowJob>(jobId, job => job.Execute(), cron);
+                break;
+            case nameof(AutomatedTranslationJob):
+                RecurringJob.AddOrUpdate<AutomatedTranslationJob>(jobId, job => job.Execute(), cron, utc);
+                break;
+            case nameof(CleanupJob):
+                RecurringJob.AddOrUpdate<CleanupJob>(jobId, job => job.Execute(), cron, utc);
+                break;
+            case nameof(StatisticsJob):
+                RecurringJob.AddOrUpdate<StatisticsJob>(jobId, job => job.Execute(), cron, utc);
+                break;
+        }
+    }
+
+    private static HashSet<string> ParseDisabledJobs(Dictionary<string, string> settings)
+    {
+        var value = settings.GetValueOrDefault(SettingKeys.Automation.DisabledJobs);
+        if (string.IsNullOrEmpty(value))
+        {
+            return [];
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<HashSet<string>>(value) ?? [];
+        }
+        catch (JsonException)
+        {
+            return [];
+        }
+    }
+
     private RecurringJobStatus MapToJobStatus(RecurringJobDto dto, IMonitoringApi monitor)
     {
         var status = new RecurringJobStatus
@@ -144,7 +401,8 @@ public class ScheduleService : IScheduleService
             LastJobState = dto.LastJobState,
             LastExecution = dto.LastExecution,
             CreatedAt = dto.CreatedAt,
-            TimeZoneId = dto.TimeZoneId
+            TimeZoneId = dto.TimeZoneId,
+            Progress = _activeProgress.GetValueOrDefault(dto.Id)
         };
 
         // Check if there's a currently running job for this recurring job
@@ -0,0 +1,95 @@
+using Lingarr.Core.Configuration;
+using Lingarr.Core.Data;
+using Lingarr.Core.Entities;
+using Lingarr.Server.Interfaces.Services;
+using Lingarr.Server.Models;
+using Lingarr.Server.Models.Api;
+using Microsoft.EntityFrameworkCore;
+
+namespace Lingarr.Server.Services;
+
+/// <summary>
+/// Reads and reverts the changes recorded by the setting service.
+/// </summary>
+public class SettingHistoryService : ISettingHistoryService
+{
+    private readonly LingarrDbContext _dbContext;
+    private readonly ISettingService _settingService;
+    private readonly ILogger<SettingHistoryService> _logger;
+
+    public SettingHistoryService(
+        LingarrDbContext dbContext,
+        ISettingService settingService,
+        ILogger<SettingHistoryService> logger)
+    {
+        _dbContext = dbContext;
+        _settingService = settingService;
+        _logger = logger;
+    }
+
+    /// <inheritdoc />
+    public async Task<PagedResult<SettingChangeResponse>> GetHistory(string? key, int pageNumber, int pageSize)
+    {
+        var query = _dbContext.SettingChanges.AsNoTracking();
+        if (!string.IsNullOrEmpty(key))
+        {
+            query = query.Where(change => change.Key == key);
+        }
+
+        var totalCount = await query.CountAsync();
+        var changes = await query
+            .OrderByDescending(change => change.ChangedAt)
+            .ThenByDescending(change => change.Id)
+            .Skip((pageNumber - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync();
+
+        return new PagedResult<SettingChangeResponse>
+        {
+            Items = changes.Select(MapToResponse).ToList(),
+            TotalCount = totalCount,
+            PageNumber = pageNumber,
+            PageSize = pageSize
+        };
+    }
+
+    /// <inheritdoc />
+    public async Task<bool> RevertChange(int id)
+    {
+        var change = await _dbContext.SettingChanges
+            .AsNoTracking()
+            .FirstOrDefaultAsync(change => change.Id == id);
+        if (change == null)
+        {
+            return false;
+        }
+
+        if (SettingKeys.Secrets.Contains(change.Key) || SettingKeys.Internal.Contains(change.Key))
+        {
+            throw new InvalidOperationException($"Setting '{change.Key}' cannot be reverted from the history.");
+        }
+
+        if (change.OldValue == null)
+        {
+            throw new InvalidOperationException($"Setting '{change.Key}' had no value before this change.");
+        }
+
+        _logger.LogInformation("Reverting setting |Green|{Key}|/Green| to the value before change {Id}",
+            change.Key, change.Id);
+        return await _settingService.SetSetting(change.Key, change.OldValue);
+    }
+
+    private static SettingChangeResponse MapToResponse(SettingChange change)
+    {
+        var isSecret = SettingKeys.Secrets.Contains(change.Key);
+        return new SettingChangeResponse
+        {
+            Id = change.Id,
+            Key = change.Key,
+            OldValue = isSecret ? null : change.OldValue,
+            NewValue = isSecret ? null : change.NewValue,
+            ChangedAt = change.ChangedAt,
+            IsSecret = isSecret
+        };
+    }
+}
@@ -1,4 +1,5 @@
 ﻿using System.Text.Json;
+using Lingarr.Core.Configuration;
 using Lingarr.Core.Data;
 using Lingarr.Server.Interfaces.Services;
 using Lingarr.Server.Listener;
@@ -12,12 +13,23 @@ public delegate void SettingChangedHandler(SettingService ss, string setting);
 
 public class SettingService : ISettingService
 {
+    /// <summary>
+    /// Maximum number of changes kept in the settings history, older changes are removed.
+    /// </summary>
+    private const int HistoryLimit = 500;
+
+    /// <summary>
+    /// Stored in the settings history in place of secret values.
+    /// </summary>
+    private const string RedactedValue = "[redacted]";
+
     private readonly LingarrDbContext _dbContext;
     private readonly ILogger<ISettingService> _logger;
     public event SettingChangedHandler SettingChanged;
     
     private readonly IMemoryCache _cache;
     private readonly MemoryCacheEntryOptions _cacheOptions;
+    private readonly List<IReadOnlyDictionary<string, string>> _overrides = new();
 
     public SettingService(
         LingarrDbContext dbContext,
@@ -50,6 +62,11 @@ public class SettingService : ISettingService
     /// <inheritdoc />
     public async Task<string?> GetSetting(string key)
     {
+        if (TryGetOverride(key, out var overrideValue))
+        {
+            return overrideValue;
+        }
+
         if (_cache.TryGetValue(key, out string? cachedValue))
         {
             return cachedValue;
@@ -75,7 +92,11 @@ public class SettingService : ISettingService
 
         foreach (var key in keysList)
         {
-            if (_cache.TryGetValue(key, out string? cachedValue))
+            if (TryGetOverride(key, out var overrideValue))
+            {
+                result[key] = overrideValue;
+            }
+            else if (_cache.TryGetValue(key, out string? cachedValue))
             {
                 if (cachedValue != null)
                 {
@@ -113,6 +134,7 @@ public class SettingService : ISettingService
         return result;
     }
 
+    /// <inheritdoc />
     public async Task<List<T>> GetSettingAsJson<T>(string key) where T : class
     {
         var settingValue = await GetSetting(key);
@@ -134,10 +156,47 @@ public class SettingService : ISettingService
         }
     }
     
+    /// <inheritdoc />
+    public IDisposable UseOverrides(IReadOnlyDictionary<string, string> overrides)
+    {
+        _overrides.Add(overrides);
+        return new OverrideScope(() => _overrides.Remove(overrides));
+    }
+
+    /// <summary>
+    /// Looks up a key in the active overrides, the most recently applied overrides win.
+    /// </summary>
+    private bool TryGetOverride(string key, out string value)
+    {
+        for (var i = _overrides.Count - 1; i >= 0; i--)
+        {
+            if (_overrides[i].TryGetValue(key, out var overrideValue))
+            {
+                value = overrideValue;
+                return true;
+            }
+        }
+
+        value = string.Empty;
+        return false;
+    }
+
+    private sealed class OverrideScope(Action onDispose) : IDisposable
+    {
+        private Action? _onDispose = onDispose;
+
+        public void Dispose()
+        {
+            _onDispose?.Invoke();
+            _onDispose = null;
+        }
+    }
+    
     /// <inheritdoc />
     public async Task<bool> SetSetting(string key, string value)
     {
         var setting = await _dbContext.Settings.FirstOrDefaultAsync(s => s.Key == key);
+        var recorded = RecordChange(key, setting?.Value, value) ? 1 : 0;
         if (setting == null)
         {
             setting = new Setting
@@ -152,6 +211,7 @@ public class SettingService : ISettingService
             setting.Value = value;
         }
 
+        await RemoveExpiredChanges(recorded);
         await _dbContext.SaveChangesAsync();
         OnSettingChange(key);
         return true;
@@ -165,14 +225,17 @@ public class SettingService : ISettingService
             .Where(s => keys.Contains(s.Key))
             .ToDictionaryAsync(s => s.Key, s => s);
 
+        var recorded = 0;
         foreach (var setting in settings)
         {
             if (existingSettings.TryGetValue(setting.Key, out var existingSetting))
             {
+                recorded += RecordChange(setting.Key, existingSetting.Value, setting.Value) ? 1 : 0;
                 existingSetting.Value = setting.Value;
             }
             else
             {
+                recorded += RecordChange(setting.Key, null, setting.Value) ? 1 : 0;
                 var newSetting = new Setting
                 {
                     Key = setting.Key,
@@ -182,6 +245,7 @@ public class SettingService : ISettingService
             }
         }
 
+        await RemoveExpiredChanges(recorded);
         await _dbContext.SaveChangesAsync();
         foreach (var setting in settings)
         {
@@ -189,4 +253,45 @@ public class SettingService : ISettingService
         }
         return true;
     }
-}
\ No newline at end of file
+
+    /// <summary>
+    /// Adds an entry to the settings history, saved together with the new value. Internal settings are not
+    /// recorded and secret values are stored redacted.
+    /// </summary>
+    /// <returns>True when an entry was added</returns>
+    private bool RecordChange(string key, string? oldValue, string newValue)
+    {
+        if (oldValue == newValue || SettingKeys.Internal.Contains(key))
+        {
+            return false;
+        }
+
+        var isSecret = SettingKeys.Secrets.Contains(key);
+        _dbContext.SettingChanges.Add(new SettingChange
+        {
+            Key = key,
+            OldValue = isSecret && oldValue != null ? RedactedValue : oldValue,
+            NewValue = isSecret ? RedactedValue : newValue
+        });
+        return true;
+    }
+
+    /// <summary>
+    /// Removes the oldest history entries so the history stays within its limit once the pending entries are saved.
+    /// </summary>
+    /// <param name="pending">Number of entries added but not saved yet</param>
+    private async Task RemoveExpiredChanges(int pending)
+    {
+        if (pending == 0)
+        {
+            return;
+        }
+
+        var expiredChanges = await _dbContext.SettingChanges
+            .OrderByDescending(change => change.ChangedAt)
+            .ThenByDescending(change => change.Id)
+            .Skip(Math.Max(0, HistoryLimit - pending))
+            .ToListAsync();
+        _dbContext.SettingChanges.RemoveRange(expiredChanges);
+    }
+}
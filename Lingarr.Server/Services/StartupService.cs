@@ -37,6 +37,8 @@ public class StartupService : IHostedService
             // Translation Core
             { SettingKeys.Translation.ServiceType, "localai" },
             { SettingKeys.Translation.MaxParallelTranslations, "1" },
+            { SettingKeys.Translation.QueuePaused, "false" },
+            { SettingKeys.Translation.PausedServiceTypes, "[]" },
             { SettingKeys.Translation.SourceLanguages, "[]" },
             { SettingKeys.Translation.TargetLanguages, "[]" },
             { SettingKeys.Translation.FixOverlappingSubtitles, "false" },
@@ -93,6 +95,9 @@ public class StartupService : IHostedService
             { SettingKeys.Automation.ShowSchedule, "0 4 * * *" },
             { SettingKeys.Automation.MovieAgeThreshold, "0" },
             { SettingKeys.Automation.ShowAgeThreshold, "0" },
+            { SettingKeys.Automation.CleanupSchedule, "0 0 * * 0" },
+            { SettingKeys.Automation.StatisticsSchedule, "0 0 * * *" },
+            { SettingKeys.Automation.DisabledJobs, "[]" },
 
             // Subtitle Extraction
             { SettingKeys.SubtitleExtraction.ExtractionMode, "on_demand" },
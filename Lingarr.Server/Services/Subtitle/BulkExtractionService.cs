@@ -0,0 +1,243 @@
+using Lingarr.Core.Data;
+using Lingarr.Core.Entities;
+using Lingarr.Core.Enum;
+using Lingarr.Server.Interfaces.Services;
+using Lingarr.Server.Interfaces.Services.Subtitle;
+using Lingarr.Server.Jobs;
+using Lingarr.Server.Models.Api;
+using Microsoft.EntityFrameworkCore;
+
+namespace Lingarr.Server.Services.Subtitle;
+
+/// <summary>
+/// Extracts embedded subtitle tracks that match a set of rules from every episode of a show or season.
+/// </summary>
+public class BulkExtractionService : IBulkExtractionService
+{
+    private readonly LingarrDbContext _dbContext;
+    private readonly ISubtitleExtractionService _extractionService;
+    private readonly IMediaSubtitleProcessor _mediaSubtitleProcessor;
+    private readonly ILogger<BulkExtractionService> _logger;
+
+    public BulkExtractionService(
+        LingarrDbContext dbContext,
+        ISubtitleExtractionService extractionService,
+        IMediaSubtitleProcessor mediaSubtitleProcessor,
+        ILogger<BulkExtractionService> logger)
+    {
+        _dbContext = dbContext;
+        _extractionService = extractionService;
+        _mediaSubtitleProcessor = mediaSubtitleProcessor;
+        _logger = logger;
+    }
+
+    /// <inheritdoc />
+    public async Task<EmbeddedTrackSummaryResponse?> GetTrackSummary(MediaType mediaType, int id)
+    {
+        var episodes = await GetEpisodes(mediaType, id);
+        if (episodes == null)
+        {
+            return null;
+        }
+
+        var groups = episodes
+            .SelectMany(e => (e.EmbeddedSubtitles ?? new List<EmbeddedSubtitle>()).Select(track => (e.Id, Track: track)))
+            .GroupBy(t => (
+                Language: t.Track.Language?.ToLowerInvariant(),
+                CodecName: t.Track.CodecName.ToLowerInvariant(),
+                t.Track.IsTextBased,
+                t.Track.IsForced,
+                t.Track.IsDefault))
+            .Select(g => new EmbeddedTrackGroup
+            {
+                Language = g.Key.Language,
+                CodecName = g.Key.CodecName,
+                IsTextBased = g.Key.IsTextBased,
+                IsForced = g.Key.IsForced,
+                IsDefault = g.Key.IsDefault,
+                EpisodeCount = g.Select(t => t.Id).Distinct().Count(),
+                ExtractedCount = g.Where(t => t.Track.IsExtracted).Select(t => t.Id).Distinct().Count()
+            })
+            .OrderByDescending(g => g.EpisodeCount)
+            .ThenBy(g => g.Language)
+            .ThenBy(g => g.CodecName)
+            .ToList();
+
+        return new EmbeddedTrackSummaryResponse
+        {
+            EpisodeCount = episodes.Count,
+            UnprobedCount = episodes.Count(IsUnprobed),
+            Groups = groups
+        };
+    }
+
+    /// <inheritdoc />
+    public string StartExtraction(BulkExtractionRequest request)
+    {
+        var jobId = Hangfire.BackgroundJob.Enqueue<BulkExtractionJob>(job => job.Execute(request));
+        _logger.LogInformation(
+            "Started bulk extraction job {JobId} for {MediaType} {Id}",
+            jobId, request.MediaType, request.Id);
+        return jobId;
+    }
+
+    /// <inheritdoc />
+    public async Task<BulkExtractionStats> ExtractMatching(
+        BulkExtractionRequest request,
+        Func<BulkExtractionStats, Task>? onProgress = null)
+    {
+        var stats = new BulkExtractionStats
+        {
+            MediaType = request.MediaType,
+            Id = request.Id,
+            IsRunning = true
+        };
+        var episodes = await GetEpisodes(request.MediaType, request.Id) ?? new List<Episode>();
+        stats.Total = episodes.Count;
+        await Report(stats, onProgress);
+
+        foreach (var episode in episodes)
+        {
+            try
+            {
+                await ExtractEpisode(episode, request, stats);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Error extracting embedded subtitles from episode {EpisodeId}", episode.Id);
+                stats.ErrorCount++;
+            }
+
+            stats.ProcessedCount++;
+            await Report(stats, onProgress);
+        }
+
+        stats.IsRunning = false;
+        stats.IsComplete = true;
+        await Report(stats, onProgress);
+
+        _logger.LogInformation(
+            "Bulk extraction for {MediaType} {Id} completed: {Extracted} extracted, {Skipped} skipped, {Queued} queued, {Errors} errors",
+            request.MediaType, request.Id, stats.ExtractedCount, stats.SkippedCount, stats.QueuedCount, stats.ErrorCount);
+        return stats;
+    }
+
+    /// <summary>
+    /// Extracts the matching tracks of one episode, tracks that were extracted before are reused for translation.
+    /// </summary>
+    private async Task ExtractEpisode(Episode episode, BulkExtractionRequest request, BulkExtractionStats stats)
+    {
+        if (string.IsNullOrEmpty(episode.Path) || string.IsNullOrEmpty(episode.FileName))
+        {
+            stats.SkippedCount++;
+            return;
+        }
+
+        if (IsUnprobed(episode))
+        {
+            await _extractionService.SyncEmbeddedSubtitles(episode);
+            await _dbContext.Entry(episode).Collection(e => e.EmbeddedSubtitles!).LoadAsync();
+        }
+
+        var tracks = (episode.EmbeddedSubtitles ?? new List<EmbeddedSubtitle>())
+            .Where(track => request.Rules.Any(rule => rule.Matches(track)))
+            .OrderBy(track => track.StreamIndex)
+            .ToList();
+        if (tracks.Count == 0)
+        {
+            stats.SkippedCount++;
+            return;
+        }
+
+        var mediaPath = Path.Combine(episode.Path, episode.FileName);
+        var hasSource = false;
+        foreach (var track in tracks)
+        {
+            if (track.IsExtracted)
+            {
+                hasSource = true;
+                continue;
+            }
+
+            var extractedPath = await _extractionService.ExtractSubtitle(
+                mediaPath,
+                track.StreamIndex,
+                episode.Path,
+                track.CodecName,
+                track.Language);
+            if (string.IsNullOrEmpty(extractedPath))
+            {
+                stats.ErrorCount++;
+                continue;
+            }
+
+            track.IsExtracted = true;
+            track.ExtractedPath = extractedPath;
+            stats.ExtractedCount++;
+            hasSource = true;
+        }
+
+        await _dbContext.SaveChangesAsync();
+
+        if (request.Translate && hasSource && !IsExcluded(episode))
+        {
+            stats.QueuedCount += await _mediaSubtitleProcessor.ProcessMediaForceAsync(
+                episode,
+                MediaType.Episode,
+                forceProcess: true,
+                forceTranslation: false);
+        }
+    }
+
+    /// <summary>
+    /// Loads the episodes of a show or season with their embedded tracks, or null if it does not exist.
+    /// </summary>
+    private async Task<List<Episode>?> GetEpisodes(MediaType mediaType, int id)
+    {
+        var query = _dbContext.Episodes
+            .Include(e => e.EmbeddedSubtitles)
+            .Include(e => e.Season)
+            .ThenInclude(s => s.Show)
+            .AsQueryable();
+        query = mediaType switch
+        {
+            MediaType.Show => query.Where(e => e.Season.ShowId == id),
+            MediaType.Season => query.Where(e => e.SeasonId == id),
+            _ => throw new ArgumentOutOfRangeException(nameof(mediaType), mediaType, "Only shows and seasons support bulk extraction")
+        };
+
+        var episodes = await query
+            .OrderBy(e => e.Season.SeasonNumber)
+            .ThenBy(e => e.EpisodeNumber)
+            .ToListAsync();
+        if (episodes.Count > 0)
+        {
+            return episodes;
+        }
+
+        var exists = mediaType == MediaType.Show
+            ? await _dbContext.Shows.AnyAsync(s => s.Id == id)
+            : await _dbContext.Seasons.AnyAsync(s => s.Id == id);
+        return exists ? episodes : null;
+    }
+
+    private static async Task Report(BulkExtractionStats stats, Func<BulkExtractionStats, Task>? onProgress)
+    {
+        if (onProgress != null)
+        {
+            await onProgress(stats);
+        }
+    }
+
+    private static bool IsUnprobed(Episode episode)
+    {
+        return episode.EmbeddedSubtitles == null || episode.EmbeddedSubtitles.Count == 0;
+    }
+
+    private static bool IsExcluded(Episode episode)
+    {
+        return episode.ExcludeFromTranslation ||
+               episode.Season.ExcludeFromTranslation ||
+               episode.Season.Show.ExcludeFromTranslation;
+    }
+}
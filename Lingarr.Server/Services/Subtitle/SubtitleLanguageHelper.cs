@@ -154,6 +154,30 @@ public static class SubtitleLanguageHelper
         return string.Equals(sub, src, StringComparison.OrdinalIgnoreCase);
     }
 
+    /// <summary>
+    /// Wraps a language code in the delimiters used by <see cref="JoinLanguageTokens"/>,
+    /// so a single language can be matched in a stored list with a plain contains check.
+    /// </summary>
+    public static string ToLanguageToken(string language)
+    {
+        return $"|{language.Trim().ToLowerInvariant()}|";
+    }
+
+    /// <summary>
+    /// Stores a set of subtitle languages as one delimited string, e.g. "|en|nl|".
+    /// An empty set is stored as "|" so scanned media without subtitles can be told apart from unscanned media.
+    /// </summary>
+    public static string JoinLanguageTokens(IEnumerable<string> languages)
+    {
+        var codes = languages
+            .Where(language => !string.IsNullOrWhiteSpace(language))
+            .Select(language => language.Trim().ToLowerInvariant())
+            .Distinct()
+            .Order()
+            .ToList();
+        return codes.Count == 0 ? "|" : $"|{string.Join('|', codes)}|";
+    }
+
     /// <summary>
     /// Scores an embedded subtitle candidate based on language match, title heuristics and flags.
     /// Higher scores indicate better candidates for full dialogue translation.
@@ -0,0 +1,433 @@
+using Lingarr.Core.Configuration;
+using Lingarr.Core.Data;
+using Lingarr.Core.Entities;
+using Lingarr.Core.Enum;
+using Lingarr.Server.Interfaces.Services;
+using Lingarr.Server.Interfaces.Services.Subtitle;
+using Lingarr.Server.Interfaces.Services.Translation;
+using Lingarr.Server.Models.Api;
+using Lingarr.Server.Models.FileSystem;
+using Microsoft.EntityFrameworkCore;
+
+namespace Lingarr.Server.Services.Subtitle;
+
+/// <summary>
+/// Service for aligning a translated subtitle with its source so individual cues can be spot-checked and corrected.
+/// </summary>
+public class SubtitleReviewService : ISubtitleReviewService
+{
+    private readonly ISubtitleService _subtitleService;
+    private readonly ITranslationServiceFactory _translationServiceFactory;
+    private readonly ISettingService _settings;
+    private readonly IMediaOverrideService _mediaOverrideService;
+    private readonly LingarrDbContext _dbContext;
+    private readonly ILogger<SubtitleReviewService> _logger;
+
+    /// <summary>
+    /// Maximum difference in start time for two cues to be considered the same cue.
+    /// </summary>
+    private const int AlignmentToleranceMs = 1000;
+
+    /// <summary>
+    /// A translation is flagged as too long when it exceeds the source by this factor...
+    /// </summary>
+    private const double TooLongRatio = 2.0;
+
+    /// <summary>
+    /// ...and by at least this many characters, so short interjections are not flagged.
+    /// </summary>
+    private const int TooLongMinimumDifference = 20;
+
+    /// <summary>
+    /// Subtitle formats that can be reviewed and edited.
+    /// </summary>
+    private static readonly string[] ReviewableExtensions = [".srt", ".ssa", ".ass"];
+
+    public SubtitleReviewService(
+        ISubtitleService subtitleService,
+        ITranslationServiceFactory translationServiceFactory,
+        ISettingService settings,
+        IMediaOverrideService mediaOverrideService,
+        LingarrDbContext dbContext,
+        ILogger<SubtitleReviewService> logger)
+    {
+        _subtitleService = subtitleService;
+        _translationServiceFactory = translationServiceFactory;
+        _settings = settings;
+        _mediaOverrideService = mediaOverrideService;
+        _dbContext = dbContext;
+        _logger = logger;
+    }
+
+    /// <inheritdoc />
+    public async Task<SubtitleReviewResponse?> GetReview(
+        string sourcePath,
+        string translatedPath,
+        string? sourceLanguage = null,
+        string? targetLanguage = null)
+    {
+        var source = await ResolveMediaSubtitle(sourcePath);
+        var translated = await ResolveMediaSubtitle(translatedPath);
+        if (source == null || translated == null)
+        {
+            return null;
+        }
+
+        return await CreateReview(source.Path, translated.Path, sourceLanguage, targetLanguage);
+    }
+
+    /// <inheritdoc />
+    public async Task<SubtitleReviewResponse?> GetReviewForRequest(int translationRequestId)
+    {
+        var translationRequest = await _dbContext.TranslationRequests
+            .FirstOrDefaultAsync(tr => tr.Id == translationRequestId && tr.Status == TranslationStatus.Completed);
+        if (translationRequest?.SubtitleToTranslate == null || translationRequest.TranslatedSubtitle == null)
+        {
+            return null;
+        }
+
+        return await CreateReview(
+            translationRequest.SubtitleToTranslate,
+            translationRequest.TranslatedSubtitle,
+            translationRequest.SourceLanguage,
+            translationRequest.TargetLanguage);
+    }
+
+    /// <summary>
+    /// Loads both subtitle files and aligns their cues, the paths are trusted to be subtitles of indexed media.
+    /// </summary>
+    private async Task<SubtitleReviewResponse?> CreateReview(
+        string sourcePath,
+        string translatedPath,
+        string? sourceLanguage,
+        string? targetLanguage)
+    {
+        if (!File.Exists(sourcePath) || !File.Exists(translatedPath))
+        {
+            _logger.LogWarning("Unable to review subtitle, file not found. Source: {SourcePath}, translation: {TranslatedPath}",
+                sourcePath, translatedPath);
+            return null;
+        }
+
+        var source = await _subtitleService.ReadSubtitles(sourcePath);
+        var translated = await _subtitleService.ReadSubtitles(translatedPath);
+
+        return new SubtitleReviewResponse
+        {
+            SourcePath = sourcePath,
+            TranslatedPath = translatedPath,
+            SourceLanguage = sourceLanguage,
+            TargetLanguage = targetLanguage,
+            Cues = AlignCues(source, translated),
+            Edits = await GetEdits(translatedPath)
+        };
+    }
+
+    /// <inheritdoc />
+    public async Task<SubtitleEditDto?> UpdateCue(string translatedPath, int position, string text)
+    {
+        var mediaSubtitle = await ResolveMediaSubtitle(translatedPath);
+        if (mediaSubtitle == null || !File.Exists(mediaSubtitle.Path))
+        {
+            return null;
+        }
+
+        translatedPath = mediaSubtitle.Path;
+        var subtitles = await _subtitleService.ReadSubtitles(translatedPath);
+        var cue = subtitles.FirstOrDefault(subtitle => subtitle.Position == position);
+        if (cue == null)
+        {
+            return null;
+        }
+
+        var edit = new SubtitleEdit
+        {
+            FilePath = translatedPath,
+            Position = position,
+            PreviousText = string.Join("\n", cue.Lines),
+            NewText = text
+        };
+
+        // The edited cue is written as plain text, every other cue keeps its original markup
+        await WriteCue(translatedPath, subtitles, position, SplitLines(text));
+        _dbContext.SubtitleEdits.Add(edit);
+        await _dbContext.SaveChangesAsync();
+
+        _logger.LogInformation("Updated cue {Position} of subtitle {FilePath}", position, translatedPath);
+        return ToDto(edit);
+    }
+
+    /// <inheritdoc />
+    public async Task<SubtitleEditDto?> UndoLastEdit(string translatedPath)
+    {
+        var mediaSubtitle = await ResolveMediaSubtitle(translatedPath);
+        if (mediaSubtitle == null)
+        {
+            return null;
+        }
+
+        translatedPath = mediaSubtitle.Path;
+        var edit = await _dbContext.SubtitleEdits
+            .Where(e => e.FilePath == translatedPath)
+            .OrderByDescending(e => e.EditedAt)
+            .ThenByDescending(e => e.Id)
+            .FirstOrDefaultAsync();
+        if (edit == null || !File.Exists(translatedPath))
+        {
+            return null;
+        }
+
+        var subtitles = await _subtitleService.ReadSubtitles(translatedPath);
+        if (subtitles.All(subtitle => subtitle.Position != edit.Position))
+        {
+            return null;
+        }
+
+        await WriteCue(translatedPath, subtitles, edit.Position, SplitLines(edit.PreviousText));
+        _dbContext.SubtitleEdits.Remove(edit);
+        await _dbContext.SaveChangesAsync();
+
+        _logger.LogInformation("Reverted edit of cue {Position} in subtitle {FilePath}", edit.Position, translatedPath);
+        return ToDto(edit);
+    }
+
+    /// <inheritdoc />
+    public async Task<string?> RetranslateCue(
+        string sourcePath,
+        int sourcePosition,
+        string sourceLanguage,
+        string targetLanguage,
+        CancellationToken cancellationToken)
+    {
+        var source = await ResolveMediaSubtitle(sourcePath);
+        if (source == null || !File.Exists(source.Path))
+        {
+            return null;
+        }
+
+        var subtitles = await _subtitleService.ReadSubtitles(source.Path);
+        var index = subtitles.FindIndex(subtitle => subtitle.Position == sourcePosition);
+        if (index < 0)
+        {
+            return null;
+        }
+
+        // Retranslate with the service, model and prompt the media would be translated with
+        using var overrides = await _mediaOverrideService.ApplyOverrides(source.MediaType, source.MediaId);
+        var settings = await _settings.GetSettings([
+            SettingKeys.Translation.ServiceType,
+            SettingKeys.Translation.AiContextBefore,
+            SettingKeys.Translation.AiContextAfter
+        ]);
+        var serviceType = settings[SettingKeys.Translation.ServiceType] ?? "localai";
+        var contextBefore = int.TryParse(settings[SettingKeys.Translation.AiContextBefore], out var linesBefore)
+            ? linesBefore
+            : 0;
+        var contextAfter = int.TryParse(settings[SettingKeys.Translation.AiContextAfter], out var linesAfter)
+            ? linesAfter
+            : 0;
+
+        var subtitleLine = string.Join(" ", subtitles[index].PlaintextLines);
+        if (subtitleLine == "")
+        {
+            return subtitleLine;
+        }
+
+        var contextStart = Math.Max(0, index - contextBefore);
+        var contextLinesBefore = subtitles
+            .GetRange(contextStart, index - contextStart)
+            .Select(subtitle => string.Join(" ", subtitle.PlaintextLines))
+            .ToList();
+        var contextLinesAfter = subtitles
+            .Skip(index + 1)
+            .Take(contextAfter)
+            .Select(subtitle => string.Join(" ", subtitle.PlaintextLines))
+            .ToList();
+
+        var translationService = _translationServiceFactory.CreateTranslationService(serviceType);
+        var subtitleTranslator = new SubtitleTranslationService(translationService, _logger);
+
+        return await subtitleTranslator.TranslateSubtitleLine(new TranslateAbleSubtitleLine
+            {
+                SubtitleLine = subtitleLine,
+                SourceLanguage = sourceLanguage,
+                TargetLanguage = targetLanguage,
+                ContextLinesBefore = contextLinesBefore.Count > 0 ? contextLinesBefore : null,
+                ContextLinesAfter = contextLinesAfter.Count > 0 ? contextLinesAfter : null
+            },
+            cancellationToken);
+    }
+
+    /// <summary>
+    /// Pairs source and translated cues by start time. Both lists are walked in order; cues that
+    /// overlap and start within the tolerance are paired, anything else becomes a one-sided row.
+    /// </summary>
+    /// <param name="source">Cues of the source subtitle</param>
+    /// <param name="translated">Cues of the translated subtitle</param>
+    /// <returns>The aligned review rows in playback order</returns>
+    public static List<SubtitleReviewCue> AlignCues(List<SubtitleItem> source, List<SubtitleItem> translated)
+    {
+        var sourceCues = source.OrderBy(cue => cue.StartTime).ToList();
+        var translatedCues = translated.OrderBy(cue => cue.StartTime).ToList();
+        var rows = new List<SubtitleReviewCue>();
+
+        int i = 0, j = 0;
+        while (i < sourceCues.Count || j < translatedCues.Count)
+        {
+            var sourceCue = i < sourceCues.Count ? sourceCues[i] : null;
+            var translatedCue = j < translatedCues.Count ? translatedCues[j] : null;
+
+            if (sourceCue != null && translatedCue != null && IsSameCue(sourceCue, translatedCue))
+            {
+                rows.Add(CreateRow(sourceCue, translatedCue));
+                i++;
+                j++;
+            }
+            else if (translatedCue == null || (sourceCue != null && sourceCue.StartTime <= translatedCue.StartTime))
+            {
+                rows.Add(CreateRow(sourceCue, null));
+                i++;
+            }
+            else
+            {
+                rows.Add(CreateRow(null, translatedCue));
+                j++;
+            }
+        }
+
+        return rows;
+    }
+
+    /// <summary>
+    /// Resolves a subtitle path supplied by a client to the indexed movie or episode whose directory contains it.
+    /// Files outside the media directories or in another format are rejected, so the review endpoints can not be
+    /// used to read or overwrite arbitrary files.
+    /// </summary>
+    /// <param name="path">The subtitle path supplied by the client</param>
+    /// <returns>The normalized path and the media it belongs to, or null when it is not a subtitle of indexed media</returns>
+    private async Task<MediaSubtitle?> ResolveMediaSubtitle(string path)
+    {
+        if (string.IsNullOrWhiteSpace(path))
+        {
+            return null;
+        }
+
+        var fullPath = Path.GetFullPath(path);
+        if (!ReviewableExtensions.Contains(Path.GetExtension(fullPath).ToLowerInvariant()))
+        {
+            _logger.LogWarning("Rejected subtitle {Path}, the file is not a supported subtitle format", path);
+            return null;
+        }
+
+        // Subtitles can live in a subdirectory of the media directory, so every parent directory is a candidate
+        var directories = new List<string>();
+        for (var directory = Path.GetDirectoryName(fullPath);
+             !string.IsNullOrEmpty(directory);
+             directory = Path.GetDirectoryName(directory))
+        {
+            directories.Add(directory);
+        }
+
+        var movieId = await _dbContext.Movies
+            .Where(movie => movie.Path != null && directories.Contains(movie.Path))
+            .Select(movie => (int?)movie.Id)
+            .FirstOrDefaultAsync();
+        if (movieId.HasValue)
+        {
+            return new MediaSubtitle(fullPath, MediaType.Movie, movieId.Value);
+        }
+
+        var episodeId = await _dbContext.Episodes
+            .Where(episode => episode.Path != null && directories.Contains(episode.Path))
+            .Select(episode => (int?)episode.Id)
+            .FirstOrDefaultAsync();
+        if (episodeId.HasValue)
+        {
+            return new MediaSubtitle(fullPath, MediaType.Episode, episodeId.Value);
+        }
+
+        _logger.LogWarning("Rejected subtitle {Path}, the file is not located in the directory of indexed media", path);
+        return null;
+    }
+
+    private async Task<List<SubtitleEditDto>> GetEdits(string translatedPath)
+    {
+        var edits = await _dbContext.SubtitleEdits
+            .Where(edit => edit.FilePath == translatedPath)
+            .OrderByDescending(edit => edit.EditedAt)
+            .ThenByDescending(edit => edit.Id)
+            .ToListAsync();
+
+        return edits.Select(ToDto).ToList();
+    }
+
+    /// <summary>
+    /// Rewrites the subtitle file with the given lines for one cue. The writers output
+    /// <see cref="SubtitleItem.TranslatedLines"/>, so every other cue is copied over unchanged.
+    /// </summary>
+    private async Task WriteCue(string filePath, List<SubtitleItem> subtitles, int position, List<string> lines)
+    {
+        foreach (var subtitle in subtitles)
+        {
+            subtitle.TranslatedLines = subtitle.Position == position ? lines : subtitle.Lines;
+        }
+
+        await _subtitleService.WriteSubtitles(filePath, subtitles, false);
+    }
+
+    private static List<string> SplitLines(string text)
+    {
+        return text.ReplaceLineEndings("\n").Split('\n').ToList();
+    }
+
+    private static SubtitleEditDto ToDto(SubtitleEdit edit)
+    {
+        return new SubtitleEditDto
+        {
+            Id = edit.Id,
+            Position = edit.Position,
+            PreviousText = edit.PreviousText,
+            NewText = edit.NewText,
+            EditedAt = edit.EditedAt
+        };
+    }
+
+    private static bool IsSameCue(SubtitleItem source, SubtitleItem translated)
+    {
+        var overlaps = source.StartTime < translated.EndTime && translated.StartTime < source.EndTime;
+        return overlaps && Math.Abs(source.StartTime - translated.StartTime) <= AlignmentToleranceMs;
+    }
+
+    private static SubtitleReviewCue CreateRow(SubtitleItem? source, SubtitleItem? translated)
+    {
+        var sourceText = source != null ? string.Join("\n", source.PlaintextLines) : null;
+        var translatedText = translated != null ? string.Join("\n", translated.PlaintextLines) : null;
+        var timing = source ?? translated!;
+
+        var row = new SubtitleReviewCue
+        {
+            SourcePosition = source?.Position,
+            TranslatedPosition = translated?.Position,
+            StartTime = timing.StartTime,
+            EndTime = timing.EndTime,
+            SourceText = sourceText,
+            TranslatedText = translatedText,
+            IsEmpty = string.IsNullOrWhiteSpace(translatedText)
+        };
+
+        if (!row.IsEmpty && !string.IsNullOrWhiteSpace(sourceText))
+        {
+            var sourceLength = sourceText.Trim().Length;
+            var translatedLength = translatedText!.Trim().Length;
+
+            row.IsIdentical = string.Equals(sourceText.Trim(), translatedText.Trim(),
+                StringComparison.OrdinalIgnoreCase);
+            row.IsTooLong = translatedLength > sourceLength * TooLongRatio &&
+                            translatedLength - sourceLength >= TooLongMinimumDifference;
+        }
+
+        return row;
+    }
+
+    private sealed record MediaSubtitle(string Path, MediaType MediaType, int MediaId);
+}
\ No newline at end of file
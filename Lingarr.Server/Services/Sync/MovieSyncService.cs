@@ -24,7 +24,13 @@ public class MovieSyncService : IMovieSyncService
     }
 
     /// <inheritdoc />
-    public async Task SyncMovies(List<RadarrMovie> movies)
+    public Task SyncMovies(List<RadarrMovie> movies)
+    {
+        return SyncMovies(movies, _ => Task.CompletedTask);
+    }
+
+    /// <inheritdoc />
+    public async Task SyncMovies(List<RadarrMovie> movies, Func<int, Task> onBatchSaved)
     {
         var processedCount = 0;
         
@@ -36,12 +42,14 @@ public class MovieSyncService : IMovieSyncService
             if (processedCount % BatchSize == 0)
             {
                 await SaveChanges(processedCount, movies.Count);
+                await onBatchSaved(processedCount);
             }
         }
 
         if (processedCount % BatchSize != 0)
         {
             await SaveChanges(processedCount, movies.Count);
+            await onBatchSaved(processedCount);
         }
     }
 
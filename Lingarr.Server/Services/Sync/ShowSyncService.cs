@@ -31,7 +31,13 @@ public class ShowSyncService : IShowSyncService
     }
 
     /// <inheritdoc />
-    public async Task SyncShows(List<SonarrShow> shows)
+    public Task SyncShows(List<SonarrShow> shows)
+    {
+        return SyncShows(shows, _ => Task.CompletedTask);
+    }
+
+    /// <inheritdoc />
+    public async Task SyncShows(List<SonarrShow> shows, Func<int, Task> onBatchSaved)
     {
         var processedCount = 0;
         
@@ -50,12 +56,14 @@ public class ShowSyncService : IShowSyncService
             if (processedCount % BatchSize == 0)
             {
                 await SaveChanges(processedCount, shows.Count);
+                await onBatchSaved(processedCount);
             }
         }
 
         if (processedCount % BatchSize != 0)
         {
             await SaveChanges(processedCount, shows.Count);
+            await onBatchSaved(processedCount);
         }
     }
 
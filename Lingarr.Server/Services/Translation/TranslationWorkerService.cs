@@ -3,6 +3,7 @@ using Lingarr.Core.Configuration;
 using Lingarr.Core.Data;
 using Lingarr.Core.Entities;
 using Lingarr.Core.Enum;
+using Lingarr.Server.Extensions;
 using Lingarr.Server.Interfaces.Services;
 using Lingarr.Server.Interfaces.Services.Translation;
 using Lingarr.Server.Jobs;
@@ -204,12 +205,37 @@ public class TranslationWorkerService : BackgroundService, ITranslationWorkerSer
         using var scope = _serviceProvider.CreateScope();
         var dbContext = scope.ServiceProvider.GetRequiredService<LingarrDbContext>();
         
-        // Step 1: Find the next pending request (priority first, then oldest)
+        // Step 0: Leave pending requests alone while the queue is paused
+        var settingService = scope.ServiceProvider.GetRequiredService<ISettingService>();
+        var settings = await settingService.GetSettings([
+            SettingKeys.Translation.QueuePaused,
+            SettingKeys.Translation.ServiceType
+        ]);
+        if (settings[SettingKeys.Translation.QueuePaused] == "true")
+        {
+            return false;
+        }
+        
+        // Step 1: Find the next pending request (lane and manual position first, then priority and age),
+        // skipping requests whose effective service (the media override, else the configured one) is paused
+        var serviceType = settings[SettingKeys.Translation.ServiceType];
+        var pausedServices = await settingService.GetSettingAsJson<string>(SettingKeys.Translation.PausedServiceTypes);
         var candidate = await dbContext.TranslationRequests
             .AsNoTracking()
             .Where(r => r.Status == TranslationStatus.Pending)
-            .OrderByDescending(r => r.IsPriority)
-            .ThenBy(r => r.CreatedAt)
+            .Where(r => pausedServices.Count == 0 || !pausedServices.Contains(
+                (r.MediaType == MediaType.Movie
+                    ? dbContext.Movies
+                        .Where(m => m.Id == r.MediaId)
+                        .Select(m => m.ServiceTypeOverride)
+                        .FirstOrDefault()
+                    : r.MediaType == MediaType.Episode
+                        ? dbContext.Episodes
+                            .Where(e => e.Id == r.MediaId)
+                            .Select(e => e.Season.Show.ServiceTypeOverride)
+                            .FirstOrDefault()
+                        : null) ?? serviceType))
+            .OrderByQueue()
             .Select(r => r.Id)
             .FirstOrDefaultAsync(stoppingToken);
         
@@ -1,13 +1,17 @@
-﻿using DeepL;
+﻿using System.Runtime.CompilerServices;
+using System.Text.Json;
+using DeepL;
 using Lingarr.Core.Data;
 using Lingarr.Core.Entities;
 using Lingarr.Core.Enum;
 using Lingarr.Core.Configuration;
+using Lingarr.Server.Extensions;
 using Lingarr.Server.Hubs;
 using Lingarr.Server.Interfaces.Services;
 using Lingarr.Server.Interfaces.Services.Translation;
 using Lingarr.Server.Jobs;
 using Lingarr.Server.Models;
+using Lingarr.Server.Models.Api;
 using Lingarr.Server.Models.Batch.Response;
 using Lingarr.Server.Models.FileSystem;
 using Microsoft.AspNetCore.SignalR;
@@ -18,6 +22,17 @@ namespace Lingarr.Server.Services;
 public class TranslationRequestService : ITranslationRequestService
 {
 
+    /// <summary>
+    /// Throughput is calculated from at most this many completions within the rolling window.
+    /// </summary>
+    private const int ThroughputSampleSize = 50;
+    private const int ThroughputWindowDays = 7;
+
+    /// <summary>
+    /// Number of requests read from the database at a time while exporting.
+    /// </summary>
+    private const int ExportPageSize = 500;
+
     private static bool IsActiveStatus(TranslationStatus status) =>
         status == TranslationStatus.Pending || status == TranslationStatus.InProgress;
     
@@ -122,7 +137,8 @@ public class TranslationRequestService : ITranslationRequestService
             SubtitleToTranslate = translationRequest.SubtitleToTranslate,
             MediaType = translationRequest.MediaType,
             Status = TranslationStatus.Pending,
-            IsActive = true
+            IsActive = true,
+            Lane = forcePriority ? TranslationLane.Urgent : translationRequest.Lane
         };
 
         _dbContext.TranslationRequests.Add(translationRequestCopy);
@@ -191,6 +207,19 @@ public class TranslationRequestService : ITranslationRequestService
             .ToListAsync();
     }
 
+    /// <inheritdoc />
+    public async Task<TranslationRequest?> GetTranslationRequest(int translationRequestId)
+    {
+        var translationRequest = await _dbContext.TranslationRequests
+            .FirstOrDefaultAsync(tr => tr.Id == translationRequestId);
+        if (translationRequest != null)
+        {
+            await PopulatePriorityFlagsAsync([translationRequest]);
+        }
+
+        return translationRequest;
+    }
+
     /// <inheritdoc />
     public async Task<List<TranslationRequest>> GetFailedRequests()
     {
@@ -215,6 +244,226 @@ public class TranslationRequestService : ITranslationRequestService
         return requests;
     }
 
+    /// <inheritdoc />
+    public async Task<TranslationThroughputResponse> GetThroughput()
+    {
+        var since = DateTime.UtcNow.AddDays(-ThroughputWindowDays);
+        var sample = await _dbContext.TranslationRequests
+            .Where(tr => tr.Status == TranslationStatus.Completed &&
+                         tr.StartedAt != null &&
+                         tr.CompletedAt != null &&
+                         tr.CompletedAt >= since)
+            .OrderByDescending(tr => tr.CompletedAt)
+            .Take(ThroughputSampleSize)
+            .ToListAsync();
+
+        var serviceType = await _settingService.GetSetting(SettingKeys.Translation.ServiceType);
+        var maxParallel = int.TryParse(
+            await _settingService.GetSetting(SettingKeys.Translation.MaxParallelTranslations),
+            out var parsedParallel)
+            ? Math.Max(1, parsedParallel)
+            : 1;
+
+        var busyTime = GetBusyTime(sample.Select(tr => (tr.StartedAt!.Value, tr.CompletedAt!.Value)));
+        var services = sample
+            .Where(tr => !string.IsNullOrEmpty(tr.ServiceType))
+            .GroupBy(tr => tr.ServiceType!)
+            .Select(group =>
+            {
+                var counted = group.Where(tr => tr.LineCount.HasValue).ToList();
+                var countedMinutes = counted.Sum(tr => (tr.CompletedAt!.Value - tr.StartedAt!.Value).TotalMinutes);
+                return new ServiceThroughput
+                {
+                    ServiceType = group.Key,
+                    LinesPerMinute = countedMinutes > 0 ? counted.Sum(tr => tr.LineCount!.Value) / countedMinutes : 0,
+                    AverageDurationSeconds = group.Average(tr => (tr.CompletedAt!.Value - tr.StartedAt!.Value).TotalSeconds),
+                    CompletedRequests = group.Count()
+                };
+            })
+            .OrderByDescending(service => service.CompletedRequests)
+            .ToList();
+
+        return new TranslationThroughputResponse
+        {
+            ServiceType = serviceType,
+            MaxParallelTranslations = maxParallel,
+            PendingRequests = await _dbContext.TranslationRequests.CountAsync(tr => tr.Status == TranslationStatus.Pending),
+            RequestsPerHour = busyTime.TotalHours > 0 ? sample.Count / busyTime.TotalHours : 0,
+            AverageDurationSeconds = sample.Count > 0
+                ? sample.Average(tr => (tr.CompletedAt!.Value - tr.StartedAt!.Value).TotalSeconds)
+                : 0,
+            SampleSize = sample.Count,
+            Services = services
+        };
+    }
+
+    /// <summary>
+    /// Total time covered by at least one of the given intervals. Overlapping requests that ran in
+    /// parallel are only counted once and idle gaps between requests are left out.
+    /// </summary>
+    private static TimeSpan GetBusyTime(IEnumerable<(DateTime Start, DateTime End)> intervals)
+    {
+        var busyTime = TimeSpan.Zero;
+        DateTime? currentStart = null;
+        DateTime? currentEnd = null;
+
+        foreach (var (start, end) in intervals.OrderBy(interval => interval.Start))
+        {
+            if (currentEnd == null || start > currentEnd)
+            {
+                if (currentStart != null)
+                {
+                    busyTime += currentEnd!.Value - currentStart.Value;
+                }
+                currentStart = start;
+                currentEnd = end;
+            }
+            else if (end > currentEnd)
+            {
+                currentEnd = end;
+            }
+        }
+
+        if (currentStart != null)
+        {
+            busyTime += currentEnd!.Value - currentStart.Value;
+        }
+
+        return busyTime;
+    }
+
+    /// <inheritdoc />
+    public async Task<TranslationQueuePauseState> GetQueuePauseState()
+    {
+        var settings = await _settingService.GetSettings([
+            SettingKeys.Translation.QueuePaused,
+            SettingKeys.Translation.PausedServiceTypes,
+            SettingKeys.Translation.ServiceType
+        ]);
+        var isPaused = settings[SettingKeys.Translation.QueuePaused] == "true";
+        var pausedServices = await _settingService.GetSettingAsJson<string>(SettingKeys.Translation.PausedServiceTypes);
+        var serviceType = settings[SettingKeys.Translation.ServiceType];
+
+        return new TranslationQueuePauseState
+        {
+            IsPaused = isPaused,
+            PausedServices = pausedServices,
+            ServiceType = serviceType,
+            IsProcessingPaused = isPaused || pausedServices.Contains(serviceType),
+            InterruptedRequests = await _dbContext.TranslationRequests
+                .CountAsync(tr => tr.Status == TranslationStatus.Interrupted)
+        };
+    }
+
+    /// <inheritdoc />
+    public async Task<TranslationQueuePauseState> SetQueuePaused(
+        bool paused,
+        string? serviceType = null,
+        bool interruptInProgress = false)
+    {
+        if (string.IsNullOrEmpty(serviceType))
+        {
+            await _settingService.SetSetting(SettingKeys.Translation.QueuePaused, paused ? "true" : "false");
+        }
+        else
+        {
+            var pausedServices = await _settingService.GetSettingAsJson<string>(SettingKeys.Translation.PausedServiceTypes);
+            pausedServices.Remove(serviceType);
+            if (paused)
+            {
+                pausedServices.Add(serviceType);
+            }
+            await _settingService.SetSetting(SettingKeys.Translation.PausedServiceTypes,
+                JsonSerializer.Serialize(pausedServices));
+        }
+
+        if (paused && interruptInProgress)
+        {
+            await InterruptInProgressRequests(serviceType);
+        }
+        else if (!paused)
+        {
+            await ResumeInterruptedRequests(serviceType);
+            _workerService.Signal();
+        }
+
+        _logger.LogInformation("Translation queue {Action} for {Scope}",
+            paused ? "paused" : "resumed",
+            string.IsNullOrEmpty(serviceType) ? "all services" : serviceType);
+
+        var state = await GetQueuePauseState();
+        await _hubContext.Clients.Group("TranslationRequests").SendAsync("QueuePaused", state);
+        return state;
+    }
+
+    /// <summary>
+    /// Marks in-progress requests as Interrupted and signals their jobs to stop. The job keeps the
+    /// Interrupted status when it handles the cancellation, so the request can be picked up again on resume.
+    /// </summary>
+    /// <param name="serviceType">Only interrupt requests translated by this service, or all when empty</param>
+    private async Task InterruptInProgressRequests(string? serviceType)
+    {
+        var requests = await _dbContext.TranslationRequests
+            .Where(tr => tr.Status == TranslationStatus.InProgress)
+            .Where(tr => string.IsNullOrEmpty(serviceType) || tr.ServiceType == serviceType)
+            .ToListAsync();
+        if (requests.Count == 0)
+        {
+            return;
+        }
+
+        var now = DateTime.UtcNow;
+        foreach (var request in requests)
+        {
+            request.Status = TranslationStatus.Interrupted;
+            request.CompletedAt = now;
+            request.IsActive = null;
+        }
+        await _dbContext.SaveChangesAsync();
+
+        foreach (var request in requests)
+        {
+            _cancellationService.CancelJob(request.Id);
+            await _progressService.Emit(request, 0);
+        }
+        await UpdateActiveCount();
+
+        _logger.LogInformation("Interrupted {Count} in-progress translation request(s)", requests.Count);
+    }
+
+    /// <summary>
+    /// Puts requests that were interrupted by a pause back into the queue.
+    /// </summary>
+    /// <param name="serviceType">Only resume requests translated by this service, or all when empty</param>
+    private async Task ResumeInterruptedRequests(string? serviceType)
+    {
+        var requests = await _dbContext.TranslationRequests
+            .Where(tr => tr.Status == TranslationStatus.Interrupted)
+            .Where(tr => string.IsNullOrEmpty(serviceType) || tr.ServiceType == serviceType)
+            .ToListAsync();
+        if (requests.Count == 0)
+        {
+            return;
+        }
+
+        foreach (var request in requests)
+        {
+            request.Status = TranslationStatus.Pending;
+            request.CompletedAt = null;
+            request.IsActive = true;
+            request.Progress = 0;
+        }
+        await _dbContext.SaveChangesAsync();
+
+        foreach (var request in requests)
+        {
+            await _progressService.Emit(request, 0);
+        }
+        await UpdateActiveCount();
+
+        _logger.LogInformation("Queued {Count} interrupted translation request(s) again", requests.Count);
+    }
+
     /// <inheritdoc />
     public async Task<int> UpdateActiveCount()
     {
@@ -282,7 +531,103 @@ public class TranslationRequestService : ITranslationRequestService
     }
 
     /// <inheritdoc />
-    /// <inheritdoc />
+    public async Task<List<BulkTranslationActionResult>> ApplyBulkAction(
+        BulkTranslationAction action,
+        IReadOnlyCollection<int> ids,
+        bool isPriority = false,
+        TranslationLane lane = TranslationLane.Normal)
+    {
+        var requests = await _dbContext.TranslationRequests
+            .Where(tr => ids.Contains(tr.Id))
+            .ToDictionaryAsync(tr => tr.Id);
+
+        var results = new List<BulkTranslationActionResult>();
+        var priorityChanged = false;
+        foreach (var id in ids.Distinct())
+        {
+            if (!requests.TryGetValue(id, out var translationRequest))
+            {
+                results.Add(new BulkTranslationActionResult
+                {
+                    Id = id,
+                    Success = false,
+                    Message = $"Translation request with id {id} was not found"
+                });
+                continue;
+            }
+
+            var result = new BulkTranslationActionResult
+            {
+                Id = id,
+                Title = translationRequest.Title
+            };
+
+            try
+            {
+                var isActive = IsActiveStatus(translationRequest.Status);
+                switch (action)
+                {
+                    case BulkTranslationAction.Retry when isActive:
+                    case BulkTranslationAction.Remove when translationRequest.Status == TranslationStatus.InProgress:
+                        result.Message = $"Translation request is still {translationRequest.Status}";
+                        break;
+                    case BulkTranslationAction.Cancel when !isActive:
+                    case BulkTranslationAction.SetPriority when !isActive:
+                    case BulkTranslationAction.SetLane when !isActive:
+                        result.Message = $"Translation request is already {translationRequest.Status}";
+                        break;
+                    case BulkTranslationAction.Retry:
+                        result.Message = await RetryTranslationRequest(translationRequest) ?? string.Empty;
+                        result.Success = true;
+                        break;
+                    case BulkTranslationAction.Cancel:
+                        result.Message = await CancelTranslationRequest(translationRequest) ?? string.Empty;
+                        result.Success = true;
+                        break;
+                    case BulkTranslationAction.Remove:
+                        // Pending requests are cancelled first so the worker does not claim them mid-removal
+                        if (isActive)
+                        {
+                            await CancelTranslationRequest(translationRequest);
+                        }
+                        result.Message = await RemoveTranslationRequest(translationRequest) ?? string.Empty;
+                        result.Success = true;
+                        break;
+                    case BulkTranslationAction.SetPriority:
+                        translationRequest.IsPriority = isPriority;
+                        priorityChanged = true;
+                        result.Message = $"Translation request with id {id} priority set to {isPriority}";
+                        result.Success = true;
+                        break;
+                    case BulkTranslationAction.SetLane:
+                        // A request moved to another lane joins the end of that lane
+                        translationRequest.Lane = lane;
+                        translationRequest.QueuePosition = null;
+                        priorityChanged = true;
+                        result.Message = $"Translation request with id {id} moved to the {lane} lane";
+                        result.Success = true;
+                        break;
+                }
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Bulk {Action} failed for translation request {RequestId}", action, id);
+                result.Success = false;
+                result.Message = ex.Message;
+            }
+
+            results.Add(result);
+        }
+
+        if (priorityChanged)
+        {
+            await _dbContext.SaveChangesAsync();
+            _workerService.Signal();
+        }
+
+        return results;
+    }
+
     /// <inheritdoc />
     public async Task<int> RetryAllFailedRequests()
     {
@@ -484,6 +829,74 @@ public class TranslationRequestService : ITranslationRequestService
 
         return $"Translation request with id {retryRequest.Id} has been restarted, new job id {newTranslationRequestId}";
     }
+
+    /// <inheritdoc />
+    public async Task<string?> RequeueTranslationRequest(TranslationRequest requeueRequest)
+    {
+        var translationRequest = await _dbContext.TranslationRequests.FirstOrDefaultAsync(
+            translationRequest => translationRequest.Id == requeueRequest.Id);
+        if (translationRequest == null)
+        {
+            return null;
+        }
+
+        var newTranslationRequestId = await CreateRequest(translationRequest);
+
+        return $"Translation request with id {requeueRequest.Id} has been queued again, new job id {newTranslationRequestId}";
+    }
+
+    /// <inheritdoc />
+    public async Task<string?> MoveTranslationRequest(
+        int id,
+        TranslationLane lane,
+        int? targetId = null,
+        bool placeAfter = false)
+    {
+        var translationRequest = await _dbContext.TranslationRequests.FirstOrDefaultAsync(
+            tr => tr.Id == id && tr.Status == TranslationStatus.Pending);
+        if (translationRequest == null)
+        {
+            return null;
+        }
+
+        TranslationRequest? target = null;
+        if (targetId.HasValue)
+        {
+            target = await _dbContext.TranslationRequests.FirstOrDefaultAsync(
+                tr => tr.Id == targetId.Value && tr.Status == TranslationStatus.Pending);
+            if (target == null)
+            {
+                return null;
+            }
+
+            // Dropping next to a request places it in that request's lane
+            lane = target.Lane;
+        }
+
+        // Positions are renumbered for the whole lane, so the manual order survives new requests
+        var queue = await _dbContext.TranslationRequests
+            .Where(tr => tr.Status == TranslationStatus.Pending && tr.Lane == lane && tr.Id != id)
+            .OrderByQueue()
+            .ToListAsync();
+        var index = target != null ? queue.IndexOf(target) + (placeAfter ? 1 : 0) : queue.Count;
+
+        // Priority requests always run first, so a request can only be moved within its own group
+        var priorityCount = queue.Count(tr => tr.IsPriority);
+        index = translationRequest.IsPriority
+            ? Math.Min(index, priorityCount)
+            : Math.Max(index, priorityCount);
+        queue.Insert(index, translationRequest);
+
+        translationRequest.Lane = lane;
+        for (var position = 0; position < queue.Count; position++)
+        {
+            queue[position].QueuePosition = position + 1;
+        }
+        await _dbContext.SaveChangesAsync();
+        await UpdateActiveCount();
+
+        return $"Translation request with id {id} moved to position {index + 1} of the {lane} lane";
+    }
     
     /// <inheritdoc />
     public async Task<TranslationRequest> UpdateTranslationRequest(TranslationRequest translationRequest,
@@ -506,7 +919,8 @@ public class TranslationRequestService : ITranslationRequestService
         if (status == TranslationStatus.InProgress && 
             (request.Status == TranslationStatus.Cancelled || 
              request.Status == TranslationStatus.Completed ||
-             request.Status == TranslationStatus.Failed))
+             request.Status == TranslationStatus.Failed ||
+             request.Status == TranslationStatus.Interrupted))
         {
             // Throwing TaskCanceledException will cause the job to abort gracefully (mostly)
             // or at least stop processing
@@ -515,6 +929,15 @@ public class TranslationRequestService : ITranslationRequestService
 
         request.Status = status;
         request.IsActive = IsActiveStatus(status) ? true : null;
+        switch (status)
+        {
+            case TranslationStatus.InProgress:
+                request.StartedAt = DateTime.UtcNow;
+                break;
+            case TranslationStatus.Failed:
+                request.CompletedAt = DateTime.UtcNow;
+                break;
+        }
         await _dbContext.SaveChangesAsync();
         await UpdateActiveCount();
 
@@ -828,19 +1251,119 @@ public class TranslationRequestService : ITranslationRequestService
         string? orderBy,
         bool ascending,
         int pageNumber,
-        int pageSize)
+        int pageSize,
+        TranslationRequestFilter? filter = null)
+    {
+        var query = QueryTranslationRequests(searchQuery, orderBy, ascending, filter);
+        
+        var totalCount = await query.CountAsync();
+        var requests = await query
+            .Skip((pageNumber - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync();
+
+        await PopulatePriorityFlagsAsync(requests);
+
+        return new PagedResult<TranslationRequest>
+        {
+            Items = requests,
+            TotalCount = totalCount,
+            PageNumber = pageNumber,
+            PageSize = pageSize
+        };
+    }
+
+    /// <inheritdoc />
+    public async IAsyncEnumerable<TranslationRequestExportRow> ExportTranslationRequests(
+        string? searchQuery,
+        string? orderBy,
+        bool ascending,
+        TranslationRequestFilter? filter,
+        bool includeLogs,
+        [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        // Only the ids are read up front, so requests whose status changes while exporting are
+        // neither skipped nor exported twice as they would be with offset paging
+        var matchingIds = await QueryTranslationRequests(searchQuery, orderBy, ascending, filter)
+            .Select(tr => tr.Id)
+            .ToListAsync(cancellationToken);
+
+        foreach (var pageIds in matchingIds.Chunk(ExportPageSize))
+        {
+            var position = pageIds
+                .Select((id, index) => (id, index))
+                .ToDictionary(entry => entry.id, entry => entry.index);
+            var requests = (await _dbContext.TranslationRequests
+                    .AsNoTracking()
+                    .Where(tr => pageIds.Contains(tr.Id))
+                    .ToListAsync(cancellationToken))
+                .OrderBy(tr => position[tr.Id])
+                .ToList();
+
+            var logs = new Dictionary<int, List<TranslationRequestLogDto>>();
+            if (includeLogs)
+            {
+                var ids = requests.Select(tr => tr.Id).ToList();
+                logs = (await _dbContext.TranslationRequestLogs
+                        .AsNoTracking()
+                        .Where(log => ids.Contains(log.TranslationRequestId))
+                        .OrderBy(log => log.CreatedAt)
+                        .ThenBy(log => log.Id)
+                        .ToListAsync(cancellationToken))
+                    .GroupBy(log => log.TranslationRequestId)
+                    .ToDictionary(group => group.Key, group => group
+                        .Select(log => new TranslationRequestLogDto
+                        {
+                            Id = log.Id,
+                            Level = log.Level,
+                            Message = log.Message,
+                            Details = log.Details,
+                            CreatedAt = log.CreatedAt
+                        })
+                        .ToList());
+            }
+
+            foreach (var request in requests)
+            {
+                yield return new TranslationRequestExportRow
+                {
+                    Id = request.Id,
+                    Title = request.Title,
+                    SourceLanguage = request.SourceLanguage,
+                    TargetLanguage = request.TargetLanguage,
+                    MediaType = request.MediaType,
+                    Status = request.Status,
+                    ServiceType = request.ServiceType,
+                    Model = request.Model,
+                    CreatedAt = request.CreatedAt,
+                    StartedAt = request.StartedAt,
+                    CompletedAt = request.CompletedAt,
+                    Logs = includeLogs ? logs.GetValueOrDefault(request.Id) ?? [] : null
+                };
+            }
+        }
+    }
+
+    private IQueryable<TranslationRequest> QueryTranslationRequests(
+        string? searchQuery,
+        string? orderBy,
+        bool ascending,
+        TranslationRequestFilter? filter)
     {
-        var query = _dbContext.TranslationRequests
-            .AsSplitQuery()
-            .Where(tr => tr.Status == TranslationStatus.Pending)
-            .AsQueryable();
+        var query = ApplyFilter(_dbContext.TranslationRequests.AsSplitQuery(), filter ?? new TranslationRequestFilter());
 
         if (!string.IsNullOrEmpty(searchQuery))
         {
-            query = query.Where(translationRequest => translationRequest.Title.ToLower().Contains(searchQuery.ToLower()));
+            var search = searchQuery.ToLower();
+            query = query.Where(translationRequest =>
+                translationRequest.Title.ToLower().Contains(search) ||
+                (translationRequest.SubtitleToTranslate != null &&
+                 translationRequest.SubtitleToTranslate.ToLower().Contains(search)) ||
+                (translationRequest.ServiceType != null && translationRequest.ServiceType.ToLower().Contains(search)) ||
+                (translationRequest.Model != null && translationRequest.Model.ToLower().Contains(search)));
         }
     
-        query = orderBy switch
+        var orderedQuery = orderBy switch
         {
             "Title" => ascending 
                 ? query.OrderBy(m => m.Title) 
@@ -851,26 +1374,14 @@ public class TranslationRequestService : ITranslationRequestService
             "CompletedAt" => ascending
                 ? query.OrderByDescending(tr => tr.CompletedAt)
                 : query.OrderBy(tr => tr.CompletedAt),
+            "Queue" => query.OrderByQueue(),
             _ => ascending
                 ? query.OrderByDescending(tr => tr.CreatedAt)
                 : query.OrderBy(tr => tr.CreatedAt)
         };
-        
-        var totalCount = await query.CountAsync();
-        var requests = await query
-            .Skip((pageNumber - 1) * pageSize)
-            .Take(pageSize)
-            .ToListAsync();
-
-        await PopulatePriorityFlagsAsync(requests);
 
-        return new PagedResult<TranslationRequest>
-        {
-            Items = requests,
-            TotalCount = totalCount,
-            PageNumber = pageNumber,
-            PageSize = pageSize
-        };
+        // Ties are broken by id so paging never skips or repeats a request
+        return orderedQuery.ThenBy(tr => tr.Id);
     }
     
     /// <inheritdoc />
@@ -913,6 +1424,67 @@ public class TranslationRequestService : ITranslationRequestService
         }
     }
 
+    private static IQueryable<TranslationRequest> ApplyFilter(
+        IQueryable<TranslationRequest> query,
+        TranslationRequestFilter filter)
+    {
+        var statuses = filter.Statuses.Count > 0
+            ? filter.Statuses
+            : new List<TranslationStatus> { TranslationStatus.Pending };
+        query = query.Where(tr => statuses.Contains(tr.Status));
+
+        if (!string.IsNullOrEmpty(filter.SourceLanguage))
+        {
+            query = query.Where(tr => tr.SourceLanguage == filter.SourceLanguage);
+        }
+
+        if (!string.IsNullOrEmpty(filter.TargetLanguage))
+        {
+            query = query.Where(tr => tr.TargetLanguage == filter.TargetLanguage);
+        }
+
+        if (filter.MediaType.HasValue)
+        {
+            query = query.Where(tr => tr.MediaType == filter.MediaType.Value);
+        }
+
+        if (filter.MediaId.HasValue)
+        {
+            query = query.Where(tr => tr.MediaId == filter.MediaId.Value);
+        }
+
+        if (filter.IsPriority.HasValue)
+        {
+            query = query.Where(tr => tr.IsPriority == filter.IsPriority.Value);
+        }
+
+        if (filter.CreatedFrom.HasValue)
+        {
+            var createdFrom = filter.CreatedFrom.Value.Date;
+            query = query.Where(tr => tr.CreatedAt >= createdFrom);
+        }
+
+        if (filter.CreatedTo.HasValue)
+        {
+            var createdTo = filter.CreatedTo.Value.Date.AddDays(1);
+            query = query.Where(tr => tr.CreatedAt < createdTo);
+        }
+
+        if (filter.CompletedFrom.HasValue)
+        {
+            var completedFrom = filter.CompletedFrom.Value.Date;
+            query = query.Where(tr => tr.CompletedAt >= completedFrom);
+        }
+
+        if (filter.CompletedTo.HasValue)
+        {
+            var completedTo = filter.CompletedTo.Value.Date.AddDays(1);
+            query = query.Where(tr => tr.CompletedAt < completedTo);
+        }
+
+        return query;
+    }
+
     private async Task PopulatePriorityFlagsAsync(List<TranslationRequest> requests)
     {
         if (!requests.Any())
@@ -952,9 +1524,9 @@ public class TranslationRequestService : ITranslationRequestService
 
         foreach (var request in requests)
         {
-            request.IsPriority = false;
-            
-            if (!request.MediaId.HasValue)
+            // Requests can be prioritised on their own (retries, bulk actions), so the persisted
+            // flag is kept and only widened by the media priority
+            if (request.IsPriority || !request.MediaId.HasValue)
             {
                 continue;
             }